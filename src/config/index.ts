@@ -0,0 +1,394 @@
+import dotenv from "dotenv";
+import { validateNumber, validateString } from "../utils";
+
+// Load .env before anything reads the configuration
+dotenv.config();
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+export interface ServerConfig {
+  port: number;
+  nodeEnv: "development" | "production" | "test";
+  corsOrigin: string | string[];
+  helmetEnabled: boolean;
+  shutdownTimeoutMs: number;
+}
+
+export interface LoggingConfig {
+  level: LogLevel;
+  fileEnabled: boolean;
+  filePath: string;
+  // The file rotates past this size, keeping fileMaxFiles old copies
+  fileMaxBytes: number;
+  fileMaxFiles: number;
+}
+
+export interface FetcherConfig {
+  timeout: number;
+  retries: number;
+  retryDelay: number;
+  // Fixed User-Agent; when empty the fetcher rotates through its own list
+  userAgent?: string;
+}
+
+export interface SchedulerConfig {
+  maxConcurrent: number;
+  maxPerStore: number;
+  minDelayMs: number;
+}
+
+export interface BrowserConfig {
+  headless: boolean;
+  cdpServer?: string;
+  // How long a page may take to call the product and benefits APIs
+  responseTimeoutMs: number;
+  proxy?: {
+    server: string;
+    username?: string;
+    password?: string;
+  };
+}
+
+export interface BrowserPoolConfig {
+  browsers: number;
+  contextsPerBrowser: number;
+  recycleAfter: number;
+  acquireTimeoutMs: number;
+  leaseTimeoutMs: number;
+}
+
+export interface CacheConfig {
+  enabled: boolean;
+  ttlSeconds: number;
+  backend: "memory" | "redis";
+  maxEntries: number;
+  redisUrl: string;
+}
+
+export interface JobsConfig {
+  store: "memory" | "file";
+  storePath: string;
+  concurrency: number;
+  // Finished jobs kept by either store; the oldest are dropped first
+  maxFinished: number;
+}
+
+export interface HistoryConfig {
+  enabled: boolean;
+  store: "memory" | "file";
+  // Directory holding one snapshot log per product
+  storePath: string;
+}
+
+export interface WatchlistConfig {
+  enabled: boolean;
+  store: "memory" | "file";
+  storePath: string;
+  // Watched products scraped at the same time; the shared scheduler still
+  // applies its global and per-store limits on top
+  concurrency: number;
+  minIntervalSeconds: number;
+  maxItems: number;
+}
+
+export interface WebhookConfig {
+  // Endpoint notified when a watched product changes; unset disables webhooks
+  url?: string;
+  // Shared secret for the X-Webhook-Signature HMAC
+  secret?: string;
+  maxAttempts: number;
+  // Delay before the first retry; doubles on every further attempt
+  retryDelayMs: number;
+  timeoutMs: number;
+  // Recent deliveries kept for GET /admin/webhooks/deliveries
+  logSize: number;
+}
+
+export interface RateLimitConfig {
+  enabled: boolean;
+  windowMs: number;
+  // Budget per client and window, in cost units (a plain scrape costs 2)
+  maxRequests: number;
+  store: "memory" | "redis";
+  redisUrl: string;
+}
+
+export interface AuthConfig {
+  enabled: boolean;
+  // JSON array of key records (see services/auth/apiKeyStore.ts)
+  keysPath: string;
+  usagePath: string;
+}
+
+export interface FeatureFlags {
+  healthCheck: boolean;
+  detailedLogging: boolean;
+  performanceMonitoring: boolean;
+}
+
+export interface AppConfig {
+  server: ServerConfig;
+  logging: LoggingConfig;
+  fetcher: FetcherConfig;
+  scheduler: SchedulerConfig;
+  batch: { maxSize: number };
+  browser: BrowserConfig;
+  browserPool: BrowserPoolConfig;
+  cache: CacheConfig;
+  jobs: JobsConfig;
+  history: HistoryConfig;
+  watchlist: WatchlistConfig;
+  webhooks: WebhookConfig;
+  rateLimit: RateLimitConfig;
+  auth: AuthConfig;
+  features: FeatureFlags;
+}
+
+/**
+ * Thrown when one or more environment variables are invalid. Lists every
+ * problem at once so they can all be fixed in one go.
+ */
+export class ConfigError extends Error {
+  errors: string[];
+
+  constructor(errors: string[]) {
+    super(`Invalid configuration:\n  - ${errors.join("\n  - ")}`);
+    this.name = "ConfigError";
+    this.errors = errors;
+  }
+}
+
+/**
+ * Reads typed values from an environment object, collecting validation
+ * errors instead of throwing on the first one
+ */
+class EnvReader {
+  errors: string[] = [];
+
+  constructor(private env: NodeJS.ProcessEnv) {}
+
+  private raw(name: string): string | undefined {
+    const value = this.env[name];
+    return value === undefined || value.trim() === "" ? undefined : value.trim();
+  }
+
+  number(
+    name: string,
+    fallback: number,
+    options: { min?: number; max?: number; integer?: boolean } = {},
+  ): number {
+    const value = this.raw(name);
+    if (value === undefined) return fallback;
+
+    const result = validateNumber(value, {
+      integer: true,
+      ...options,
+      fieldName: name,
+    });
+    if (!result.isValid) {
+      this.errors.push(`${result.error} (got "${value}")`);
+      return fallback;
+    }
+    return result.parsed!;
+  }
+
+  string(name: string, fallback: string, maxLength: number = 2000): string {
+    const value = this.raw(name);
+    if (value === undefined) return fallback;
+
+    const result = validateString(value, { maxLength, fieldName: name });
+    if (!result.isValid) {
+      this.errors.push(result.error!);
+      return fallback;
+    }
+    return value;
+  }
+
+  optionalString(name: string, maxLength: number = 2000): string | undefined {
+    const value = this.raw(name);
+    return value === undefined ? undefined : this.string(name, "", maxLength);
+  }
+
+  boolean(name: string, fallback: boolean): boolean {
+    const value = this.raw(name);
+    if (value === undefined) return fallback;
+
+    const normalized = value.toLowerCase();
+    if (["true", "1", "yes"].includes(normalized)) return true;
+    if (["false", "0", "no"].includes(normalized)) return false;
+
+    this.errors.push(`${name} must be true or false (got "${value}")`);
+    return fallback;
+  }
+
+  oneOf<T extends string>(name: string, fallback: T, allowed: readonly T[]): T {
+    const value = this.raw(name);
+    if (value === undefined) return fallback;
+
+    if (!(allowed as readonly string[]).includes(value.toLowerCase())) {
+      this.errors.push(`${name} must be one of ${allowed.join(", ")} (got "${value}")`);
+      return fallback;
+    }
+    return value.toLowerCase() as T;
+  }
+
+  url(name: string, protocols: string[]): string | undefined {
+    const value = this.optionalString(name);
+    if (value === undefined) return undefined;
+
+    try {
+      const parsed = new URL(value);
+      if (!protocols.includes(parsed.protocol)) {
+        this.errors.push(`${name} must use ${protocols.join(" or ")} (got "${parsed.protocol}")`);
+        return undefined;
+      }
+    } catch {
+      this.errors.push(`${name} must be a valid URL`);
+      return undefined;
+    }
+    return value;
+  }
+}
+
+/**
+ * Build and validate the configuration from an environment object
+ */
+export function loadConfig(env: NodeJS.ProcessEnv = process.env): AppConfig {
+  const read = new EnvReader(env);
+
+  const corsOrigin = read.string("CORS_ORIGIN", "*");
+  const proxyServer = read.url("PROXY_SERVER", ["http:", "https:", "socks5:"]);
+  const redisUrl = read.url("REDIS_URL", ["redis:"]) || "redis://localhost:6379";
+  const webhookUrl = read.url("WEBHOOK_URL", ["http:", "https:"]);
+  const webhookSecret = read.optionalString("WEBHOOK_SECRET", 500);
+
+  if (webhookUrl && !webhookSecret) {
+    read.errors.push("WEBHOOK_SECRET is required when WEBHOOK_URL is set");
+  }
+
+  const config: AppConfig = {
+    server: {
+      port: read.number("PORT", 3000, { min: 1, max: 65535 }),
+      nodeEnv: read.oneOf("NODE_ENV", "development", ["development", "production", "test"]),
+      corsOrigin:
+        corsOrigin === "*" ? "*" : corsOrigin.split(",").map((origin) => origin.trim()),
+      helmetEnabled: read.boolean("HELMET_ENABLED", true),
+      shutdownTimeoutMs: read.number("SHUTDOWN_TIMEOUT_MS", 30000, { min: 0, max: 300000 }),
+    },
+    logging: {
+      level: read.oneOf("LOG_LEVEL", "info", ["debug", "info", "warn", "error"]),
+      fileEnabled: read.boolean("LOG_FILE_ENABLED", false),
+      filePath: read.string("LOG_FILE_PATH", "./logs/app.log"),
+      fileMaxBytes: read.number("LOG_FILE_MAX_SIZE", 10 * 1024 * 1024, { min: 1024 }),
+      fileMaxFiles: read.number("LOG_FILE_MAX_FILES", 5, { min: 0, max: 100 }),
+    },
+    fetcher: {
+      timeout: read.number("REQUEST_TIMEOUT", 15000, { min: 1000, max: 120000 }),
+      retries: read.number("MAX_RETRIES", 3, { min: 0, max: 10 }),
+      retryDelay: read.number("RETRY_DELAY_MS", 2000, { min: 0, max: 60000 }),
+      userAgent: read.optionalString("USER_AGENT", 500),
+    },
+    scheduler: {
+      maxConcurrent: read.number("MAX_CONCURRENT_REQUESTS", 10, { min: 1, max: 1000 }),
+      maxPerStore: read.number("MAX_CONCURRENT_PER_STORE", 2, { min: 1, max: 100 }),
+      minDelayMs: read.number("SCRAPING_DELAY_MS", 1000, { min: 0, max: 60000 }),
+    },
+    batch: {
+      maxSize: read.number("BATCH_MAX_SIZE", 20, { min: 1, max: 1000 }),
+    },
+    browser: {
+      headless: read.boolean("BROWSER_HEADLESS", false),
+      cdpServer: read.url("BROWSER_CDP_SERVER", ["ws:", "wss:", "http:", "https:"]),
+      responseTimeoutMs: read.number("BROWSER_RESPONSE_TIMEOUT", 15000, { min: 1000, max: 120000 }),
+      proxy: proxyServer
+        ? {
+            server: proxyServer,
+            username: read.optionalString("PROXY_USERNAME", 200),
+            password: read.optionalString("PROXY_PASSWORD", 200),
+          }
+        : undefined,
+    },
+    browserPool: {
+      browsers: read.number("BROWSER_POOL_SIZE", 1, { min: 1, max: 20 }),
+      contextsPerBrowser: read.number("BROWSER_POOL_CONTEXTS", 2, { min: 1, max: 50 }),
+      recycleAfter: read.number("BROWSER_POOL_RECYCLE_AFTER", 50, { min: 0 }),
+      acquireTimeoutMs: read.number("BROWSER_POOL_ACQUIRE_TIMEOUT", 30000, { min: 100 }),
+      leaseTimeoutMs: read.number("BROWSER_POOL_LEASE_TIMEOUT", 60000, { min: 1000 }),
+    },
+    cache: {
+      enabled: read.boolean("CACHE_ENABLED", false),
+      ttlSeconds: read.number("CACHE_TTL_SECONDS", 300, { min: 1, max: 86400 * 7 }),
+      backend: read.oneOf("CACHE_BACKEND", "memory", ["memory", "redis"]),
+      maxEntries: read.number("CACHE_MAX_ENTRIES", 500, { min: 1 }),
+      redisUrl,
+    },
+    jobs: {
+      store: read.oneOf("JOBS_STORE", "memory", ["memory", "file"]),
+      storePath: read.string("JOBS_STORE_PATH", "./data/jobs"),
+      concurrency: read.number("JOBS_CONCURRENCY", 1, { min: 1, max: 100 }),
+      maxFinished: read.number("JOBS_MAX_FINISHED", 1000, { min: 1 }),
+    },
+    history: {
+      enabled: read.boolean("HISTORY_ENABLED", true),
+      store: read.oneOf("HISTORY_STORE", "file", ["memory", "file"]),
+      storePath: read.string("HISTORY_STORE_PATH", "./data/history"),
+    },
+    watchlist: {
+      enabled: read.boolean("WATCHLIST_ENABLED", true),
+      store: read.oneOf("WATCHLIST_STORE", "file", ["memory", "file"]),
+      storePath: read.string("WATCHLIST_STORE_PATH", "./data/watchlist"),
+      concurrency: read.number("WATCHLIST_CONCURRENCY", 2, { min: 1, max: 50 }),
+      minIntervalSeconds: read.number("WATCHLIST_MIN_INTERVAL_SECONDS", 300, { min: 1 }),
+      maxItems: read.number("WATCHLIST_MAX_ITEMS", 500, { min: 1 }),
+    },
+    webhooks: {
+      url: webhookUrl,
+      secret: webhookSecret,
+      maxAttempts: read.number("WEBHOOK_MAX_ATTEMPTS", 5, { min: 1, max: 20 }),
+      retryDelayMs: read.number("WEBHOOK_RETRY_DELAY_MS", 1000, { min: 0, max: 600000 }),
+      timeoutMs: read.number("WEBHOOK_TIMEOUT_MS", 5000, { min: 100, max: 60000 }),
+      logSize: read.number("WEBHOOK_LOG_SIZE", 200, { min: 1, max: 10000 }),
+    },
+    rateLimit: {
+      enabled: read.boolean("RATE_LIMIT_ENABLED", true),
+      windowMs: read.number("RATE_LIMIT_WINDOW_MS", 900000, { min: 1000 }),
+      maxRequests: read.number("RATE_LIMIT_MAX_REQUESTS", 100, { min: 1 }),
+      store: read.oneOf("RATE_LIMIT_STORE", "memory", ["memory", "redis"]),
+      redisUrl,
+    },
+    auth: {
+      enabled: read.boolean("AUTH_ENABLED", false),
+      keysPath: read.string("API_KEYS_PATH", "./data/api-keys.json"),
+      usagePath: read.string("API_USAGE_PATH", "./data/api-usage.json"),
+    },
+    features: {
+      healthCheck: read.boolean("ENABLE_HEALTH_CHECK", true),
+      detailedLogging: read.boolean("ENABLE_DETAILED_LOGGING", true),
+      performanceMonitoring: read.boolean("ENABLE_PERFORMANCE_MONITORING", false),
+    },
+  };
+
+  if (read.errors.length > 0) {
+    throw new ConfigError(read.errors);
+  }
+
+  return config;
+}
+
+/**
+ * Load the process configuration, exiting with a readable message when it
+ * is invalid
+ */
+function loadOrExit(): AppConfig {
+  try {
+    return loadConfig(process.env);
+  } catch (error) {
+    if (error instanceof ConfigError) {
+      console.error(`❌ ${error.message}`);
+      process.exit(1);
+    }
+    throw error;
+  }
+}
+
+export const config: AppConfig = loadOrExit();
@@ -0,0 +1,87 @@
+import { loadConfig, ConfigError } from "../index";
+import { check } from "../../utils/tests/check";
+
+/**
+ * Test suite for configuration loading and validation
+ */
+
+// Test defaults
+console.log("=== Testing defaults ===");
+
+const defaults = loadConfig({});
+check("Default port", defaults.server.port === 3000, defaults.server.port);
+check("Default log level", defaults.logging.level === "info", defaults.logging.level);
+check("Default CORS origin", defaults.server.corsOrigin === "*", defaults.server.corsOrigin);
+check("Default fetcher", defaults.fetcher.timeout === 15000 && defaults.fetcher.retries === 3, defaults.fetcher);
+check("No proxy unless configured", defaults.browser.proxy === undefined, defaults.browser);
+check("Browser headed by default", defaults.browser.headless === false);
+check("Cache disabled by default", defaults.cache.enabled === false && defaults.cache.backend === "memory", defaults.cache);
+check("Rate limit in memory by default", defaults.rateLimit.enabled && defaults.rateLimit.store === "memory", defaults.rateLimit);
+check("Price history on disk by default", defaults.history.enabled && defaults.history.store === "file", defaults.history);
+check("Webhooks off by default", defaults.webhooks.url === undefined, defaults.webhooks);
+check("Watchlist on disk by default", defaults.watchlist.enabled && defaults.watchlist.store === "file" && defaults.watchlist.minIntervalSeconds === 300, defaults.watchlist);
+
+// Test parsing
+console.log("\n=== Testing parsing ===");
+
+const parsed = loadConfig({
+  PORT: "8080",
+  LOG_LEVEL: "WARN",
+  CORS_ORIGIN: "https://a.example, https://b.example",
+  HELMET_ENABLED: "false",
+  REQUEST_TIMEOUT: "10000",
+  MAX_RETRIES: "0",
+  BROWSER_HEADLESS: "1",
+  PROXY_SERVER: "http://proxy.example:1234",
+  PROXY_USERNAME: "user",
+  USER_AGENT: "  ",
+  CACHE_ENABLED: "true",
+  CACHE_BACKEND: "redis",
+  REDIS_URL: "redis://cache:6380/2",
+  RATE_LIMIT_STORE: "redis",
+  HISTORY_STORE: "memory",
+  WATCHLIST_CONCURRENCY: "4",
+  WEBHOOK_URL: "https://hooks.example/naver",
+  WEBHOOK_SECRET: "s3cret",
+});
+
+check("Port parsed", parsed.server.port === 8080, parsed.server.port);
+check("Level is case-insensitive", parsed.logging.level === "warn", parsed.logging.level);
+check(
+  "CORS list split",
+  Array.isArray(parsed.server.corsOrigin) && parsed.server.corsOrigin[1] === "https://b.example",
+  parsed.server.corsOrigin,
+);
+check("Boolean false", parsed.server.helmetEnabled === false);
+check("Zero retries allowed", parsed.fetcher.retries === 0, parsed.fetcher);
+check("Boolean from 1", parsed.browser.headless === true);
+check("Proxy configured", parsed.browser.proxy?.server === "http://proxy.example:1234" && parsed.browser.proxy.username === "user", parsed.browser.proxy);
+check("Blank value treated as unset", parsed.fetcher.userAgent === undefined, parsed.fetcher.userAgent);
+check("Redis cache", parsed.cache.backend === "redis" && parsed.cache.redisUrl === "redis://cache:6380/2", parsed.cache);
+check("Rate limit shares Redis URL", parsed.rateLimit.store === "redis" && parsed.rateLimit.redisUrl === "redis://cache:6380/2", parsed.rateLimit);
+check("History store selected", parsed.history.store === "memory", parsed.history);
+check("Watchlist concurrency parsed", parsed.watchlist.concurrency === 4, parsed.watchlist);
+check("Webhook endpoint configured", parsed.webhooks.url === "https://hooks.example/naver" && parsed.webhooks.maxAttempts === 5, parsed.webhooks);
+
+// Test validation errors
+console.log("\n=== Testing validation errors ===");
+
+let error: ConfigError | null = null;
+try {
+  loadConfig({
+    PORT: "eighty",
+    MAX_CONCURRENT_REQUESTS: "0",
+    LOG_LEVEL: "verbose",
+    CACHE_ENABLED: "maybe",
+    REDIS_URL: "http://not-redis",
+    WEBHOOK_URL: "https://hooks.example/naver",
+  });
+} catch (caught) {
+  error = caught instanceof ConfigError ? caught : null;
+}
+
+check("ConfigError thrown", error !== null);
+check("Every problem reported", error?.errors.length === 6, error?.errors);
+check("Message names the variable", error?.message.includes("PORT must be a valid number") === true, error?.message);
+check("Webhook secret required", error?.errors.includes("WEBHOOK_SECRET is required when WEBHOOK_URL is set") === true, error?.errors);
+check("Message shows the bad value", error?.message.includes('(got "verbose")') === true, error?.message);
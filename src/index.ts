@@ -1,64 +1,144 @@
 import express, { Request, Response, NextFunction } from 'express';
 import cors from 'cors';
 import helmet from 'helmet';
-import dotenv from 'dotenv';
-import { productRouter } from './routes/product';
-import { errorHandler } from './middleware/errorHandler';
-import { logger } from './middleware/logger';
+import { config } from './config';
+import { productRouter, productCache } from './routes/product';
+import { jobsRouter, jobQueue } from './routes/jobs';
+import { watchlistRouter, watchlist } from './routes/watchlist';
+import { historyRouter } from './routes/history';
+import { storesRouter } from './routes/stores';
+import { adminRouter } from './routes/admin';
+import { metricsRouter } from './routes/metrics';
+import { errorHandler, AppError } from './middleware/errorHandler';
+import { logger, configureLogger, closeLogger, logInfo, logError } from './middleware/logger';
+import { rateLimiter } from './middleware/rateLimiter';
+import { apiKeyAuth } from './middleware/auth';
+import { getBrowserPool } from './services/naver/components/browserPool';
+import { getPriceHistory } from './services/history/priceHistory';
+import { getWebhookDispatcher } from './services/notifications/webhookDispatcher';
+import { shutdownCoordinator } from './services/shutdown/shutdownCoordinator';
 
-// Load environment variables
-dotenv.config();
+configureLogger({
+  level: config.logging.level,
+  detailed: config.features.detailedLogging,
+  file: {
+    enabled: config.logging.fileEnabled,
+    path: config.logging.filePath,
+    maxBytes: config.logging.fileMaxBytes,
+    maxFiles: config.logging.fileMaxFiles,
+  },
+});
 
 const app = express();
-const PORT = process.env.PORT || 3000;
+const PORT = config.server.port;
 
 // Middleware
-app.use(helmet()); // Security headers
-app.use(cors()); // Enable CORS
+if (config.server.helmetEnabled) {
+  app.use(helmet()); // Security headers
+}
+app.use(cors({ origin: config.server.corsOrigin })); // Enable CORS
 app.use(express.json()); // Parse JSON bodies
 app.use(express.urlencoded({ extended: true })); // Parse URL-encoded bodies
 app.use(logger); // Custom logging middleware
+app.use(shutdownCoordinator.trackRequests()); // Refuse new work while draining
 
 // Health check endpoint
-app.get('/health', (req: Request, res: Response) => {
-  res.status(200).json({
-    status: 'OK',
-    timestamp: new Date().toISOString(),
-    uptime: process.uptime()
+if (config.features.healthCheck) {
+  app.get('/health', (req: Request, res: Response) => {
+    const draining = shutdownCoordinator.isDraining();
+
+    // 503 while draining so load balancers stop routing here
+    res.status(draining ? 503 : 200).json({
+      status: draining ? 'draining' : 'OK',
+      timestamp: new Date().toISOString(),
+      uptime: process.uptime(),
+      inFlight: shutdownCoordinator.getInFlight()
+    });
   });
-});
+}
+
+// Prometheus metrics
+if (config.features.performanceMonitoring) {
+  app.use('/', metricsRouter);
+}
 
 // API routes
 app.use('/', productRouter);
+app.use('/', historyRouter);
+app.use('/', storesRouter);
+app.use('/', jobsRouter);
+app.use('/', watchlistRouter);
+app.use('/', adminRouter);
 
 // 404 handler
-app.use('*', (req: Request, res: Response) => {
-  res.status(404).json({
-    error: 'Not Found',
-    message: `Route ${req.originalUrl} not found`,
-    timestamp: new Date().toISOString()
-  });
+app.use('*', (req: Request, res: Response, next: NextFunction) => {
+  next(new AppError(`Route ${req.originalUrl} not found`, 404, { code: 'NOT_FOUND' }));
 });
 
 // Global error handler
 app.use(errorHandler);
 
 // Start server
-app.listen(PORT, () => {
-  console.log(`🚀 Server running on port ${PORT}`);
-  console.log(`📍 Health check: http://localhost:${PORT}/health`);
-  console.log(`📦 Product API: http://localhost:${PORT}/naver?productUrl=<url>`);
-});
+const server = app.listen(PORT, () => {
+  logInfo(`Server running on port ${PORT}`, {
+    health: `http://localhost:${PORT}/health`,
+    productApi: `http://localhost:${PORT}/naver?productUrl=<url>`,
+  });
 
-// Graceful shutdown
-process.on('SIGTERM', () => {
-  console.log('SIGTERM received. Shutting down gracefully...');
-  process.exit(0);
+  // Warm up browsers now so the first browser scrape doesn't pay for the launch
+  getBrowserPool()
+    .start()
+    .then(() => logInfo('Browser pool ready'))
+    .catch((error) => logError('Browser pool failed to start', error));
+
+  jobQueue
+    .recover()
+    .catch((error) => logError('Failed to recover jobs from the previous run', error));
+
+  watchlist
+    ?.start()
+    .catch((error) => logError('Watchlist failed to start', error));
 });
 
-process.on('SIGINT', () => {
-  console.log('SIGINT received. Shutting down gracefully...');
-  process.exit(0);
+// Cleanup steps, run in order once in-flight requests have drained
+shutdownCoordinator.register('jobs', (deadline) => jobQueue.stop(deadline));
+shutdownCoordinator.register('watchlist', async (deadline) => {
+  await watchlist?.stop(deadline);
+});
+shutdownCoordinator.register('webhooks', async (deadline) => {
+  await getWebhookDispatcher()?.stop(deadline);
+});
+shutdownCoordinator.register('cache', () => productCache.close());
+shutdownCoordinator.register('price history', async () => {
+  await getPriceHistory()?.close();
 });
+shutdownCoordinator.register('rate limiter', () => rateLimiter.close());
+shutdownCoordinator.register('api keys', () => apiKeyAuth.close());
+shutdownCoordinator.register('browser pool', () => getBrowserPool().close());
+
+// Graceful shutdown
+const shutdown = (signal: string) => {
+  if (shutdownCoordinator.isDraining()) {
+    logInfo(`${signal} received again. Forcing exit...`);
+    closeLogger();
+    process.exit(1);
+  }
+
+  logInfo(`${signal} received. Shutting down gracefully...`);
+  shutdownCoordinator
+    .shutdown(server, signal)
+    .then(() => {
+      closeLogger();
+      process.exit(0);
+    })
+    .catch((error) => {
+      logError('Shutdown failed', error);
+      closeLogger();
+      process.exit(1);
+    });
+};
+
+process.on('SIGTERM', () => shutdown('SIGTERM'));
+process.on('SIGINT', () => shutdown('SIGINT'));
 
 export default app;
@@ -0,0 +1,134 @@
+import { Request, Response, NextFunction, RequestHandler } from "express";
+import { config, AuthConfig } from "../config";
+import { AppError } from "./errorHandler";
+import { RateLimiter, rateLimiter } from "./rateLimiter";
+import {
+  createApiKeyStore,
+  ApiKeyStore,
+  ApiKeyRecord,
+  ApiScope,
+  hasScope,
+} from "../services/auth/apiKeyStore";
+
+declare global {
+  namespace Express {
+    interface Request {
+      // Set once the request's API key has been verified
+      apiKey?: ApiKeyRecord;
+    }
+  }
+}
+
+/**
+ * Verifies API keys, enforces route scopes and per-key daily quotas
+ */
+export class ApiKeyAuth {
+  constructor(
+    private settings: AuthConfig = config.auth,
+    private store: ApiKeyStore | null = settings.enabled
+      ? createApiKeyStore(settings)
+      : null,
+    // Charges failed attempts, which never reach the route's own rate limit
+    private limiter: RateLimiter = rateLimiter,
+  ) {}
+
+  get enabled(): boolean {
+    return this.settings.enabled && this.store !== null;
+  }
+
+  getStore(): ApiKeyStore | null {
+    return this.store;
+  }
+
+  /**
+   * Key from the X-API-Key header, or an "Authorization: Bearer" token
+   */
+  static extractKey(req: Request): string | undefined {
+    const header = req.get("X-API-Key");
+    if (header) return header.trim();
+
+    const authorization = req.get("Authorization");
+    const match = authorization?.match(/^Bearer\s+(.+)$/i);
+    return match?.[1]?.trim();
+  }
+
+  /**
+   * Seconds until the daily quota resets at UTC midnight
+   */
+  static secondsUntilReset(now: Date = new Date()): number {
+    const midnight = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1);
+    return Math.ceil((midnight - now.getTime()) / 1000);
+  }
+
+  /**
+   * Middleware admitting only requests whose key grants `scope` and still
+   * has quota left today
+   */
+  require(scope: ApiScope): RequestHandler {
+    return async (req: Request, res: Response, next: NextFunction) => {
+      if (!this.enabled) return next();
+
+      try {
+        const key = ApiKeyAuth.extractKey(req);
+        if (!key) {
+          throw new AppError("Missing API key. Send it in the X-API-Key header", 401, {
+            code: "API_KEY_MISSING",
+          });
+        }
+
+        const record = await this.store!.findByKey(key);
+        if (!record) {
+          throw new AppError("Invalid API key", 401, { code: "API_KEY_INVALID" });
+        }
+        if (record.disabled) {
+          throw new AppError("API key has been disabled", 403, { code: "API_KEY_DISABLED" });
+        }
+        if (!hasScope(record, scope)) {
+          throw new AppError(`API key is not allowed to access ${scope} endpoints`, 403, {
+            code: "SCOPE_NOT_ALLOWED",
+          });
+        }
+
+        const { allowed, usage } = await this.store!.recordUsage(record, scope);
+
+        if (record.dailyQuota !== undefined) {
+          const resetSeconds = ApiKeyAuth.secondsUntilReset();
+          res.set({
+            "X-Quota-Limit": String(record.dailyQuota),
+            "X-Quota-Remaining": String(Math.max(0, record.dailyQuota - usage.requests)),
+            "X-Quota-Reset": String(resetSeconds),
+          });
+
+          if (!allowed) {
+            throw new AppError(
+              `Daily quota of ${record.dailyQuota} requests exceeded for this API key`,
+              429,
+              { code: "QUOTA_EXCEEDED", retryAfter: resetSeconds },
+            );
+          }
+        }
+
+        req.apiKey = record;
+        next();
+      } catch (error) {
+        if (
+          error instanceof AppError &&
+          (error.code === "API_KEY_MISSING" || error.code === "API_KEY_INVALID")
+        ) {
+          return next((await this.limiter.chargeFailedAuth(req, res)) ?? error);
+        }
+        next(error);
+      }
+    };
+  }
+
+  async close(): Promise<void> {
+    await this.store?.close();
+  }
+}
+
+// Shared instance so every route counts against the same usage records
+export const apiKeyAuth = new ApiKeyAuth();
+
+export const requireApiKey = (scope: ApiScope): RequestHandler =>
+  apiKeyAuth.require(scope);
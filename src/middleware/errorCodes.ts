@@ -0,0 +1,80 @@
+/**
+ * Stable, machine-readable error codes returned in every error response.
+ * Clients branch on `code`; messages are for humans and may change.
+ * Codes are never renamed or reused once published.
+ */
+export const ERROR_CODES = {
+  // Client input
+  INVALID_REQUEST: { statusCode: 400, retryable: false, description: "Missing or malformed request parameters" },
+  INVALID_JSON: { statusCode: 400, retryable: false, description: "Request body is not valid JSON" },
+  INVALID_URL: { statusCode: 400, retryable: false, description: "URL is not a supported Naver product URL" },
+  NOT_FOUND: { statusCode: 404, retryable: false, description: "Route or resource does not exist" },
+  CONFLICT: { statusCode: 409, retryable: false, description: "Resource is not in a state that allows this action" },
+  REQUEST_CANCELLED: { statusCode: 499, retryable: false, description: "The request was cancelled before it finished" },
+
+  // Access control and inbound limits
+  API_KEY_MISSING: { statusCode: 401, retryable: false, description: "No API key was sent" },
+  API_KEY_INVALID: { statusCode: 401, retryable: false, description: "The API key is not recognised" },
+  API_KEY_DISABLED: { statusCode: 403, retryable: false, description: "The API key has been disabled" },
+  SCOPE_NOT_ALLOWED: { statusCode: 403, retryable: false, description: "The API key may not call this endpoint" },
+  RATE_LIMITED: { statusCode: 429, retryable: true, description: "Client exceeded its request budget; see Retry-After" },
+  QUOTA_EXCEEDED: { statusCode: 429, retryable: true, description: "API key used up its daily quota; see Retry-After" },
+
+  // Naver responses
+  PRODUCT_NOT_FOUND: { statusCode: 404, retryable: false, description: "Naver has no product at this URL" },
+  STORE_NOT_FOUND: { statusCode: 404, retryable: false, description: "Naver has no store with this username" },
+  PRODUCT_REMOVED: { statusCode: 410, retryable: false, description: "The product was deleted or delisted" },
+  STORE_CLOSED: { statusCode: 410, retryable: false, description: "The store was closed or suspended" },
+  UPSTREAM_RATE_LIMITED: { statusCode: 429, retryable: true, description: "Naver rate limited the scraper; see Retry-After" },
+  UPSTREAM_FORBIDDEN: { statusCode: 403, retryable: true, description: "Naver refused access, usually bot detection" },
+  BLOCKED_BY_CAPTCHA: { statusCode: 503, retryable: true, description: "Naver served a captcha challenge" },
+  UPSTREAM_BLOCKED: { statusCode: 503, retryable: true, description: "Naver served a temporary block page" },
+  LOGIN_REQUIRED: { statusCode: 403, retryable: false, description: "The product page requires a Naver login" },
+  AGE_VERIFICATION_REQUIRED: { statusCode: 403, retryable: false, description: "The product requires adult verification" },
+  UPSTREAM_TIMEOUT: { statusCode: 408, retryable: true, description: "Naver did not respond in time" },
+  UPSTREAM_UNAVAILABLE: { statusCode: 503, retryable: true, description: "Naver could not be reached" },
+  UPSTREAM_ERROR: { statusCode: 502, retryable: true, description: "Naver returned an unexpected response" },
+
+  // Extraction
+  PARSE_INCOMPLETE: { statusCode: 502, retryable: false, description: "The page loaded but required fields were missing" },
+  PARSE_FAILED: { statusCode: 500, retryable: false, description: "The page could not be parsed" },
+
+  // This service
+  SERVICE_UNAVAILABLE: { statusCode: 503, retryable: true, description: "The service is shutting down or overloaded" },
+  BROWSER_UNAVAILABLE: { statusCode: 503, retryable: true, description: "No browser page became available" },
+  INTERNAL_ERROR: { statusCode: 500, retryable: false, description: "Unexpected server error" },
+} as const;
+
+export type ErrorCode = keyof typeof ERROR_CODES;
+
+/**
+ * Code used when an error is raised with only a status code
+ */
+export function defaultCodeFor(statusCode: number): ErrorCode {
+  switch (statusCode) {
+    case 400:
+      return "INVALID_REQUEST";
+    case 401:
+      return "API_KEY_INVALID";
+    case 403:
+      return "UPSTREAM_FORBIDDEN";
+    case 404:
+      return "NOT_FOUND";
+    case 408:
+      return "UPSTREAM_TIMEOUT";
+    case 409:
+      return "CONFLICT";
+    case 410:
+      return "PRODUCT_REMOVED";
+    case 429:
+      return "RATE_LIMITED";
+    case 499:
+      return "REQUEST_CANCELLED";
+    case 502:
+      return "UPSTREAM_ERROR";
+    case 503:
+      return "SERVICE_UNAVAILABLE";
+    default:
+      return statusCode >= 500 ? "INTERNAL_ERROR" : "INVALID_REQUEST";
+  }
+}
@@ -1,22 +1,85 @@
 import { Request, Response, NextFunction } from "express";
+import { logError, logWarning, getRequestId } from "./logger";
+import { ERROR_CODES, ErrorCode, defaultCodeFor } from "./errorCodes";
+
+export { ERROR_CODES } from "./errorCodes";
+export type { ErrorCode } from "./errorCodes";
 
 export interface ApiError extends Error {
   statusCode?: number;
   isOperational?: boolean;
   code?: string;
+  retryAfter?: number;
+}
+
+export interface AppErrorOptions {
+  // Defaults to the generic code for the status (see defaultCodeFor)
+  code?: ErrorCode;
+  // Seconds the client should wait before retrying; sent as Retry-After
+  retryAfter?: number;
 }
 
 export class AppError extends Error implements ApiError {
   statusCode: number;
   isOperational: boolean;
+  code: ErrorCode;
+  retryAfter?: number;
 
-  constructor(message: string, statusCode: number = 500) {
+  constructor(
+    message: string,
+    statusCode: number = 500,
+    options: AppErrorOptions = {},
+  ) {
     super(message);
     this.statusCode = statusCode;
     this.isOperational = true;
+    this.code = options.code ?? defaultCodeFor(statusCode);
+    this.retryAfter = options.retryAfter;
 
     Error.captureStackTrace(this, this.constructor);
   }
+
+  get retryable(): boolean {
+    return ERROR_CODES[this.code].retryable;
+  }
+}
+
+/**
+ * Turn anything thrown into an AppError, giving errors from libraries and
+ * Node itself a proper code
+ */
+export function toAppError(error: ApiError & { type?: string; status?: number }): AppError {
+  if (error instanceof AppError) return error;
+
+  if (error.type === "entity.parse.failed") {
+    return new AppError("Request body is not valid JSON", 400, { code: "INVALID_JSON" });
+  }
+  if (error.type === "entity.too.large") {
+    return new AppError("Request body is too large", 413, { code: "INVALID_REQUEST" });
+  }
+
+  // Errors from body-parser, http-errors and the like carry their own HTTP
+  // status; only client errors are safe to repeat the message of
+  const status = error.statusCode ?? error.status;
+  if (typeof status === "number" && Number.isInteger(status) && status >= 400 && status <= 599) {
+    return new AppError(status < 500 ? error.message : "Internal server error", status, {
+      code: defaultCodeFor(status),
+    });
+  }
+  if (error.name === "ValidationError") {
+    return new AppError("Invalid input data", 400, { code: "INVALID_REQUEST" });
+  }
+  if (error.name === "CastError") {
+    return new AppError("Invalid data format", 400, { code: "INVALID_REQUEST" });
+  }
+  if (error.code === "ENOTFOUND" || error.code === "ECONNREFUSED" || error.code === "ECONNRESET") {
+    return new AppError("External service unavailable", 503, { code: "UPSTREAM_UNAVAILABLE" });
+  }
+  if (error.name === "TimeoutError") {
+    return new AppError("Request timeout", 408, { code: "UPSTREAM_TIMEOUT" });
+  }
+
+  return new AppError("Internal server error", 500, { code: "INTERNAL_ERROR" });
 }
 
 export const errorHandler = (
@@ -25,34 +88,22 @@ export const errorHandler = (
   res: Response,
   next: NextFunction,
 ): void => {
-  let { statusCode = 500, message } = error;
+  const appError = toAppError(error);
+  const { statusCode, message, code, retryAfter } = appError;
 
-  // Handle specific error types
-  if (error.name === "ValidationError") {
-    statusCode = 400;
-    message = "Invalid input data";
-  } else if (error.name === "CastError") {
-    statusCode = 400;
-    message = "Invalid data format";
-  } else if (error.code === "ENOTFOUND" || error.code === "ECONNREFUSED") {
-    statusCode = 503;
-    message = "External service unavailable";
-  } else if (error.message?.includes("timeout")) {
-    statusCode = 408;
-    message = "Request timeout";
-  }
-
-  // Log comprehensive error details on server (including stack trace)
-  console.error(`[ERROR] ${req.method} ${req.path} - ${statusCode}`, {
+  // Log comprehensive error details on server (including stack trace);
+  // client mistakes are warnings, server failures errors
+  const log = statusCode >= 500 ? logError : logWarning;
+  log(`${req.method} ${req.path} failed with ${statusCode}`, {
     message: error.message,
     statusCode,
     stack: error.stack,
     errorName: error.name,
-    errorCode: error.code,
+    errorCode: code,
+    originalCode: error.code !== code ? error.code : undefined,
     isOperational: error.isOperational,
-    timestamp: new Date().toISOString(),
     requestInfo: {
-      ip: req.ip || req.connection.remoteAddress || "unknown",
+      ip: req.ip || req.socket.remoteAddress || "unknown",
       userAgent: req.get("User-Agent") || "unknown",
       body: req.body && Object.keys(req.body).length > 0 ? req.body : undefined,
       query: req.query && Object.keys(req.query).length > 0 ? req.query : undefined,
@@ -60,15 +111,23 @@ export const errorHandler = (
     },
   });
 
+  if (retryAfter !== undefined) {
+    res.set("Retry-After", String(Math.max(1, Math.ceil(retryAfter))));
+  }
+
   // Send clean error response (no stack traces or sensitive details)
   res.status(statusCode).json({
     success: false,
     error: {
+      code,
       message,
       statusCode,
+      retryable: appError.retryable,
+      ...(retryAfter !== undefined && { retryAfter: Math.ceil(retryAfter) }),
       timestamp: new Date().toISOString(),
       path: req.path,
       method: req.method,
+      requestId: getRequestId(),
     },
   });
 };
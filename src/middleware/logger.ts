@@ -1,109 +1,203 @@
 import { Request, Response, NextFunction } from "express";
+import { AsyncLocalStorage } from "async_hooks";
+import crypto from "crypto";
+import type { LogLevel } from "../config";
+import type { ApiError } from "./errorHandler";
+import { RotatingFileSink } from "../services/logging/rotatingFileSink";
+
+const LOG_LEVELS: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+};
+
+export const REQUEST_ID_HEADER = "X-Request-Id";
 
-interface LogData {
-  method: string;
-  url: string;
-  statusCode: number;
-  responseTime: number;
-  userAgent?: string;
-  ip: string;
-  timestamp: string;
+/**
+ * Fields attached to every log line written while handling one request,
+ * job or watchlist run, e.g. { requestId } or { jobId }
+ */
+export interface LogContext {
+  requestId?: string;
+  jobId?: string;
+  watchId?: string;
 }
 
-export const logger = (
-  req: Request,
-  res: Response,
-  next: NextFunction,
-): void => {
-  const startTime = Date.now();
+const contextStorage = new AsyncLocalStorage<LogContext>();
+
+let minimumLevel: LogLevel = "info";
+let detailedRequests = true;
+let fileSink: RotatingFileSink | null = null;
+
+/**
+ * Apply logging settings: the lowest level written (LOG_LEVEL), whether
+ * request lines carry extra detail (ENABLE_DETAILED_LOGGING) and the
+ * optional rotating file sink (LOG_FILE_*)
+ */
+export const configureLogger = (settings: {
+  level: LogLevel;
+  detailed: boolean;
+  file?: { enabled: boolean; path: string; maxBytes: number; maxFiles: number };
+}): void => {
+  minimumLevel = settings.level;
+  detailedRequests = settings.detailed;
+
+  fileSink?.close();
+  fileSink = null;
+
+  if (settings.file?.enabled) {
+    try {
+      fileSink = new RotatingFileSink(settings.file);
+    } catch (error) {
+      logError(`Cannot open log file ${settings.file.path}; logging to console only`, error);
+    }
+  }
+};
 
-  // Capture original end method
-  const originalEnd = res.end;
+/**
+ * Flush and close the file sink
+ */
+export const closeLogger = (): void => {
+  fileSink?.close();
+  fileSink = null;
+};
 
-  // Override end method to capture response data
-  res.end = function (chunk?: any, encoding?: any, cb?: any) {
-    const responseTime = Date.now() - startTime;
+/**
+ * Run `fn` with extra fields added to every log line it (and anything it
+ * awaits) writes
+ */
+export const withLogContext = <T>(context: LogContext, fn: () => T): T =>
+  contextStorage.run({ ...contextStorage.getStore(), ...context }, fn);
+
+export const getRequestId = (): string | undefined =>
+  contextStorage.getStore()?.requestId;
+
+const isEnabled = (level: LogLevel): boolean =>
+  LOG_LEVELS[level] >= LOG_LEVELS[minimumLevel];
+
+const serializeError = (error: ApiError): Record<string, unknown> => ({
+  name: error.name,
+  message: error.message,
+  ...(error.code !== undefined && { code: error.code }),
+  ...(error.statusCode !== undefined && { statusCode: error.statusCode }),
+  stack: error.stack,
+});
+
+/**
+ * JSON.stringify that keeps Error details and survives circular references
+ */
+const toJson = (entry: Record<string, unknown>): string => {
+  const seen = new WeakSet<object>();
+  return JSON.stringify(entry, (key, value) => {
+    if (value instanceof Error) return serializeError(value);
+    if (typeof value === "bigint") return value.toString();
+    if (typeof value === "object" && value !== null) {
+      if (seen.has(value)) return "[Circular]";
+      seen.add(value);
+    }
+    return value;
+  });
+};
 
-    const logData: LogData = {
-      method: req.method,
-      url: req.originalUrl || req.url,
-      statusCode: res.statusCode,
-      responseTime,
-      userAgent: req.get("User-Agent"),
-      ip: req.ip || req.connection.remoteAddress || "unknown",
+const write = (level: LogLevel, message: string, fields?: Record<string, unknown>): void => {
+  if (!isEnabled(level)) return;
+
+  const line =
+    toJson({
       timestamp: new Date().toISOString(),
-    };
-
-    // Color code based on status
-    const getStatusColor = (status: number): string => {
-      if (status >= 500) return "\x1b[31m"; // Red
-      if (status >= 400) return "\x1b[33m"; // Yellow
-      if (status >= 300) return "\x1b[36m"; // Cyan
-      if (status >= 200) return "\x1b[32m"; // Green
-      return "\x1b[0m"; // Reset
-    };
-
-    const resetColor = "\x1b[0m";
-    const statusColor = getStatusColor(logData.statusCode);
-
-    console.log(
-      `${logData.timestamp} [${logData.method}] ${logData.url} - ` +
-        `${statusColor}${logData.statusCode}${resetColor} - ` +
-        `${logData.responseTime}ms - ${logData.ip}`,
-    );
+      level,
+      message,
+      ...contextStorage.getStore(),
+      ...fields,
+    }) + "\n";
+
+  if (level === "error" || level === "warn") {
+    process.stderr.write(line);
+  } else {
+    process.stdout.write(line);
+  }
 
-    // Log detailed info for errors
-    if (logData.statusCode >= 400) {
-      console.log(`  └─ User-Agent: ${logData.userAgent || "Unknown"}`);
-      console.log(`  └─ Error Response: ${logData.statusCode >= 500 ? 'Server Error' : 'Client Error'}`);
+  if (!fileSink) return;
+  try {
+    fileSink.write(line);
+  } catch (error) {
+    // Logging must never throw into the caller; carry on with console only
+    const sink = fileSink;
+    fileSink = null;
+    try {
+      sink.close();
+    } catch {
+      // Already broken
     }
+    process.stderr.write(
+      toJson({
+        timestamp: new Date().toISOString(),
+        level: "error",
+        message: "Log file write failed; logging to console only",
+        error,
+      }) + "\n",
+    );
+  }
+};
 
-    // Call original end method and return its result
-    return originalEnd.call(this, chunk, encoding, cb);
-  };
+/**
+ * Accept a caller-supplied request id only if it is short and plain enough
+ * to be safe in log lines and headers
+ */
+const resolveRequestId = (req: Request): string => {
+  const incoming = req.get(REQUEST_ID_HEADER);
+  return incoming && /^[\w.:-]{1,128}$/.test(incoming) ? incoming : crypto.randomUUID();
+};
 
-  next();
+export const logger = (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): void => {
+  const startTime = Date.now();
+  const requestId = resolveRequestId(req);
+  res.set(REQUEST_ID_HEADER, requestId);
+
+  res.on("finish", () => {
+    const statusCode = res.statusCode;
+    const level: LogLevel =
+      statusCode >= 500 ? "error" : statusCode >= 400 ? "warn" : "info";
+
+    write(level, "Request completed", {
+      requestId,
+      request: {
+        method: req.method,
+        url: req.originalUrl || req.url,
+        statusCode,
+        responseTime: Date.now() - startTime,
+        ip: req.ip || req.socket.remoteAddress || "unknown",
+        ...(detailedRequests && {
+          userAgent: req.get("User-Agent"),
+          referrer: req.get("Referer"),
+          contentLength: res.get("Content-Length"),
+        }),
+      },
+    });
+  });
+
+  // Everything downstream of this request, including scraper and fetcher
+  // calls, logs with its request id
+  contextStorage.run({ requestId }, next);
+};
+
+export const logDebug = (message: string, data?: any): void => {
+  write("debug", message, data === undefined ? undefined : { data });
 };
 
 export const logInfo = (message: string, data?: any): void => {
-  const timestamp = new Date().toISOString();
-  console.log(`${timestamp} [INFO] ${message}`);
-
-  if (data) {
-    if (typeof data === 'object') {
-      console.log(`  └─ Details:`, JSON.stringify(data, null, 2));
-    } else {
-      console.log(`  └─ Details: ${data}`);
-    }
-  }
+  write("info", message, data === undefined ? undefined : { data });
 };
 
 export const logError = (message: string, error?: any): void => {
-  const timestamp = new Date().toISOString();
-  console.error(`${timestamp} [ERROR] ${message}`);
-
-  if (error) {
-    if (error instanceof Error) {
-      console.error(`  └─ Error: ${error.message}`);
-      console.error(`  └─ Stack: ${error.stack}`);
-      if (error.name) console.error(`  └─ Type: ${error.name}`);
-    } else if (typeof error === 'object') {
-      console.error(`  └─ Details:`, JSON.stringify(error, null, 2));
-    } else {
-      console.error(`  └─ Details: ${error}`);
-    }
-  }
+  write("error", message, error === undefined ? undefined : { error });
 };
 
 export const logWarning = (message: string, data?: any): void => {
-  const timestamp = new Date().toISOString();
-  console.warn(`${timestamp} [WARN] ${message}`);
-
-  if (data) {
-    if (typeof data === 'object') {
-      console.warn(`  └─ Details:`, JSON.stringify(data, null, 2));
-    } else {
-      console.warn(`  └─ Details: ${data}`);
-    }
-  }
+  write("warn", message, data === undefined ? undefined : { data });
 };
@@ -0,0 +1,139 @@
+import { Request, Response, NextFunction, RequestHandler } from "express";
+import { config, RateLimitConfig } from "../config";
+import { AppError } from "./errorHandler";
+import { logWarning } from "./logger";
+import { RateLimitValidator, type RateLimitStore } from "../utils";
+import { createRateLimitStore } from "../services/rateLimit/rateLimitStore";
+import type {} from "./auth"; // Request.apiKey
+
+/**
+ * Budget units charged per route. Browser scrapes tie up a pooled page for
+ * seconds, so they cost far more than a URL check.
+ */
+export const RATE_LIMIT_COSTS = {
+  read: 1,
+  validate: 1,
+  scrape: 2,
+  browser: 10,
+  // Missing or unknown API key
+  authFailure: 5,
+} as const;
+
+export type RateLimitCost = number | ((req: Request) => number);
+
+/**
+ * Cost of scraping every URL in a request body, at the given per-URL price
+ */
+export const perUrlCost =
+  (unitCost: number): ((req: Request) => number) =>
+  (req: Request) => {
+    const urls = req.body?.productUrls;
+    return unitCost * Math.max(1, Array.isArray(urls) ? urls.length : 1);
+  };
+
+/**
+ * Inbound rate limiting for the API routes. Each client gets a budget per
+ * window; routes charge different amounts against it.
+ */
+export class RateLimiter {
+  private validator: RateLimitValidator;
+
+  constructor(
+    private settings: RateLimitConfig = config.rateLimit,
+    private store: RateLimitStore | undefined = createRateLimitStore(settings),
+  ) {
+    this.validator = new RateLimitValidator({
+      windowMs: settings.windowMs,
+      maxRequests: settings.maxRequests,
+      keyGenerator: RateLimiter.keyFor,
+      store,
+    });
+  }
+
+  /**
+   * Clients with a verified API key share one budget per key, wherever they
+   * connect from; everyone else is limited per IP. An X-API-Key header that
+   * hasn't been verified is ignored, so sending a fresh one on every request
+   * doesn't buy a fresh budget.
+   */
+  static keyFor(req: Request): string {
+    if (req.apiKey) return `key:${req.apiKey.id}`;
+    return `ip:${req.ip || req.socket?.remoteAddress || "unknown"}`;
+  }
+
+  /**
+   * Middleware charging `cost` units per request. Sets the RateLimit-*
+   * headers on every response and Retry-After when the budget is spent.
+   */
+  charge(cost: RateLimitCost): RequestHandler {
+    return async (req: Request, res: Response, next: NextFunction) => {
+      const units = typeof cost === "function" ? cost(req) : cost;
+      next((await this.consume(req, res, units)) ?? undefined);
+    };
+  }
+
+  /**
+   * Charge a rejected authentication attempt against the caller's IP
+   * budget, so API keys can't be guessed faster than the limit allows.
+   * Returns the 429 to send instead once the budget is spent.
+   */
+  async chargeFailedAuth(req: Request, res: Response): Promise<AppError | null> {
+    return this.consume(req, res, RATE_LIMIT_COSTS.authFailure);
+  }
+
+  private async consume(req: Request, res: Response, units: number): Promise<AppError | null> {
+    if (!this.settings.enabled) return null;
+
+    // Waiting wouldn't help a request that costs more than a whole window
+    if (units > this.validator.limit) {
+      return new AppError(
+        `This request costs ${units} units but the rate limit allows ${this.validator.limit} per window; send fewer URLs per request`,
+        400,
+        { code: "INVALID_REQUEST" },
+      );
+    }
+
+    let result;
+    try {
+      result = await this.validator.consume(req, units);
+    } catch (error) {
+      // A broken counter store shouldn't take the API down with it
+      logWarning(
+        `Rate limit store unavailable, allowing request: ${error instanceof Error ? error.message : error}`,
+      );
+      return null;
+    }
+
+    const resetSeconds = Math.max(
+      0,
+      Math.ceil(((result.resetTime ?? Date.now()) - Date.now()) / 1000),
+    );
+
+    res.set({
+      "RateLimit-Limit": String(this.validator.limit),
+      "RateLimit-Remaining": String(result.remaining ?? 0),
+      "RateLimit-Reset": String(resetSeconds),
+      "RateLimit-Policy": `${this.validator.limit};w=${Math.ceil(this.validator.windowMs / 1000)}`,
+    });
+
+    if (!result.isValid) {
+      return new AppError(
+        `Rate limit exceeded. This request costs ${units} of ${this.validator.limit} units per window; try again in ${resetSeconds} seconds`,
+        429,
+        { code: "RATE_LIMITED", retryAfter: Math.max(1, resetSeconds) },
+      );
+    }
+
+    return null;
+  }
+
+  async close(): Promise<void> {
+    await this.store?.close();
+  }
+}
+
+// Shared limiter so every route draws from the same per-client budget
+export const rateLimiter = new RateLimiter();
+
+export const rateLimit = (cost: RateLimitCost): RequestHandler =>
+  rateLimiter.charge(cost);
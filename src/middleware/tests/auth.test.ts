@@ -0,0 +1,175 @@
+import express from "express";
+import http from "http";
+import os from "os";
+import path from "path";
+import { promises as fs } from "fs";
+import { AddressInfo } from "net";
+import { ApiKeyAuth } from "../auth";
+import { errorHandler } from "../errorHandler";
+import { RateLimiter } from "../rateLimiter";
+import { FileApiKeyStore } from "../../services/auth/apiKeyStore";
+import { check } from "../../utils/tests/check";
+
+/**
+ * Test suite for API key authentication: key lookup, scopes, daily quotas
+ * and persisted usage
+ */
+
+interface Reply {
+  status: number;
+  headers: http.IncomingHttpHeaders;
+  body: any;
+}
+
+function request(port: number, path: string, headers: Record<string, string> = {}): Promise<Reply> {
+  return new Promise((resolve, reject) => {
+    http
+      .get({ port, path, headers, agent: false }, (res) => {
+        let data = "";
+        res.on("data", (chunk) => (data += chunk));
+        res.on("end", () =>
+          resolve({ status: res.statusCode || 0, headers: res.headers, body: JSON.parse(data) }),
+        );
+      })
+      .on("error", reject);
+  });
+}
+
+const limits = {
+  enabled: true,
+  windowMs: 60000,
+  maxRequests: 100,
+  store: "memory" as const,
+  redisUrl: "redis://localhost:6379",
+};
+
+async function setup(directory: string, limiter = new RateLimiter(limits, undefined)) {
+  const keysPath = path.join(directory, "keys.json");
+  const usagePath = path.join(directory, "usage.json");
+
+  await fs.writeFile(
+    keysPath,
+    JSON.stringify([
+      { id: "team-a", name: "Team A", keyHash: FileApiKeyStore.hashKey("secret-a"), scopes: ["scrape"], dailyQuota: 2 },
+      { id: "ops", keyHash: FileApiKeyStore.hashKey("secret-ops"), scopes: ["*"] },
+      { id: "off", keyHash: FileApiKeyStore.hashKey("secret-off"), scopes: ["*"], disabled: true },
+      { id: "broken", keyHash: "not-a-hash", scopes: ["*"] },
+    ]),
+  );
+
+  const settings = { enabled: true, keysPath, usagePath };
+  const auth = new ApiKeyAuth(settings, new FileApiKeyStore(keysPath, usagePath), limiter);
+
+  const app = express();
+  app.get("/naver", auth.require("scrape"), (req, res) => res.json({ key: req.apiKey?.id }));
+  app.get("/test-browser", auth.require("browser"), (req, res) => res.json({ key: req.apiKey?.id }));
+  app.use(errorHandler);
+
+  return { auth, server: app.listen(0), keysPath, usagePath };
+}
+
+async function testAuthentication(directory: string): Promise<void> {
+  console.log("=== Testing authentication and scopes ===");
+
+  const { auth, server } = await setup(directory);
+  const port = (server.address() as AddressInfo).port;
+
+  const missing = await request(port, "/naver");
+  check("Missing key rejected with 401", missing.status === 401 && missing.body.error.statusCode === 401, missing.body);
+
+  const invalid = await request(port, "/naver", { "X-API-Key": "wrong" });
+  check("Invalid key rejected with 401", invalid.status === 401, invalid.body);
+
+  const malformed = await request(port, "/naver", { "X-API-Key": "not-a-hash" });
+  check("Malformed entries are not loaded", malformed.status === 401, malformed.body);
+
+  const disabled = await request(port, "/naver", { "X-API-Key": "secret-off" });
+  check("Disabled key rejected with 403", disabled.status === 403, disabled.body);
+
+  const ok = await request(port, "/naver", { "X-API-Key": "secret-a" });
+  check("Valid key accepted", ok.status === 200 && ok.body.key === "team-a", ok.body);
+  check("Quota headers set", ok.headers["x-quota-limit"] === "2" && ok.headers["x-quota-remaining"] === "1", ok.headers);
+
+  const outOfScope = await request(port, "/test-browser", { "X-API-Key": "secret-a" });
+  check("Route outside scopes rejected with 403", outOfScope.status === 403, outOfScope.body);
+
+  const bearer = await request(port, "/test-browser", { Authorization: "Bearer secret-ops" });
+  check("Bearer token and wildcard scope", bearer.status === 200 && bearer.body.key === "ops", bearer.body);
+  check("Unlimited key has no quota headers", bearer.headers["x-quota-limit"] === undefined, bearer.headers);
+
+  server.close();
+  await auth.close();
+}
+
+async function testQuota(directory: string): Promise<void> {
+  console.log("\n=== Testing daily quota and usage ===");
+
+  const { auth, server, keysPath, usagePath } = await setup(directory);
+  const port = (server.address() as AddressInfo).port;
+
+  // One request left over from the previous test, loaded from the usage file
+  const second = await request(port, "/naver", { "X-API-Key": "secret-a" });
+  check("Usage survives restart", second.status === 200 && second.headers["x-quota-remaining"] === "0", second.headers);
+
+  const over = await request(port, "/naver", { "X-API-Key": "secret-a" });
+  check("Over quota rejected with 429", over.status === 429, over.body);
+  check("Retry-After until reset", Number(over.headers["retry-after"]) > 0, over.headers);
+
+  server.close();
+  await auth.close();
+
+  const store = new FileApiKeyStore(keysPath, usagePath);
+  const [today] = await store.getUsage("team-a");
+  check(
+    "Usage counted per scope",
+    today?.requests === 2 && today.rejected === 1 && today.byScope.scrape === 2,
+    today,
+  );
+}
+
+async function testFailedAttempts(directory: string): Promise<void> {
+  console.log("\n=== Testing failed attempts ===");
+
+  // Two failed attempts fit the budget, the third doesn't
+  const { auth, server } = await setup(directory, new RateLimiter({ ...limits, maxRequests: 10 }, undefined));
+  const port = (server.address() as AddressInfo).port;
+
+  const first = await request(port, "/naver", { "X-API-Key": "guess-1" });
+  check("Failed attempt charged to the IP", first.status === 401 && first.headers["ratelimit-remaining"] === "5", first.headers);
+
+  await request(port, "/naver");
+  const guessing = await request(port, "/naver", { "X-API-Key": "guess-3" });
+  check("Repeated failures rejected with 429", guessing.status === 429 && guessing.body.error.code === "RATE_LIMITED", guessing.body);
+
+  const ok = await request(port, "/test-browser", { "X-API-Key": "secret-ops" });
+  check("Valid key still accepted", ok.status === 200 && ok.headers["ratelimit-limit"] === undefined, ok.headers);
+
+  server.close();
+  await auth.close();
+}
+
+async function testDisabled(): Promise<void> {
+  console.log("\n=== Testing disabled authentication ===");
+
+  const auth = new ApiKeyAuth({ enabled: false, keysPath: "", usagePath: "" });
+  const app = express();
+  app.get("/naver", auth.require("scrape"), (req, res) => res.json({ ok: true }));
+  const server = app.listen(0);
+
+  const reply = await request((server.address() as AddressInfo).port, "/naver");
+  check("Requests pass when disabled", reply.status === 200, reply);
+  check("No store created when disabled", auth.getStore() === null);
+  server.close();
+}
+
+(async () => {
+  const directory = await fs.mkdtemp(path.join(os.tmpdir(), "api-keys-"));
+  try {
+    await testAuthentication(directory);
+    await testQuota(directory);
+    await testFailedAttempts(directory);
+    await testDisabled();
+  } finally {
+    await fs.rm(directory, { recursive: true, force: true });
+  }
+})();
@@ -0,0 +1,152 @@
+import express from "express";
+import http from "http";
+import { AddressInfo } from "net";
+import { AppError, ERROR_CODES, errorHandler, toAppError } from "../errorHandler";
+import { defaultCodeFor } from "../errorCodes";
+import { ProductFetcher } from "../../services/naver/components/fetcher";
+import { check } from "../../utils/tests/check";
+
+/**
+ * Test suite for error codes: the catalog, mapping of library errors and
+ * the JSON error response
+ */
+
+interface Reply {
+  status: number;
+  headers: http.IncomingHttpHeaders;
+  body: any;
+}
+
+function request(
+  port: number,
+  method: string,
+  path: string,
+  body?: string,
+  contentType = "application/json",
+): Promise<Reply> {
+  return new Promise((resolve, reject) => {
+    const req = http.request(
+      { port, path, method, agent: false, headers: { "Content-Type": contentType } },
+      (res) => {
+        let data = "";
+        res.on("data", (chunk) => (data += chunk));
+        res.on("end", () =>
+          resolve({ status: res.statusCode || 0, headers: res.headers, body: JSON.parse(data) }),
+        );
+      },
+    );
+    req.on("error", reject);
+    req.end(body);
+  });
+}
+
+async function runTests() {
+  // Test the catalog
+  console.log("=== Testing error catalog ===");
+
+  const mismatched = Object.entries(ERROR_CODES)
+    .filter(([code]) => {
+      const error = new AppError("x", ERROR_CODES[code as keyof typeof ERROR_CODES].statusCode, {
+        code: code as keyof typeof ERROR_CODES,
+      });
+      return error.code !== code;
+    })
+    .map(([code]) => code);
+  check("Every code round-trips through AppError", mismatched.length === 0, mismatched);
+  check("Plain 404 defaults to NOT_FOUND", new AppError("x", 404).code === "NOT_FOUND");
+  check("Plain 500 defaults to INTERNAL_ERROR", defaultCodeFor(500) === "INTERNAL_ERROR");
+  check("Upstream 429 is retryable", new AppError("x", 429, { code: "UPSTREAM_RATE_LIMITED" }).retryable);
+  check("Removed product is not retryable", !new AppError("x", 410, { code: "PRODUCT_REMOVED" }).retryable);
+
+  // Test library error mapping
+  console.log("\n=== Testing error mapping ===");
+
+  const dns = toAppError(Object.assign(new Error("getaddrinfo ENOTFOUND"), { code: "ENOTFOUND" }));
+  check("DNS failure is UPSTREAM_UNAVAILABLE", dns.code === "UPSTREAM_UNAVAILABLE" && dns.statusCode === 503, dns);
+
+  const timeout = toAppError(Object.assign(new Error("waiting"), { name: "TimeoutError" }));
+  check("TimeoutError is UPSTREAM_TIMEOUT", timeout.code === "UPSTREAM_TIMEOUT", timeout);
+
+  const unknown = toAppError(new Error("the message mentions timeout and not found"));
+  check("Unknown errors are INTERNAL_ERROR", unknown.code === "INTERNAL_ERROR" && unknown.statusCode === 500, unknown);
+
+  const notFound = toAppError(Object.assign(new Error("No such job"), { status: 404 }));
+  check(
+    "Library 4xx status kept",
+    notFound.statusCode === 404 && notFound.code === "NOT_FOUND" && notFound.message === "No such job",
+    notFound,
+  );
+
+  const unavailable = toAppError(Object.assign(new Error("pool exhausted at 10.0.0.3"), { statusCode: 503 }));
+  check(
+    "Library 5xx status kept without its message",
+    unavailable.statusCode === 503 && unavailable.code === "SERVICE_UNAVAILABLE" && !unavailable.message.includes("10.0.0.3"),
+    unavailable,
+  );
+
+  const notAnError = toAppError(Object.assign(new Error("redirect"), { status: 302 }));
+  check("Non-error status is INTERNAL_ERROR", notAnError.statusCode === 500, notAnError);
+
+  // Test upstream Retry-After parsing
+  console.log("\n=== Testing Retry-After parsing ===");
+
+  check("Delta seconds", ProductFetcher.parseRetryAfter("30") === 30);
+  const inOneMinute = new Date(Date.now() + 60_000).toUTCString();
+  const parsed = ProductFetcher.parseRetryAfter(inOneMinute);
+  check("HTTP date", parsed !== undefined && parsed >= 58 && parsed <= 60, parsed);
+  check("Missing header", ProductFetcher.parseRetryAfter(undefined) === undefined);
+  check("Garbage header", ProductFetcher.parseRetryAfter("soon") === undefined);
+
+  // Test responses
+  console.log("\n=== Testing error responses ===");
+
+  const app = express();
+  app.use(express.json());
+  app.post("/echo", (req, res) => {
+    res.json(req.body);
+  });
+  app.get("/limited", () => {
+    throw new AppError("Too many requests - rate limited by server", 429, {
+      code: "UPSTREAM_RATE_LIMITED",
+      retryAfter: 12.2,
+    });
+  });
+  app.get("/crash", () => {
+    throw new Error("secret internals");
+  });
+  app.use(errorHandler);
+
+  const server = app.listen(0);
+  const { port } = server.address() as AddressInfo;
+
+  try {
+    const limited = await request(port, "GET", "/limited");
+    check("Status from the error", limited.status === 429, limited.status);
+    check("Code in body", limited.body.error?.code === "UPSTREAM_RATE_LIMITED", limited.body);
+    check("Retryable flag", limited.body.error?.retryable === true, limited.body);
+    check("Retry-After header rounded up", limited.headers["retry-after"] === "13", limited.headers);
+    check("retryAfter in body", limited.body.error?.retryAfter === 13, limited.body);
+
+    const badJson = await request(port, "POST", "/echo", "{ not json");
+    check("Malformed JSON is INVALID_JSON", badJson.status === 400 && badJson.body.error?.code === "INVALID_JSON", badJson.body);
+
+    const charset = await request(port, "POST", "/echo", "{}", "application/json; charset=klingon");
+    check(
+      "Body parser status kept",
+      charset.status === 415 && charset.body.error?.code === "INVALID_REQUEST",
+      charset.body,
+    );
+
+    const crash = await request(port, "GET", "/crash");
+    check("Unexpected errors are INTERNAL_ERROR", crash.status === 500 && crash.body.error?.code === "INTERNAL_ERROR", crash.body);
+    check("Internal messages not leaked", !JSON.stringify(crash.body).includes("secret"), crash.body);
+    check("No Retry-After without a hint", crash.headers["retry-after"] === undefined, crash.headers);
+  } finally {
+    server.close();
+  }
+}
+
+runTests().catch((error) => {
+  console.error("Test run failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,197 @@
+import express from "express";
+import http from "http";
+import os from "os";
+import path from "path";
+import fs from "fs";
+import { AddressInfo } from "net";
+import {
+  logger,
+  configureLogger,
+  closeLogger,
+  logInfo,
+  logDebug,
+  logError,
+  withLogContext,
+} from "../logger";
+import { RequestScheduler } from "../../services/naver/components/scheduler";
+import { check } from "../../utils/tests/check";
+
+/**
+ * Test suite for the structured logger: JSON lines, level filtering,
+ * request id propagation and the rotating file sink
+ */
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Collect log lines written to stdout/stderr while `fn` runs
+ */
+async function capture(fn: () => Promise<void> | void): Promise<any[]> {
+  const lines: string[] = [];
+  const originalOut = process.stdout.write.bind(process.stdout);
+  const originalErr = process.stderr.write.bind(process.stderr);
+  const collect = (chunk: any) => {
+    lines.push(String(chunk));
+    return true;
+  };
+
+  process.stdout.write = collect as typeof process.stdout.write;
+  process.stderr.write = collect as typeof process.stderr.write;
+  try {
+    await fn();
+  } finally {
+    process.stdout.write = originalOut;
+    process.stderr.write = originalErr;
+  }
+
+  return lines
+    .join("")
+    .split("\n")
+    .filter(Boolean)
+    .map((line) => JSON.parse(line));
+}
+
+async function testFormat(): Promise<void> {
+  console.log("=== Testing JSON lines and levels ===");
+
+  configureLogger({ level: "info", detailed: false });
+
+  const circular: any = { name: "loop" };
+  circular.self = circular;
+
+  const entries = await capture(() => {
+    logDebug("hidden");
+    logInfo("Scraped product", { productId: "123" });
+    logError("Fetch failed", new Error("socket hang up"));
+    logInfo("Circular data", circular);
+  });
+
+  check("Below level dropped", entries.every((entry) => entry.message !== "hidden"), entries);
+  check("Line is structured", entries[0]?.level === "info" && entries[0]?.data?.productId === "123", entries[0]);
+  check("Timestamp included", typeof entries[0]?.timestamp === "string");
+  check("Errors keep message and stack", entries[1]?.error?.message === "socket hang up" && !!entries[1]?.error?.stack, entries[1]);
+  check("Circular data survives", entries[2]?.data?.self === "[Circular]", entries[2]);
+
+  configureLogger({ level: "debug", detailed: false });
+  const debug = await capture(() => logDebug("visible"));
+  check("Debug level enabled", debug[0]?.message === "visible", debug);
+}
+
+async function testRequestIds(): Promise<void> {
+  console.log("\n=== Testing request id propagation ===");
+
+  configureLogger({ level: "info", detailed: false });
+  const scheduler = new RequestScheduler({ maxConcurrent: 1, maxPerStore: 1, minDelayMs: 0 });
+
+  const app = express();
+  app.use(logger);
+  app.get("/scrape", async (req, res) => {
+    await scheduler.schedule("store", async () => {
+      await sleep(20);
+      logInfo("Inside scheduled task");
+    });
+    res.json({ ok: true });
+  });
+  const server = app.listen(0);
+  const port = (server.address() as AddressInfo).port;
+
+  const get = (requestId: string) =>
+    new Promise<string | undefined>((resolve, reject) => {
+      http
+        .get({ port, path: "/scrape", headers: { "X-Request-Id": requestId }, agent: false }, (res) => {
+          res.resume();
+          res.on("end", () => resolve(res.headers["x-request-id"] as string | undefined));
+        })
+        .on("error", reject);
+    });
+
+  let echoed: (string | undefined)[] = [];
+  const entries = await capture(async () => {
+    // The second task starts when the first frees the slot
+    echoed = await Promise.all([get("req-a"), get("req-b")]);
+  });
+  server.close();
+
+  const taskLines = entries.filter((entry) => entry.message === "Inside scheduled task");
+  check("Request id echoed in header", echoed[0] === "req-a" && echoed[1] === "req-b", echoed);
+  check(
+    "Queued tasks keep their own request id",
+    taskLines.map((entry) => entry.requestId).sort().join(",") === "req-a,req-b",
+    taskLines,
+  );
+
+  const access = entries.filter((entry) => entry.message === "Request completed");
+  check("Access lines carry request id", access.length === 2 && access.every((entry) => entry.requestId), access);
+  check("Access line has status", access[0]?.request?.statusCode === 200, access[0]);
+
+  const jobLines = await capture(() =>
+    withLogContext({ requestId: "req-c" }, () =>
+      withLogContext({ requestId: undefined, jobId: "job-1" }, () => logInfo("Job step")),
+    ),
+  );
+  check("Nested context overrides fields", jobLines[0]?.jobId === "job-1" && jobLines[0]?.requestId === undefined, jobLines);
+}
+
+async function testFileSink(): Promise<void> {
+  console.log("\n=== Testing rotating file sink ===");
+
+  const directory = fs.mkdtempSync(path.join(os.tmpdir(), "logs-"));
+  const file = path.join(directory, "nested", "app.log");
+
+  try {
+    configureLogger({
+      level: "info",
+      detailed: false,
+      file: { enabled: true, path: file, maxBytes: 1024, maxFiles: 2 },
+    });
+
+    await capture(() => {
+      for (let index = 0; index < 40; index++) {
+        logInfo(`Line ${index}`, { padding: "x".repeat(50) });
+      }
+    });
+    closeLogger();
+
+    const files = fs.readdirSync(path.dirname(file)).sort();
+    check("Rotated files kept up to the limit", files.join(",") === "app.log,app.log.1,app.log.2", files);
+    check("Live file within size limit", fs.statSync(file).size <= 1024, fs.statSync(file).size);
+
+    const last = fs.readFileSync(file, "utf8").trim().split("\n").pop()!;
+    check("File holds JSON lines", JSON.parse(last).message === "Line 39", last);
+
+    // Rotation fails once the directory is gone
+    configureLogger({
+      level: "info",
+      detailed: false,
+      file: { enabled: true, path: file, maxBytes: 256, maxFiles: 2 },
+    });
+    fs.rmSync(path.dirname(file), { recursive: true, force: true });
+
+    let thrown: unknown = null;
+    const lines = await capture(() => {
+      try {
+        for (let index = 0; index < 5; index++) {
+          logInfo(`Line ${index}`, { padding: "x".repeat(50) });
+        }
+      } catch (error) {
+        thrown = error;
+      }
+    });
+    check("Sink failure never reaches the caller", thrown === null, String(thrown));
+    check(
+      "Sink failure reported once, console logging continues",
+      lines.filter((line) => line.message.startsWith("Log file write failed")).length === 1 &&
+        lines.filter((line) => line.message.startsWith("Line ")).length === 5,
+      lines.map((line) => line.message),
+    );
+  } finally {
+    configureLogger({ level: "info", detailed: false });
+    fs.rmSync(directory, { recursive: true, force: true });
+  }
+}
+
+(async () => {
+  await testFormat();
+  await testRequestIds();
+  await testFileSink();
+})();
@@ -0,0 +1,159 @@
+import express, { Request } from "express";
+import http from "http";
+import { AddressInfo } from "net";
+import { RateLimiter } from "../rateLimiter";
+import { errorHandler } from "../errorHandler";
+import type { RateLimitStore } from "../../utils";
+import { check } from "../../utils/tests/check";
+
+/**
+ * Test suite for the inbound rate limiter: per-client keys, route costs,
+ * headers and shared counter stores
+ */
+
+interface Reply {
+  status: number;
+  headers: http.IncomingHttpHeaders;
+  body: any;
+}
+
+function request(port: number, path: string, headers: Record<string, string> = {}): Promise<Reply> {
+  return new Promise((resolve, reject) => {
+    http
+      .get({ port, path, headers, agent: false }, (res) => {
+        let data = "";
+        res.on("data", (chunk) => (data += chunk));
+        res.on("end", () =>
+          resolve({ status: res.statusCode || 0, headers: res.headers, body: JSON.parse(data) }),
+        );
+      })
+      .on("error", reject);
+  });
+}
+
+const settings = {
+  enabled: true,
+  windowMs: 60000,
+  maxRequests: 10,
+  store: "memory" as const,
+  redisUrl: "redis://localhost:6379",
+};
+
+function createApp(limiter: RateLimiter): http.Server {
+  const app = express();
+  // Stands in for requireApiKey: keys starting with "client-" are valid
+  app.use((req, res, next) => {
+    const key = req.get("X-API-Key");
+    if (key?.startsWith("client-")) {
+      req.apiKey = { id: key, name: key, keyHash: "", scopes: ["*"] } as Request["apiKey"];
+    }
+    next();
+  });
+  app.get("/cheap", limiter.charge(1), (req, res) => res.json({ ok: true }));
+  app.get("/browser", limiter.charge(6), (req, res) => res.json({ ok: true }));
+  app.get("/oversized", limiter.charge(11), (req, res) => res.json({ ok: true }));
+  app.use(errorHandler);
+  return app.listen(0);
+}
+
+/**
+ * Counter store shared by two limiters, standing in for Redis
+ */
+class SharedStore implements RateLimitStore {
+  readonly name = "shared";
+  counters = new Map<string, number>();
+
+  async increment(key: string, cost: number, windowMs: number, limit: number) {
+    const current = this.counters.get(key) || 0;
+    const allowed = current + cost <= limit;
+    const count = allowed ? current + cost : current;
+    this.counters.set(key, count);
+    return { count, resetTime: Date.now() + windowMs, allowed };
+  }
+
+  async close(): Promise<void> {}
+}
+
+async function testBudgets(): Promise<void> {
+  console.log("=== Testing budgets and headers ===");
+
+  const server = createApp(new RateLimiter(settings, undefined));
+  const port = (server.address() as AddressInfo).port;
+
+  const first = await request(port, "/cheap");
+  check("Request allowed", first.status === 200, first);
+  check("Limit header", first.headers["ratelimit-limit"] === "10", first.headers);
+  check("Remaining header", first.headers["ratelimit-remaining"] === "9", first.headers);
+  check("Reset header in seconds", first.headers["ratelimit-reset"] === "60", first.headers);
+
+  const browser = await request(port, "/browser");
+  check("Costly route charges more", browser.headers["ratelimit-remaining"] === "3", browser.headers);
+
+  const refused = await request(port, "/browser");
+  check("Over budget refused with 429", refused.status === 429, refused);
+  check("Retry-After set", Number(refused.headers["retry-after"]) > 0, refused.headers);
+  check("Error uses standard shape", refused.body.success === false && refused.body.error.statusCode === 429, refused.body);
+
+  check("Refused request not charged", refused.headers["ratelimit-remaining"] === "3", refused.headers);
+
+  const keyed = await request(port, "/browser", { "X-API-Key": "client-a" });
+  check("Verified API key has its own budget", keyed.status === 200 && keyed.headers["ratelimit-remaining"] === "4", keyed.headers);
+
+  const unverified = await request(port, "/cheap", { "X-API-Key": "made-up" });
+  check("Unverified API key shares the IP budget", unverified.headers["ratelimit-remaining"] === "2", unverified.headers);
+
+  const oversized = await request(port, "/oversized", { "X-API-Key": "client-c" });
+  check(
+    "Cost above the whole budget is a 400",
+    oversized.status === 400 && oversized.body.error.code === "INVALID_REQUEST" && oversized.headers["retry-after"] === undefined,
+    oversized.body,
+  );
+  const after = await request(port, "/cheap", { "X-API-Key": "client-c" });
+  check("Oversized request not charged", after.headers["ratelimit-remaining"] === "9", after.headers);
+
+  server.close();
+}
+
+async function testSharedStore(): Promise<void> {
+  console.log("\n=== Testing shared store ===");
+
+  const store = new SharedStore();
+  const first = createApp(new RateLimiter(settings, store));
+  const second = createApp(new RateLimiter(settings, store));
+
+  await request((first.address() as AddressInfo).port, "/browser", { "X-API-Key": "client-b" });
+  const reply = await request((second.address() as AddressInfo).port, "/browser", { "X-API-Key": "client-b" });
+
+  check("Instances share one budget", reply.status === 429, reply);
+  check("Budget keyed on the API key id", store.counters.get("key:client-b") === 6, [...store.counters.entries()]);
+
+  first.close();
+  second.close();
+}
+
+async function testDisabledAndFailOpen(): Promise<void> {
+  console.log("\n=== Testing disabled limiter and store failures ===");
+
+  const disabled = createApp(new RateLimiter({ ...settings, enabled: false }, undefined));
+  const reply = await request((disabled.address() as AddressInfo).port, "/browser");
+  check("Disabled limiter sets no headers", reply.status === 200 && reply.headers["ratelimit-limit"] === undefined, reply.headers);
+  disabled.close();
+
+  const broken: RateLimitStore = {
+    name: "broken",
+    increment: async () => {
+      throw new Error("connection refused");
+    },
+    close: async () => undefined,
+  };
+  const failing = createApp(new RateLimiter(settings, broken));
+  const allowed = await request((failing.address() as AddressInfo).port, "/cheap");
+  check("Store failure lets requests through", allowed.status === 200, allowed);
+  failing.close();
+}
+
+(async () => {
+  await testBudgets();
+  await testSharedStore();
+  await testDisabledAndFailOpen();
+})();
@@ -0,0 +1,144 @@
+import { Router, Request, Response, NextFunction } from "express";
+import { AppError } from "../middleware/errorHandler";
+import { apiKeyAuth, requireApiKey } from "../middleware/auth";
+import { FileApiKeyStore, ApiKeyStore, ApiKeyRecord } from "../services/auth/apiKeyStore";
+import { getWebhookDispatcher } from "../services/notifications/webhookDispatcher";
+import { validateNumber } from "../utils";
+
+const router = Router();
+
+// Admin routes don't exist without authentication, since anyone could call them
+const requireAuthentication = (): void => {
+  if (!apiKeyAuth.enabled) {
+    throw new AppError("API key authentication is disabled", 404, { code: "NOT_FOUND" });
+  }
+};
+
+const keyStore = (): ApiKeyStore => {
+  requireAuthentication();
+  const store = apiKeyAuth.getStore();
+  if (!store) {
+    throw new AppError("API key authentication is disabled", 404, { code: "NOT_FOUND" });
+  }
+  return store;
+};
+
+/**
+ * Public view of a key with its usage; never includes the key hash
+ */
+async function describeKey(store: ApiKeyStore, record: ApiKeyRecord) {
+  const history = await store.getUsage(record.id);
+  const today = history.find((day) => day.date === FileApiKeyStore.today());
+
+  return {
+    id: record.id,
+    name: record.name,
+    scopes: record.scopes,
+    dailyQuota: record.dailyQuota ?? null,
+    disabled: record.disabled === true,
+    today: {
+      requests: today?.requests ?? 0,
+      rejected: today?.rejected ?? 0,
+      remaining:
+        record.dailyQuota === undefined
+          ? null
+          : Math.max(0, record.dailyQuota - (today?.requests ?? 0)),
+      byScope: today?.byScope ?? {},
+      lastUsedAt: today?.lastUsedAt ?? null,
+    },
+    history,
+  };
+}
+
+/**
+ * GET /admin/usage
+ * Usage counters for every API key
+ */
+router.get(
+  "/admin/usage",
+  requireApiKey("admin"),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const store = keyStore();
+      const keys = await store.list();
+
+      res.status(200).json({
+        success: true,
+        data: await Promise.all(keys.map((record) => describeKey(store, record))),
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      next(error);
+    }
+  },
+);
+
+/**
+ * GET /admin/usage/:keyId
+ * Usage counters for one API key
+ */
+router.get(
+  "/admin/usage/:keyId",
+  requireApiKey("admin"),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const store = keyStore();
+      const record = (await store.list()).find((key) => key.id === req.params.keyId);
+
+      if (!record) {
+        throw new AppError("API key not found", 404, { code: "NOT_FOUND" });
+      }
+
+      res.status(200).json({
+        success: true,
+        data: await describeKey(store, record),
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      next(error);
+    }
+  },
+);
+
+/**
+ * GET /admin/webhooks/deliveries?limit=<n>
+ * Recent webhook deliveries, newest first, with attempt counts and the last
+ * response or error
+ */
+router.get(
+  "/admin/webhooks/deliveries",
+  requireApiKey("admin"),
+  (req: Request, res: Response, next: NextFunction) => {
+    try {
+      requireAuthentication();
+      const dispatcher = getWebhookDispatcher();
+      if (!dispatcher) {
+        throw new AppError("Webhooks are not configured", 404, { code: "NOT_FOUND" });
+      }
+
+      let limit: number | undefined;
+      if (req.query.limit !== undefined) {
+        const limitValidation = validateNumber(req.query.limit, {
+          min: 1,
+          integer: true,
+          fieldName: "limit",
+        });
+        if (!limitValidation.isValid) {
+          throw new AppError(limitValidation.error!, 400);
+        }
+        limit = limitValidation.parsed!;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: dispatcher.listDeliveries(limit),
+        stats: dispatcher.getStats(),
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      next(error);
+    }
+  },
+);
+
+export { router as adminRouter };
@@ -0,0 +1,93 @@
+import { Router, Request, Response, NextFunction } from "express";
+import { getPriceHistory } from "../services/history/priceHistory";
+import { AppError } from "../middleware/errorHandler";
+import { rateLimit, RATE_LIMIT_COSTS } from "../middleware/rateLimiter";
+import { requireApiKey } from "../middleware/auth";
+import { validateNumber } from "../utils";
+
+const router = Router();
+
+// Snapshots returned per request; aggregates always cover the whole range
+const MAX_HISTORY_LIMIT = 1000;
+
+/**
+ * Parse a from/to query parameter given as an ISO 8601 date or epoch
+ * milliseconds
+ */
+function parseTime(value: unknown, name: string): number | undefined {
+  if (value === undefined || value === "") return undefined;
+
+  const time =
+    typeof value !== "string"
+      ? NaN
+      : /^\d+$/.test(value)
+        ? Number(value)
+        : Date.parse(value);
+
+  if (Number.isNaN(time)) {
+    throw new AppError(`${name} must be an ISO 8601 date or epoch milliseconds`, 400);
+  }
+  return time;
+}
+
+/**
+ * GET /naver/products/:productId/history?from=<date>&to=<date>&limit=<n>
+ * Price snapshots recorded for a product, oldest first, with min/max/average
+ * aggregates over the range. `limit` keeps only the most recent snapshots.
+ */
+router.get(
+  "/naver/products/:productId/history",
+  requireApiKey("scrape"),
+  rateLimit(RATE_LIMIT_COSTS.read),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const history = getPriceHistory();
+      if (!history) {
+        throw new AppError("Price history is disabled", 404, { code: "NOT_FOUND" });
+      }
+
+      const productId = req.params.productId || "";
+      if (!/^\d+$/.test(productId)) {
+        throw new AppError("productId must be a numeric Naver product id", 400);
+      }
+
+      const from = parseTime(req.query.from, "from");
+      const to = parseTime(req.query.to, "to");
+      if (from !== undefined && to !== undefined && from > to) {
+        throw new AppError("from must not be later than to", 400);
+      }
+
+      let limit = MAX_HISTORY_LIMIT;
+      if (req.query.limit !== undefined) {
+        const limitValidation = validateNumber(req.query.limit, {
+          min: 1,
+          max: MAX_HISTORY_LIMIT,
+          integer: true,
+          fieldName: "limit",
+        });
+        if (!limitValidation.isValid) {
+          throw new AppError(limitValidation.error!, 400);
+        }
+        limit = limitValidation.parsed!;
+      }
+
+      const report = await history.getHistory(productId, { from, to, limit });
+
+      res.status(200).json({
+        success: true,
+        data: {
+          ...report,
+          range: {
+            from: from !== undefined ? new Date(from).toISOString() : null,
+            to: to !== undefined ? new Date(to).toISOString() : null,
+          },
+        },
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      next(error);
+    }
+  },
+);
+
+export { router as historyRouter };
@@ -0,0 +1,163 @@
+import { Router, Request, Response, NextFunction } from "express";
+import { NaverScraper } from "../services/naver/naverScraper";
+import { JobQueue } from "../services/jobs/jobQueue";
+import { createJobStore } from "../services/jobs/jobStore";
+import { AppError } from "../middleware/errorHandler";
+import { config } from "../config";
+import { logInfo } from "../middleware/logger";
+import { rateLimit, perUrlCost, RATE_LIMIT_COSTS } from "../middleware/rateLimiter";
+import { requireApiKey } from "../middleware/auth";
+import { hasScope } from "../services/auth/apiKeyStore";
+import { parseNaverOptions, parseBatchRequest, parseProductUrl } from "./naverOptions";
+
+const router = Router();
+
+// Shared queue; jobs run in the background of this process
+export const jobQueue = new JobQueue(new NaverScraper(), createJobStore(), {
+  concurrency: config.jobs.concurrency,
+});
+
+// Queued work is charged like the equivalent synchronous request
+const jobCost = (req: Request): number => {
+  if (req.body?.type === "scrape") {
+    return req.body.useBrowser === true
+      ? RATE_LIMIT_COSTS.browser
+      : RATE_LIMIT_COSTS.scrape;
+  }
+  return perUrlCost(RATE_LIMIT_COSTS.scrape)(req);
+};
+
+/**
+ * POST /jobs
+ * Body: { type: "scrape", productUrl, useBrowser?, options? }
+ *    or { type: "batch", productUrls, options?, delayBetweenRequests? }
+ * Queues a scrape and returns its job id immediately
+ */
+router.post(
+  "/jobs",
+  requireApiKey("jobs"),
+  rateLimit(jobCost),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { type = "batch" } = req.body || {};
+
+      let job;
+      if (type === "scrape") {
+        const { useBrowser, options } = req.body;
+        const productUrl = parseProductUrl(req.body.productUrl);
+
+        // Queueing a browser scrape shouldn't bypass the browser scope
+        if (useBrowser === true && req.apiKey && !hasScope(req.apiKey, "browser")) {
+          throw new AppError("API key is not allowed to access browser endpoints", 403, {
+            code: "SCOPE_NOT_ALLOWED",
+          });
+        }
+
+        job = await jobQueue.enqueue("scrape", {
+          productUrl,
+          useBrowser: useBrowser === true,
+          options: parseNaverOptions(options),
+        });
+      } else if (type === "batch") {
+        job = await jobQueue.enqueue("batch", parseBatchRequest(req.body));
+      } else {
+        throw new AppError('type must be either "scrape" or "batch"', 400);
+      }
+
+      logInfo(`Accepted ${type} job ${job.id}`);
+
+      res.status(202).json({
+        success: true,
+        data: {
+          id: job.id,
+          type: job.type,
+          state: job.state,
+          statusUrl: `/jobs/${job.id}`,
+        },
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      next(error);
+    }
+  },
+);
+
+/**
+ * GET /jobs
+ * Lists jobs with their state and progress, without results
+ */
+router.get(
+  "/jobs",
+  requireApiKey("jobs"),
+  rateLimit(RATE_LIMIT_COSTS.read),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const jobs = await jobQueue.list();
+
+      res.status(200).json({
+        success: true,
+        data: jobs.map(({ payload, result, ...summary }) => summary),
+        queue: jobQueue.getStats(),
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      next(error);
+    }
+  },
+);
+
+/**
+ * GET /jobs/:id
+ * Returns job state, progress counts and results collected so far
+ */
+router.get(
+  "/jobs/:id",
+  requireApiKey("jobs"),
+  rateLimit(RATE_LIMIT_COSTS.read),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const job = await jobQueue.get(req.params.id!);
+
+      if (!job) {
+        throw new AppError("Job not found", 404, { code: "NOT_FOUND" });
+      }
+
+      res.status(200).json({
+        success: true,
+        data: job,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      next(error);
+    }
+  },
+);
+
+/**
+ * DELETE /jobs/:id
+ * Cancels a queued or running job
+ */
+router.delete(
+  "/jobs/:id",
+  requireApiKey("jobs"),
+  rateLimit(RATE_LIMIT_COSTS.read),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const job = await jobQueue.cancel(req.params.id!);
+
+      res.status(200).json({
+        success: true,
+        data: {
+          id: job.id,
+          state: job.state,
+          progress: job.progress,
+        },
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      next(error);
+    }
+  },
+);
+
+export { router as jobsRouter };
@@ -0,0 +1,54 @@
+import { Router, Request, Response } from "express";
+import { metrics, PROMETHEUS_CONTENT_TYPE } from "../services/metrics/metrics";
+import { getBrowserPool } from "../services/naver/components/browserPool";
+import { getSharedScheduler } from "../services/naver/components/scheduler";
+
+const router = Router();
+
+// Point-in-time gauges, read from their sources on every scrape
+metrics
+  .gauge("naver_browser_pool_pages", "Browser pool page slots by state", ["state"])
+  .collect((gauge) => {
+    const stats = getBrowserPool().getStats();
+    gauge.set({ state: "busy" }, stats.busy);
+    gauge.set({ state: "idle" }, Math.max(0, stats.slots - stats.busy));
+  });
+
+metrics
+  .gauge("naver_browser_pool_utilization", "Share of browser pool slots in use (0-1)")
+  .collect((gauge) => {
+    const stats = getBrowserPool().getStats();
+    gauge.set({}, stats.slots > 0 ? stats.busy / stats.slots : 0);
+  });
+
+metrics
+  .gauge("naver_browser_pool_waiting", "Callers waiting for a browser page")
+  .collect((gauge) => gauge.set({}, getBrowserPool().getStats().waiting));
+
+metrics
+  .gauge("naver_scheduler_requests", "Outbound requests in the scheduler by state", ["state"])
+  .collect((gauge) => {
+    const stats = getSharedScheduler().getStats();
+    gauge.set({ state: "active" }, stats.active);
+    gauge.set({ state: "queued" }, stats.queued);
+  });
+
+metrics
+  .gauge("process_resident_memory_bytes", "Resident memory size in bytes")
+  .collect((gauge) => gauge.set({}, process.memoryUsage().rss));
+
+metrics
+  .gauge("process_uptime_seconds", "Seconds since the process started")
+  .collect((gauge) => gauge.set({}, Math.round(process.uptime())));
+
+/**
+ * GET /metrics
+ * Scrape, fetch, parser, cache and browser pool metrics in the Prometheus
+ * text format
+ */
+router.get("/metrics", (req: Request, res: Response) => {
+  res.set("Content-Type", PROMETHEUS_CONTENT_TYPE);
+  res.status(200).send(metrics.render());
+});
+
+export { router as metricsRouter };
@@ -0,0 +1,117 @@
+import { NaverOptions, BatchOptions, NaverScraper } from "../services/naver/naverScraper";
+import { SUPPORTED_URL_FORMATS } from "../services/naver/components/urlResolver";
+import { AppError } from "../middleware/errorHandler";
+import { validateNumber } from "../utils";
+import { config } from "../config";
+
+// Upper bound on URLs accepted by a single batch request
+export const MAX_BATCH_SIZE = config.batch.maxSize;
+
+// Default options shared by the scrape endpoints
+export const defaultNaverOptions: NaverOptions = {
+  fetchOptions: {
+    timeout: config.fetcher.timeout,
+    retries: config.fetcher.retries,
+    retryDelay: config.fetcher.retryDelay,
+  },
+  parseOptions: {
+    maxImages: 8,
+    maxDescriptionLength: 400,
+    extractSpecs: true,
+  },
+  establishSession: false, // Set to true if needed for better success rate
+};
+
+/**
+ * Validate a productUrl parameter: a string in one of the supported URL
+ * forms. Short links are only resolved later, by the scraper.
+ */
+export function parseProductUrl(productUrl: unknown): string {
+  if (!productUrl || typeof productUrl !== "string") {
+    throw new AppError("Missing or invalid productUrl parameter", 400);
+  }
+
+  if (!NaverScraper.isValidNaverProductUrl(productUrl)) {
+    throw new AppError(
+      `Unsupported Naver product URL. Supported formats: ${SUPPORTED_URL_FORMATS.join(", ")}`,
+      400,
+      { code: "INVALID_URL" },
+    );
+  }
+
+  return productUrl.trim();
+}
+
+/**
+ * Merge client-supplied options over the defaults
+ */
+export function parseNaverOptions(options: unknown = {}): NaverOptions {
+  if (typeof options !== "object" || options === null || Array.isArray(options)) {
+    throw new AppError("options must be an object", 400);
+  }
+
+  const { fetchOptions, parseOptions, establishSession } = options as NaverOptions;
+
+  return {
+    fetchOptions: {
+      ...defaultNaverOptions.fetchOptions,
+      ...fetchOptions,
+    },
+    parseOptions: {
+      ...defaultNaverOptions.parseOptions,
+      ...parseOptions,
+    },
+    establishSession: establishSession ?? defaultNaverOptions.establishSession,
+  };
+}
+
+/**
+ * Validate a batch request body: { productUrls, options?, delayBetweenRequests? }
+ */
+export function parseBatchRequest(body: unknown): {
+  productUrls: string[];
+  options: BatchOptions;
+} {
+  const fields: Record<string, unknown> =
+    typeof body === "object" && body !== null && !Array.isArray(body)
+      ? (body as Record<string, unknown>)
+      : {};
+  const { productUrls, options, delayBetweenRequests } = fields;
+
+  if (!Array.isArray(productUrls) || productUrls.length === 0) {
+    throw new AppError("productUrls must be a non-empty array", 400);
+  }
+
+  if (productUrls.length > MAX_BATCH_SIZE) {
+    throw new AppError(
+      `Too many product URLs. Maximum batch size is ${MAX_BATCH_SIZE}`,
+      400,
+    );
+  }
+
+  if (!productUrls.every((url: unknown): url is string => typeof url === "string" && url !== "")) {
+    throw new AppError("Every entry in productUrls must be a URL string", 400);
+  }
+
+  let delay: number | undefined;
+  if (delayBetweenRequests !== undefined) {
+    const delayValidation = validateNumber(delayBetweenRequests, {
+      min: 0,
+      max: 60000,
+      integer: true,
+      fieldName: "delayBetweenRequests",
+    });
+    if (!delayValidation.isValid) {
+      throw new AppError(delayValidation.error!, 400);
+    }
+    delay = delayValidation.parsed;
+  }
+
+  return {
+    productUrls,
+    options: {
+      ...parseNaverOptions(options),
+      delayBetweenRequests: delay,
+    },
+  };
+}
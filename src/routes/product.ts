@@ -1,12 +1,18 @@
 import { Router, Request, Response, NextFunction } from "express";
-import { NaverScraper, NaverOptions } from "../services/naver/naverScraper";
+import { NaverScraper } from "../services/naver/naverScraper";
+import { createProductCache } from "../services/cache/productCache";
 import { AppError } from "../middleware/errorHandler";
 import { logInfo, logError } from "../middleware/logger";
+import { rateLimit, perUrlCost, RATE_LIMIT_COSTS } from "../middleware/rateLimiter";
+import { requireApiKey } from "../middleware/auth";
+import { SUPPORTED_URL_FORMATS } from "../services/naver/components/urlResolver";
+import { defaultNaverOptions, parseBatchRequest, parseProductUrl } from "./naverOptions";
 
 const router = Router();
 
 // Create a shared scraper instance for better performance
 const scraper = new NaverScraper();
+export const productCache = createProductCache(scraper);
 
 /**
  * GET /test-browser?productUrl=<productUrl>
@@ -14,21 +20,24 @@ const scraper = new NaverScraper();
  */
 router.get(
   "/test-browser",
+  requireApiKey("browser"),
+  rateLimit(RATE_LIMIT_COSTS.browser),
   async (req: Request, res: Response, next: NextFunction) => {
     try {
-      const { productUrl } = req.query;
-
-      if (!productUrl || typeof productUrl !== "string") {
-        throw new AppError("Missing or invalid productUrl parameter", 400);
-      }
+      const productUrl = parseProductUrl(req.query.productUrl);
+      const { canonicalUrl } = await scraper.resolveUrl(productUrl);
 
-      await scraper.scrapeUsingBrowser(productUrl);
+      const productData = await scraper.scrapeUsingBrowser(
+        canonicalUrl,
+        defaultNaverOptions,
+      );
 
       res.status(200).json({
         success: true,
-        data: {},
+        data: productData,
         timestamp: new Date().toISOString(),
         requestUrl: productUrl,
+        resolvedUrl: canonicalUrl,
       });
     } catch (error) {
       next(error);
@@ -37,47 +46,36 @@ router.get(
 );
 
 /**
- * GET /naver?productUrl=<productUrl>
- * Fetches product data from Naver Smartstore
+ * GET /naver?productUrl=<productUrl>&fresh=true
+ * Fetches product data from Naver Smartstore, served from cache when enabled.
+ * `fresh=true` skips the cached copy and refreshes it.
  */
 router.get(
   "/naver",
+  requireApiKey("scrape"),
+  rateLimit(RATE_LIMIT_COSTS.scrape),
   async (req: Request, res: Response, next: NextFunction) => {
     try {
-      const { productUrl } = req.query;
-
-      // Validate productUrl parameter
-      if (!productUrl || typeof productUrl !== "string") {
-        throw new AppError("Missing or invalid productUrl parameter", 400);
-      }
-
-      // Validate URL format
-      if (!NaverScraper.isValidNaverProductUrl(productUrl)) {
-        throw new AppError(
-          "Invalid Naver Smartstore product URL format. Expected: https://smartstore.naver.com/<brandUsername>/products/<productId>",
-          400,
-        );
-      }
+      const { fresh } = req.query;
+      const productUrl = parseProductUrl(req.query.productUrl);
 
       logInfo(`Processing request for product URL: ${productUrl}`);
 
-      // Configure naver options
-      const naverOptions: NaverOptions = {
-        fetchOptions: {
-          timeout: 15000,
-          retries: 2,
-          retryDelay: 2000,
-        },
-        parseOptions: {
-          maxImages: 8,
-          maxDescriptionLength: 400,
-          extractSpecs: true,
-        },
-        establishSession: false, // Set to true if needed for better success rate
-      };
+      // Every URL form shares the cache entry of its canonical store page
+      const { canonicalUrl } = await scraper.resolveUrl(productUrl);
 
-      // Scrape product data
-      const productData = await scraper.scrapeProduct(productUrl, naverOptions);
+      // Scrape product data (or reuse a cached copy)
+      const { data: productData, cache } = await productCache.scrapeProduct(
+        canonicalUrl,
+        defaultNaverOptions,
+        fresh === "true",
+      );
+
+      res.set("X-Cache", cache.status);
+      res.set(
+        "Cache-Control",
+        cache.maxAge > 0 ? `public, max-age=${cache.maxAge}` : "no-store",
+      );
 
       // Return success response
       res.status(200).json({
@@ -85,6 +83,44 @@ router.get(
         data: productData,
         timestamp: new Date().toISOString(),
         requestUrl: productUrl,
+        resolvedUrl: canonicalUrl,
+      });
+    } catch (error) {
+      next(error);
+    }
+  },
+);
+
+/**
+ * POST /naver/batch
+ * Body: { productUrls: string[], options?: NaverOptions, delayBetweenRequests?: number }
+ * Scrapes several products in parallel within the request scheduler's limits,
+ * reporting success/failure per URL
+ */
+router.post(
+  "/naver/batch",
+  requireApiKey("scrape"),
+  rateLimit(perUrlCost(RATE_LIMIT_COSTS.scrape)),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { productUrls, options } = parseBatchRequest(req.body);
+
+      logInfo(`Processing batch request for ${productUrls.length} products`);
+
+      const result = await scraper.scrapeMultipleProducts(
+        productUrls,
+        options,
+      );
+
+      res.status(200).json({
+        success: true,
+        data: result,
+        summary: {
+          requested: productUrls.length,
+          succeeded: result.success.length,
+          failed: result.failed.length,
+        },
+        timestamp: new Date().toISOString(),
       });
     } catch (error) {
       next(error);
@@ -94,11 +130,14 @@ router.get(
 
 /**
  * GET /naver/validate?productUrl=<productUrl>
- * Validates if a URL is a valid Naver Smartstore product URL
+ * Validates if a URL is a supported Naver product URL and returns its
+ * canonical form. Short links are followed to find their product.
  */
 router.get(
   "/naver/validate",
-  (req: Request, res: Response, next: NextFunction) => {
+  requireApiKey("validate"),
+  rateLimit(RATE_LIMIT_COSTS.validate),
+  async (req: Request, res: Response, next: NextFunction) => {
     try {
       const { productUrl } = req.query;
 
@@ -106,36 +145,31 @@ router.get(
         throw new AppError("Missing or invalid productUrl parameter", 400);
       }
 
-      const isValid = NaverScraper.isValidNaverProductUrl(productUrl);
-
-      let parsedData = null;
-      if (isValid) {
-        try {
-          parsedData = NaverScraper.parseNaverUrl(productUrl);
-        } catch (error) {
-          // If parsing fails, URL is not valid
-          res.status(200).json({
-            success: true,
-            data: {
-              isValid: false,
-              url: productUrl,
-              reason: "Failed to parse brand username or product ID from URL",
-            },
-            timestamp: new Date().toISOString(),
-          });
-          return;
-        }
+      let resolved;
+      try {
+        resolved = await scraper.resolveUrl(productUrl);
+      } catch (error) {
+        // Upstream failures are errors; an unsupported URL is just invalid
+        if (!(error instanceof AppError) || error.code !== "INVALID_URL") throw error;
+
+        res.status(200).json({
+          success: true,
+          data: {
+            isValid: false,
+            url: productUrl,
+            reason: error.message,
+          },
+          timestamp: new Date().toISOString(),
+        });
+        return;
       }
 
       res.status(200).json({
         success: true,
         data: {
-          isValid,
+          isValid: true,
           url: productUrl,
-          ...(parsedData && {
-            brandUsername: parsedData.brandUsername,
-            productId: parsedData.productId,
-          }),
+          ...resolved,
         },
         timestamp: new Date().toISOString(),
       });
@@ -169,14 +203,24 @@ router.get(
         scraper: {
           userAgent: scraperInfo.userAgent.substring(0, 50) + "...",
           isReady: scraperInfo.isReady,
+          scheduler: scraperInfo.scheduler,
+          browserPool: scraperInfo.browserPool,
         },
+        cache: productCache.getStats(),
         endpoints: {
-          scrape: "GET /naver?productUrl=<url>",
+          scrape: "GET /naver?productUrl=<url>&fresh=<true|false>",
+          batch: "POST /naver/batch",
+          history: "GET /naver/products/:productId/history?from=<date>&to=<date>",
+          store: "GET /naver/stores/:brandUsername",
+          storeProducts: "GET /naver/stores/:brandUsername/products?page=<n>&pageSize=<n>&categoryId=<id>&sort=<sort>",
+          jobs: "POST /jobs, GET /jobs/:id, DELETE /jobs/:id",
+          watchlist: "POST /watchlist, GET /watchlist, DELETE /watchlist/:id",
+          usage: "GET /admin/usage",
+          webhooks: "GET /admin/webhooks/deliveries",
           validate: "GET /naver/validate?productUrl=<url>",
           health: "GET /naver/health",
         },
-        supportedUrlFormat:
-          "https://smartstore.naver.com/<brandUsername>/products/<productId>",
+        supportedUrlFormats: SUPPORTED_URL_FORMATS,
       });
     } catch (error) {
       next(error);
@@ -0,0 +1,127 @@
+import { Router, Request, Response, NextFunction } from "express";
+import { NaverScraper } from "../services/naver/naverScraper";
+import { AppError } from "../middleware/errorHandler";
+import { rateLimit, RATE_LIMIT_COSTS } from "../middleware/rateLimiter";
+import { requireApiKey } from "../middleware/auth";
+import { validateNumber } from "../utils";
+import { StoreType } from "../services/naver/components/urlResolver";
+import {
+  StoreCatalog,
+  StoreSort,
+  STORE_SORTS,
+  ALL_CATEGORIES,
+} from "../services/naver/components/storeCatalog";
+import { defaultNaverOptions } from "./naverOptions";
+
+const router = Router();
+
+const scraper = new NaverScraper();
+
+const STORE_TYPES: StoreType[] = ["smartstore", "brand"];
+const DEFAULT_PAGE_SIZE = 40;
+// Naver category ids are short alphanumeric strings
+const CATEGORY_ID_PATTERN = /^[A-Za-z0-9_]{1,64}$/;
+
+/**
+ * Parse a query parameter that must be one of a fixed set of values
+ */
+function parseChoice<T extends string>(
+  value: unknown,
+  name: string,
+  allowed: readonly T[],
+  fallback: T,
+): T {
+  if (value === undefined || value === "") return fallback;
+  if (typeof value !== "string" || !(allowed as readonly string[]).includes(value)) {
+    throw new AppError(`${name} must be one of ${allowed.join(", ")}`, 400);
+  }
+  return value as T;
+}
+
+/**
+ * Parse a positive integer query parameter
+ */
+function parsePositiveInt(value: unknown, name: string, max: number, fallback: number): number {
+  if (value === undefined) return fallback;
+
+  const validation = validateNumber(value, { min: 1, max, integer: true, fieldName: name });
+  if (!validation.isValid) {
+    throw new AppError(validation.error!, 400);
+  }
+  return validation.parsed!;
+}
+
+/**
+ * GET /naver/stores/:brandUsername/products?page=<n>&pageSize=<n>&categoryId=<id>&sort=<sort>&storeType=<smartstore|brand>
+ * One page of a store's product listing: ids, titles, prices and
+ * thumbnails. Follow `hasMore` (or `totalPages`) to walk the whole catalog.
+ */
+router.get(
+  "/naver/stores/:brandUsername/products",
+  requireApiKey("scrape"),
+  rateLimit(RATE_LIMIT_COSTS.scrape),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const brandUsername = req.params.brandUsername || "";
+      const storeType = parseChoice(req.query.storeType, "storeType", STORE_TYPES, "smartstore");
+      const sort = parseChoice<StoreSort>(req.query.sort, "sort", STORE_SORTS, "popular");
+      const page = parsePositiveInt(req.query.page, "page", 1000, 1);
+      const pageSize = parsePositiveInt(
+        req.query.pageSize,
+        "pageSize",
+        StoreCatalog.MAX_PAGE_SIZE,
+        DEFAULT_PAGE_SIZE,
+      );
+
+      const categoryId = req.query.categoryId ?? ALL_CATEGORIES;
+      if (typeof categoryId !== "string" || !CATEGORY_ID_PATTERN.test(categoryId)) {
+        throw new AppError("categoryId must be a Naver category id", 400);
+      }
+
+      const result = await scraper.listStoreProducts(
+        storeType,
+        brandUsername,
+        { page, pageSize, categoryId, sort },
+        defaultNaverOptions,
+      );
+
+      res.status(200).json({
+        success: true,
+        data: result,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      next(error);
+    }
+  },
+);
+
+/**
+ * GET /naver/stores/:brandUsername?storeType=<smartstore|brand>
+ * Store profile: name, seller grade, business and contact details,
+ * customer-service rating, shipping defaults and follower count. Fields the
+ * store page doesn't show are omitted.
+ */
+router.get(
+  "/naver/stores/:brandUsername",
+  requireApiKey("scrape"),
+  rateLimit(RATE_LIMIT_COSTS.scrape),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const brandUsername = req.params.brandUsername || "";
+      const storeType = parseChoice(req.query.storeType, "storeType", STORE_TYPES, "smartstore");
+
+      const profile = await scraper.getStoreProfile(storeType, brandUsername, defaultNaverOptions);
+
+      res.status(200).json({
+        success: true,
+        data: profile,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      next(error);
+    }
+  },
+);
+
+export { router as storesRouter };
@@ -0,0 +1,134 @@
+import express from "express";
+import http from "http";
+import { AddressInfo } from "net";
+import { productRouter } from "../product";
+import { MAX_BATCH_SIZE, parseBatchRequest } from "../naverOptions";
+import { RATE_LIMIT_COSTS } from "../../middleware/rateLimiter";
+import { AppError, errorHandler } from "../../middleware/errorHandler";
+import { check } from "../../utils/tests/check";
+
+/**
+ * Test suite for POST /naver/batch: body validation and per-URL rate limit
+ * charging. Only unsupported URLs are sent, so nothing reaches Naver.
+ */
+
+interface Reply {
+  status: number;
+  headers: http.IncomingHttpHeaders;
+  body: any;
+}
+
+function post(port: number, path: string, body: unknown): Promise<Reply> {
+  return new Promise((resolve, reject) => {
+    const payload = JSON.stringify(body);
+    const req = http.request(
+      {
+        port,
+        path,
+        method: "POST",
+        agent: false,
+        headers: { "Content-Type": "application/json", "Content-Length": Buffer.byteLength(payload) },
+      },
+      (res) => {
+        let data = "";
+        res.on("data", (chunk) => (data += chunk));
+        res.on("end", () =>
+          resolve({ status: res.statusCode || 0, headers: res.headers, body: JSON.parse(data) }),
+        );
+      },
+    );
+    req.on("error", reject);
+    req.end(payload);
+  });
+}
+
+const rejection = (body: unknown): string | null => {
+  try {
+    parseBatchRequest(body);
+    return null;
+  } catch (error) {
+    return error instanceof AppError && error.statusCode === 400 ? error.message : "not a 400";
+  }
+};
+
+const unsupported = (count: number) =>
+  Array.from({ length: count }, (_, index) => `https://example.com/products/${index}`);
+
+function testValidation(): void {
+  console.log("=== Testing batch validation ===");
+
+  const cases: [string, unknown][] = [
+    ["Missing body", undefined],
+    ["Body not an object", ["https://smartstore.naver.com/store/products/1"]],
+    ["Missing productUrls", {}],
+    ["Empty productUrls", { productUrls: [] }],
+    ["productUrls not an array", { productUrls: "https://smartstore.naver.com/store/products/1" }],
+    ["Oversized productUrls", { productUrls: unsupported(MAX_BATCH_SIZE + 1) }],
+    ["Non-string entry", { productUrls: ["https://smartstore.naver.com/store/products/1", 2] }],
+    ["Empty string entry", { productUrls: [""] }],
+    ["Negative delay", { productUrls: unsupported(1), delayBetweenRequests: -1 }],
+    ["Delay above a minute", { productUrls: unsupported(1), delayBetweenRequests: 60001 }],
+    ["Fractional delay", { productUrls: unsupported(1), delayBetweenRequests: 1.5 }],
+    ["Non-numeric delay", { productUrls: unsupported(1), delayBetweenRequests: "soon" }],
+    ["Options not an object", { productUrls: unsupported(1), options: "fast" }],
+  ];
+
+  for (const [label, body] of cases) {
+    const message = rejection(body);
+    check(`${label} rejected with 400`, message !== null && message !== "not a 400", message);
+  }
+
+  const full = parseBatchRequest({ productUrls: unsupported(MAX_BATCH_SIZE) });
+  check("Full batch accepted", full.productUrls.length === MAX_BATCH_SIZE);
+
+  const { options } = parseBatchRequest({
+    productUrls: unsupported(1),
+    delayBetweenRequests: 60000,
+    options: { parseOptions: { maxImages: 2 } },
+  });
+  check("Delay bound inclusive", options.delayBetweenRequests === 60000, options.delayBetweenRequests);
+  check(
+    "Options merged over defaults",
+    options.parseOptions?.maxImages === 2 && options.parseOptions.extractSpecs === true,
+    options.parseOptions,
+  );
+}
+
+async function testRoute(): Promise<void> {
+  console.log("\n=== Testing POST /naver/batch ===");
+
+  const app = express();
+  app.use(express.json());
+  app.use("/", productRouter);
+  app.use(errorHandler);
+  const server = app.listen(0);
+  const port = (server.address() as AddressInfo).port;
+
+  const three = await post(port, "/naver/batch", { productUrls: unsupported(3) });
+  check(
+    "Failures reported per URL",
+    three.status === 200 &&
+      three.body.summary.requested === 3 &&
+      three.body.summary.failed === 3 &&
+      three.body.data.failed.every((failure: any) => failure.code === "INVALID_URL"),
+    three.body,
+  );
+
+  const one = await post(port, "/naver/batch", { productUrls: unsupported(1) });
+  const charged = Number(three.headers["ratelimit-remaining"]) - Number(one.headers["ratelimit-remaining"]);
+  check("Charged per URL", charged === RATE_LIMIT_COSTS.scrape, { three: three.headers, one: one.headers });
+
+  const invalid = await post(port, "/naver/batch", { productUrls: [] });
+  check(
+    "Invalid body uses the standard error shape",
+    invalid.status === 400 && invalid.body.error.code === "INVALID_REQUEST",
+    invalid.body,
+  );
+
+  server.close();
+}
+
+(async () => {
+  testValidation();
+  await testRoute();
+})();
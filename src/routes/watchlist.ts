@@ -0,0 +1,186 @@
+import { Router, Request, Response, NextFunction } from "express";
+import { NaverScraper } from "../services/naver/naverScraper";
+import { Watchlist } from "../services/watchlist/watchlist";
+import { createWatchlistStore } from "../services/watchlist/watchlistStore";
+import { getWebhookDispatcher } from "../services/notifications/webhookDispatcher";
+import { AppError } from "../middleware/errorHandler";
+import { config } from "../config";
+import { rateLimit, perUrlCost, RATE_LIMIT_COSTS } from "../middleware/rateLimiter";
+import { requireApiKey } from "../middleware/auth";
+import { hasScope } from "../services/auth/apiKeyStore";
+import { validateNumber } from "../utils";
+import { MAX_BATCH_SIZE, parseNaverOptions } from "./naverOptions";
+
+const router = Router();
+
+// Longest interval a product can be watched at
+const MAX_INTERVAL_SECONDS = 7 * 86400;
+
+// Shared watchlist; started by the server once it is listening
+export const watchlist: Watchlist | null = config.watchlist.enabled
+  ? new Watchlist(
+      new NaverScraper(),
+      createWatchlistStore(),
+      {
+        concurrency: config.watchlist.concurrency,
+        minIntervalSeconds: config.watchlist.minIntervalSeconds,
+        maxItems: config.watchlist.maxItems,
+      },
+      getWebhookDispatcher(),
+    )
+  : null;
+
+const requireWatchlist = (): Watchlist => {
+  if (!watchlist) {
+    throw new AppError("Watchlist is disabled", 404, { code: "NOT_FOUND" });
+  }
+  return watchlist;
+};
+
+/**
+ * POST /watchlist
+ * Body: { productUrls: string[], intervalSeconds: number, options?: NaverOptions }
+ * Watches products, re-scraping each in a browser every `intervalSeconds` so
+ * coupon and best-price changes are seen too, so it needs the browser scope
+ * and is charged like a browser scrape per URL. The first run starts
+ * straight away. URLs that can't be resolved are reported per URL.
+ */
+router.post(
+  "/watchlist",
+  requireApiKey("jobs"),
+  rateLimit(perUrlCost(RATE_LIMIT_COSTS.browser)),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const list = requireWatchlist();
+
+      // Watching queues browser scrapes, which shouldn't bypass the browser scope
+      if (req.apiKey && !hasScope(req.apiKey, "browser")) {
+        throw new AppError("API key is not allowed to access browser endpoints", 403, {
+          code: "SCOPE_NOT_ALLOWED",
+        });
+      }
+      const { productUrls, intervalSeconds, options } = req.body || {};
+
+      if (!Array.isArray(productUrls) || productUrls.length === 0) {
+        throw new AppError("productUrls must be a non-empty array", 400);
+      }
+
+      if (productUrls.length > MAX_BATCH_SIZE) {
+        throw new AppError(
+          `Too many product URLs. At most ${MAX_BATCH_SIZE} can be added at once`,
+          400,
+        );
+      }
+
+      if (productUrls.some((url: unknown) => typeof url !== "string" || !url)) {
+        throw new AppError("Every entry in productUrls must be a URL string", 400);
+      }
+
+      const intervalValidation = validateNumber(intervalSeconds, {
+        min: 1,
+        max: MAX_INTERVAL_SECONDS,
+        integer: true,
+        fieldName: "intervalSeconds",
+      });
+      if (!intervalValidation.isValid) {
+        throw new AppError(intervalValidation.error!, 400);
+      }
+
+      const result = await list.add(
+        productUrls,
+        intervalValidation.parsed!,
+        parseNaverOptions(options),
+      );
+
+      res.status(result.added.length > 0 ? 201 : 200).json({
+        success: true,
+        data: result,
+        summary: {
+          requested: productUrls.length,
+          added: result.added.length,
+          failed: result.failed.length,
+        },
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      next(error);
+    }
+  },
+);
+
+/**
+ * GET /watchlist
+ * Watched products with their last run, last status, last detected change
+ * and next run
+ */
+router.get(
+  "/watchlist",
+  requireApiKey("jobs"),
+  rateLimit(RATE_LIMIT_COSTS.read),
+  (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const list = requireWatchlist();
+
+      res.status(200).json({
+        success: true,
+        data: list.list(),
+        stats: list.getStats(),
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      next(error);
+    }
+  },
+);
+
+/**
+ * GET /watchlist/:id
+ * One watched product, by product id
+ */
+router.get(
+  "/watchlist/:id",
+  requireApiKey("jobs"),
+  rateLimit(RATE_LIMIT_COSTS.read),
+  (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const item = requireWatchlist().get(req.params.id!);
+
+      if (!item) {
+        throw new AppError("Watched product not found", 404, { code: "NOT_FOUND" });
+      }
+
+      res.status(200).json({
+        success: true,
+        data: item,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      next(error);
+    }
+  },
+);
+
+/**
+ * DELETE /watchlist/:id
+ * Stops watching a product
+ */
+router.delete(
+  "/watchlist/:id",
+  requireApiKey("jobs"),
+  rateLimit(RATE_LIMIT_COSTS.read),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      await requireWatchlist().remove(req.params.id!);
+
+      res.status(200).json({
+        success: true,
+        data: { id: req.params.id, removed: true },
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      next(error);
+    }
+  },
+);
+
+export { router as watchlistRouter };
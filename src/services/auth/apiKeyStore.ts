@@ -0,0 +1,258 @@
+import { promises as fs } from "fs";
+import path from "path";
+import crypto from "crypto";
+import { logInfo, logWarning, logError } from "../../middleware/logger";
+import { config, AuthConfig } from "../../config";
+
+/**
+ * Groups of routes a key can be allowed to call. "*" grants all of them.
+ */
+export const API_SCOPES = ["scrape", "browser", "validate", "jobs", "admin"] as const;
+
+export type ApiScope = (typeof API_SCOPES)[number];
+
+export interface ApiKeyRecord {
+  id: string;
+  name: string;
+  // SHA-256 hex digest of the key; plain keys are never stored
+  keyHash: string;
+  scopes: (ApiScope | "*")[];
+  // Requests allowed per UTC day; unlimited when absent
+  dailyQuota?: number;
+  disabled?: boolean;
+}
+
+export const hasScope = (record: ApiKeyRecord, scope: ApiScope): boolean =>
+  record.scopes.includes("*") || record.scopes.includes(scope);
+
+export interface DailyUsage {
+  date: string;
+  requests: number;
+  rejected: number;
+  byScope: Partial<Record<ApiScope, number>>;
+  lastUsedAt?: string;
+}
+
+export interface UsageDecision {
+  allowed: boolean;
+  usage: DailyUsage;
+}
+
+/**
+ * Source of API keys plus their per-day usage counters
+ */
+export interface ApiKeyStore {
+  findByKey(key: string): Promise<ApiKeyRecord | null>;
+  list(): Promise<ApiKeyRecord[]>;
+  /**
+   * Count a request against today's quota. Requests over the quota are
+   * counted as rejected and not allowed.
+   */
+  recordUsage(record: ApiKeyRecord, scope: ApiScope): Promise<UsageDecision>;
+  /**
+   * Usage per day for one key, newest first
+   */
+  getUsage(id: string): Promise<DailyUsage[]>;
+  close(): Promise<void>;
+}
+
+/**
+ * Keys loaded from a JSON file (an array of ApiKeyRecord), with usage
+ * counters persisted to a second file so quotas survive restarts
+ */
+export class FileApiKeyStore implements ApiKeyStore {
+  private static readonly USAGE_FLUSH_DELAY = 1000; // 1 second
+  private static readonly USAGE_HISTORY_DAYS = 30;
+
+  private keysPath: string;
+  private usagePath: string;
+  private ready: Promise<void>;
+  private keys: Map<string, ApiKeyRecord> = new Map(); // by keyHash
+  // id -> date -> usage
+  private usage: Map<string, Map<string, DailyUsage>> = new Map();
+  private flushTimer: NodeJS.Timeout | null = null;
+  private dirty = false;
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(keysPath: string, usagePath: string) {
+    this.keysPath = keysPath;
+    this.usagePath = usagePath;
+    this.ready = this.load();
+  }
+
+  static hashKey(key: string): string {
+    return crypto.createHash("sha256").update(key).digest("hex");
+  }
+
+  static today(now: Date = new Date()): string {
+    return now.toISOString().substring(0, 10);
+  }
+
+  async findByKey(key: string): Promise<ApiKeyRecord | null> {
+    await this.ready;
+    return this.keys.get(FileApiKeyStore.hashKey(key)) || null;
+  }
+
+  async list(): Promise<ApiKeyRecord[]> {
+    await this.ready;
+    return [...this.keys.values()];
+  }
+
+  async recordUsage(record: ApiKeyRecord, scope: ApiScope): Promise<UsageDecision> {
+    await this.ready;
+    const now = new Date();
+    const date = FileApiKeyStore.today(now);
+
+    let days = this.usage.get(record.id);
+    if (!days) {
+      days = new Map();
+      this.usage.set(record.id, days);
+    }
+
+    let usage = days.get(date);
+    if (!usage) {
+      usage = { date, requests: 0, rejected: 0, byScope: {} };
+      days.set(date, usage);
+      this.prune(days);
+    }
+
+    const allowed = record.dailyQuota === undefined || usage.requests < record.dailyQuota;
+    if (allowed) {
+      usage.requests++;
+      usage.byScope[scope] = (usage.byScope[scope] || 0) + 1;
+    } else {
+      usage.rejected++;
+    }
+    usage.lastUsedAt = now.toISOString();
+
+    this.dirty = true;
+    this.scheduleFlush();
+    return { allowed, usage: { ...usage, byScope: { ...usage.byScope } } };
+  }
+
+  async getUsage(id: string): Promise<DailyUsage[]> {
+    await this.ready;
+    const days = this.usage.get(id);
+    if (!days) return [];
+    return [...days.values()].sort((a, b) => b.date.localeCompare(a.date));
+  }
+
+  async close(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    if (this.dirty) await this.flush();
+  }
+
+  private async load(): Promise<void> {
+    let entries: unknown;
+    try {
+      entries = JSON.parse(await fs.readFile(this.keysPath, "utf8"));
+    } catch (error: any) {
+      if (error.code === "ENOENT") {
+        logWarning(`API key file ${this.keysPath} not found; every request will be rejected`);
+        return;
+      }
+      logError(`Failed to read API key file ${this.keysPath}:`, error);
+      return;
+    }
+
+    if (!Array.isArray(entries)) {
+      logError(`API key file ${this.keysPath} must contain a JSON array`);
+      return;
+    }
+
+    for (const entry of entries) {
+      const record = FileApiKeyStore.parseRecord(entry);
+      if (record) {
+        this.keys.set(record.keyHash, record);
+      } else {
+        logWarning(`Skipping invalid API key entry: ${JSON.stringify(entry?.id ?? entry)}`);
+      }
+    }
+    logInfo(`Loaded ${this.keys.size} API keys from ${this.keysPath}`);
+
+    try {
+      const saved = JSON.parse(await fs.readFile(this.usagePath, "utf8")) as Record<string, DailyUsage[]>;
+      for (const [id, days] of Object.entries(saved)) {
+        this.usage.set(id, new Map(days.map((day) => [day.date, day])));
+      }
+    } catch (error: any) {
+      if (error.code !== "ENOENT") {
+        logWarning(`Ignoring unreadable usage file ${this.usagePath}: ${error.message}`);
+      }
+    }
+  }
+
+  private static parseRecord(entry: any): ApiKeyRecord | null {
+    if (!entry || typeof entry !== "object") return null;
+    if (typeof entry.id !== "string" || !entry.id) return null;
+    if (typeof entry.keyHash !== "string" || !/^[a-f0-9]{64}$/i.test(entry.keyHash)) return null;
+    if (!Array.isArray(entry.scopes)) return null;
+
+    const scopes = entry.scopes.filter(
+      (scope: unknown) => scope === "*" || API_SCOPES.includes(scope as ApiScope),
+    );
+    if (scopes.length !== entry.scopes.length) return null;
+
+    if (
+      entry.dailyQuota !== undefined &&
+      (!Number.isInteger(entry.dailyQuota) || entry.dailyQuota < 0)
+    ) {
+      return null;
+    }
+
+    return {
+      id: entry.id,
+      name: typeof entry.name === "string" ? entry.name : entry.id,
+      keyHash: entry.keyHash.toLowerCase(),
+      scopes,
+      dailyQuota: entry.dailyQuota,
+      disabled: entry.disabled === true,
+    };
+  }
+
+  private prune(days: Map<string, DailyUsage>): void {
+    const dates = [...days.keys()].sort();
+    while (dates.length > FileApiKeyStore.USAGE_HISTORY_DAYS) {
+      days.delete(dates.shift()!);
+    }
+  }
+
+  private scheduleFlush(): void {
+    if (this.flushTimer) return;
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null;
+      this.flush().catch((error) => logError("Failed to save API key usage:", error));
+    }, FileApiKeyStore.USAGE_FLUSH_DELAY);
+    this.flushTimer.unref();
+  }
+
+  private flush(): Promise<void> {
+    this.dirty = false;
+    const snapshot: Record<string, DailyUsage[]> = {};
+    for (const [id, days] of this.usage) {
+      snapshot[id] = [...days.values()];
+    }
+    const content = JSON.stringify(snapshot);
+    const temp = `${this.usagePath}.tmp`;
+
+    // Write then rename, one write at a time
+    this.writing = this.writing
+      .catch(() => undefined)
+      .then(async () => {
+        await fs.mkdir(path.dirname(this.usagePath), { recursive: true });
+        await fs.writeFile(temp, content, "utf8");
+        await fs.rename(temp, this.usagePath);
+      });
+    return this.writing;
+  }
+}
+
+/**
+ * Create the key store configured by API_KEYS_PATH / API_USAGE_PATH
+ */
+export function createApiKeyStore(settings: AuthConfig = config.auth): ApiKeyStore {
+  return new FileApiKeyStore(settings.keysPath, settings.usagePath);
+}
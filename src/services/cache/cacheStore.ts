@@ -0,0 +1,89 @@
+import { logInfo } from "../../middleware/logger";
+import { RedisCacheStore } from "./redisCacheStore";
+import { config, CacheConfig } from "../../config";
+
+/**
+ * Key/value backend for cached responses. Values are serialized strings so
+ * every backend stores exactly the same thing.
+ */
+export interface CacheStore {
+  readonly name: string;
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string, ttlSeconds: number): Promise<void>;
+  delete(key: string): Promise<void>;
+  close(): Promise<void>;
+}
+
+interface MemoryEntry {
+  value: string;
+  expiresAt: number;
+}
+
+/**
+ * In-process LRU cache. A Map keeps insertion order, so re-inserting on read
+ * moves an entry to the most recently used end.
+ */
+export class MemoryCacheStore implements CacheStore {
+  private static readonly DEFAULT_MAX_ENTRIES = 500;
+
+  readonly name = "memory";
+  private entries: Map<string, MemoryEntry> = new Map();
+  private maxEntries: number;
+
+  constructor(maxEntries: number = MemoryCacheStore.DEFAULT_MAX_ENTRIES) {
+    this.maxEntries = Math.max(1, maxEntries);
+  }
+
+  async get(key: string): Promise<string | null> {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return null;
+    }
+
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  async set(key: string, value: string, ttlSeconds: number): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlSeconds * 1000 });
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async close(): Promise<void> {
+    this.entries.clear();
+  }
+
+  /**
+   * Number of entries currently held, including expired ones not yet evicted
+   */
+  size(): number {
+    return this.entries.size;
+  }
+}
+
+/**
+ * Create the backend selected by CACHE_BACKEND (memory or redis)
+ */
+export function createCacheStore(settings: CacheConfig = config.cache): CacheStore {
+  if (settings.backend === "redis") {
+    logInfo(`Using Redis cache backend at ${RedisCacheStore.describeUrl(settings.redisUrl)}`);
+    return new RedisCacheStore(settings.redisUrl);
+  }
+
+  logInfo(`Using in-memory cache backend (max ${settings.maxEntries} entries)`);
+  return new MemoryCacheStore(settings.maxEntries);
+}
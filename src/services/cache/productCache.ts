@@ -0,0 +1,213 @@
+import crypto from "crypto";
+import {
+  NaverScraper,
+  NaverOptions,
+  NaverProductData,
+} from "../naver/naverScraper";
+import type { ParseOptions } from "../naver/components/parser";
+import { logInfo, logWarning } from "../../middleware/logger";
+import { scraperMetrics } from "../metrics/metrics";
+import { CacheStore, MemoryCacheStore, createCacheStore } from "./cacheStore";
+import { config, CacheConfig } from "../../config";
+
+export type CacheStatus = "HIT" | "MISS" | "BYPASS" | "DISABLED";
+
+export interface CachedProductResult {
+  data: NaverProductData;
+  cache: {
+    status: CacheStatus;
+    // Seconds the response may still be reused for
+    maxAge: number;
+    cachedAt?: string;
+  };
+}
+
+export interface ProductCacheOptions {
+  enabled?: boolean;
+  ttlSeconds?: number;
+}
+
+interface CacheEntry {
+  data: NaverProductData;
+  cachedAt: string;
+}
+
+/**
+ * Read-through cache in front of NaverScraper.scrapeProduct. Entries are
+ * keyed by product id, so different URL spellings of one product share an
+ * entry, and by the parse options, which shape the cached data. Backend
+ * failures are logged and treated as misses.
+ */
+export class ProductCache {
+  private static readonly KEY_PREFIX = "naver:product:";
+  private static readonly DEFAULT_TTL = 300; // 5 minutes
+
+  private scraper: NaverScraper;
+  private store: CacheStore;
+  private enabled: boolean;
+  private ttlSeconds: number;
+
+  private hits = 0;
+  private misses = 0;
+  private errors = 0;
+
+  constructor(
+    scraper: NaverScraper,
+    store: CacheStore,
+    options: ProductCacheOptions = {},
+  ) {
+    this.scraper = scraper;
+    this.store = store;
+    this.enabled = options.enabled ?? true;
+    this.ttlSeconds = options.ttlSeconds ?? ProductCache.DEFAULT_TTL;
+  }
+
+  /**
+   * Cache key for a product URL scraped with the given parse options
+   */
+  static keyFor(url: string, parseOptions: ParseOptions = {}): string {
+    const { productId } = NaverScraper.parseNaverUrl(url);
+    return `${ProductCache.KEY_PREFIX}${productId}:${ProductCache.hashOptions(parseOptions)}`;
+  }
+
+  /**
+   * Short digest of the parse options that are set, independent of the
+   * order their properties were written in
+   */
+  private static hashOptions(parseOptions: ParseOptions): string {
+    const entries = Object.entries(parseOptions)
+      .filter(([, value]) => value !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return crypto
+      .createHash("sha256")
+      .update(JSON.stringify(entries))
+      .digest("hex")
+      .slice(0, 16);
+  }
+
+  /**
+   * Return a cached product when available, otherwise scrape and store it.
+   * `fresh` skips the lookup but still refreshes the entry.
+   */
+  async scrapeProduct(
+    url: string,
+    options: NaverOptions = {},
+    fresh: boolean = false,
+  ): Promise<CachedProductResult> {
+    if (!this.enabled) {
+      const data = await this.scraper.scrapeProduct(url, options);
+      return { data, cache: { status: "DISABLED", maxAge: 0 } };
+    }
+
+    const key = ProductCache.keyFor(url, options.parseOptions);
+
+    if (!fresh) {
+      const entry = await this.read(key);
+      if (entry) {
+        this.hits++;
+        scraperMetrics.cacheRequests.inc({ status: "HIT" });
+        const age = Math.floor((Date.now() - Date.parse(entry.cachedAt)) / 1000);
+        logInfo(`Cache hit for ${key} (age ${age}s)`);
+        return {
+          data: entry.data,
+          cache: {
+            status: "HIT",
+            maxAge: Math.max(0, this.ttlSeconds - age),
+            cachedAt: entry.cachedAt,
+          },
+        };
+      }
+      this.misses++;
+      scraperMetrics.cacheRequests.inc({ status: "MISS" });
+    } else {
+      scraperMetrics.cacheRequests.inc({ status: "BYPASS" });
+    }
+
+    const data = await this.scraper.scrapeProduct(url, options);
+    const cachedAt = new Date().toISOString();
+    await this.write(key, { data, cachedAt });
+
+    return {
+      data,
+      cache: {
+        status: fresh ? "BYPASS" : "MISS",
+        maxAge: this.ttlSeconds,
+        cachedAt,
+      },
+    };
+  }
+
+  /**
+   * Drop the cached entry for a product URL scraped with `options`
+   */
+  async invalidate(url: string, options: NaverOptions = {}): Promise<void> {
+    if (!this.enabled) return;
+    try {
+      await this.store.delete(ProductCache.keyFor(url, options.parseOptions));
+    } catch (error) {
+      this.errors++;
+      logWarning("Failed to invalidate cache entry:", error);
+    }
+  }
+
+  getStats(): {
+    enabled: boolean;
+    backend: string;
+    ttlSeconds: number;
+    hits: number;
+    misses: number;
+    errors: number;
+  } {
+    return {
+      enabled: this.enabled,
+      backend: this.store.name,
+      ttlSeconds: this.ttlSeconds,
+      hits: this.hits,
+      misses: this.misses,
+      errors: this.errors,
+    };
+  }
+
+  async close(): Promise<void> {
+    await this.store.close();
+  }
+
+  private async read(key: string): Promise<CacheEntry | null> {
+    try {
+      const value = await this.store.get(key);
+      return value ? (JSON.parse(value) as CacheEntry) : null;
+    } catch (error) {
+      this.errors++;
+      logWarning(`Cache read failed for ${key}, scraping instead:`, error);
+      return null;
+    }
+  }
+
+  private async write(key: string, entry: CacheEntry): Promise<void> {
+    try {
+      await this.store.set(key, JSON.stringify(entry), this.ttlSeconds);
+    } catch (error) {
+      this.errors++;
+      logWarning(`Cache write failed for ${key}:`, error);
+    }
+  }
+}
+
+/**
+ * Build the product cache from the cache config (CACHE_ENABLED,
+ * CACHE_TTL_SECONDS, CACHE_BACKEND)
+ */
+export function createProductCache(
+  scraper: NaverScraper,
+  settings: CacheConfig = config.cache,
+): ProductCache {
+  return new ProductCache(
+    scraper,
+    // Only connect to Redis when caching is actually on
+    settings.enabled ? createCacheStore(settings) : new MemoryCacheStore(1),
+    {
+      enabled: settings.enabled,
+      ttlSeconds: settings.ttlSeconds,
+    },
+  );
+}
@@ -0,0 +1,254 @@
+import net from "net";
+import { logInfo, logWarning } from "../../middleware/logger";
+import type { CacheStore } from "./cacheStore";
+
+type RespValue = string | number | null | RespValue[];
+
+interface PendingReply {
+  resolve: (value: RespValue) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Cache backend speaking the Redis protocol (RESP) directly over a TCP
+ * socket. Only the handful of commands the cache needs are implemented.
+ */
+export class RedisCacheStore implements CacheStore {
+  private static readonly CONNECT_TIMEOUT = 5000; // 5 seconds
+  private static readonly COMMAND_TIMEOUT = 3000; // 3 seconds
+
+  readonly name = "redis";
+  private host: string;
+  private port: number;
+  private password?: string;
+  private database?: number;
+
+  private socket: net.Socket | null = null;
+  private connecting: Promise<net.Socket> | null = null;
+  private buffer: Buffer = Buffer.alloc(0);
+  private pending: PendingReply[] = [];
+
+  constructor(url: string) {
+    const parsed = new URL(url);
+    this.host = parsed.hostname || "localhost";
+    this.port = parseInt(parsed.port || "6379");
+    this.password = parsed.password ? decodeURIComponent(parsed.password) : undefined;
+
+    const database = parsed.pathname.replace("/", "");
+    this.database = database ? parseInt(database) : undefined;
+  }
+
+  /**
+   * Redis URL without credentials, safe to log
+   */
+  static describeUrl(url: string): string {
+    try {
+      const parsed = new URL(url);
+      return `${parsed.hostname}:${parsed.port || "6379"}${parsed.pathname}`;
+    } catch {
+      return "invalid URL";
+    }
+  }
+
+  async get(key: string): Promise<string | null> {
+    const reply = await this.command("GET", key);
+    return typeof reply === "string" ? reply : null;
+  }
+
+  async set(key: string, value: string, ttlSeconds: number): Promise<void> {
+    await this.command("SET", key, value, "EX", String(Math.max(1, Math.ceil(ttlSeconds))));
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.command("DEL", key);
+  }
+
+  async close(): Promise<void> {
+    if (!this.socket) return;
+
+    try {
+      await this.command("QUIT");
+    } catch {
+      // Connection is going away either way
+    }
+    this.reset(new Error("Redis connection closed"));
+  }
+
+  /**
+   * Send a command and wait for its reply
+   */
+  async command(...args: string[]): Promise<RespValue> {
+    const socket = await this.connect();
+    return this.send(socket, args);
+  }
+
+  private send(socket: net.Socket, args: string[]): Promise<RespValue> {
+    return new Promise<RespValue>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        // Replies arrive in order, so a lost reply poisons the connection
+        this.reset(new Error(`Redis command ${args[0]} timed out`));
+      }, RedisCacheStore.COMMAND_TIMEOUT);
+
+      this.pending.push({
+        resolve: (value) => {
+          clearTimeout(timer);
+          resolve(value);
+        },
+        reject: (error) => {
+          clearTimeout(timer);
+          reject(error);
+        },
+      });
+
+      socket.write(RedisCacheStore.encode(args));
+    });
+  }
+
+  private connect(): Promise<net.Socket> {
+    if (this.socket) return Promise.resolve(this.socket);
+    if (this.connecting) return this.connecting;
+
+    this.connecting = new Promise<net.Socket>((resolve, reject) => {
+      const socket = net.createConnection({ host: this.host, port: this.port });
+      socket.setTimeout(RedisCacheStore.CONNECT_TIMEOUT);
+
+      const fail = (error: Error) => {
+        socket.destroy();
+        reject(error);
+      };
+
+      socket.once("timeout", () => fail(new Error("Redis connection timed out")));
+      socket.once("error", fail);
+
+      socket.once("connect", async () => {
+        socket.setTimeout(0);
+        socket.removeListener("error", fail);
+        socket.on("data", (chunk) => this.onData(chunk));
+        socket.on("error", (error) => this.reset(error));
+        socket.on("close", () => this.reset(new Error("Redis connection closed")));
+
+        this.socket = socket;
+
+        try {
+          if (this.password) {
+            await this.send(socket, ["AUTH", this.password]);
+          }
+          if (this.database !== undefined) {
+            await this.send(socket, ["SELECT", String(this.database)]);
+          }
+          logInfo(`Connected to Redis at ${this.host}:${this.port}`);
+          resolve(socket);
+        } catch (error: any) {
+          this.reset(error);
+          reject(error);
+        }
+      });
+    }).finally(() => {
+      this.connecting = null;
+    });
+
+    return this.connecting;
+  }
+
+  /**
+   * Drop the connection and fail every reply still outstanding
+   */
+  private reset(error: Error): void {
+    const pending = this.pending;
+    this.pending = [];
+    this.buffer = Buffer.alloc(0);
+
+    if (this.socket) {
+      this.socket.removeAllListeners();
+      this.socket.on("error", () => undefined);
+      this.socket.destroy();
+      this.socket = null;
+    }
+
+    if (pending.length > 0) {
+      logWarning(`Redis connection reset: ${error.message}`);
+    }
+    pending.forEach((reply) => reply.reject(error));
+  }
+
+  private onData(chunk: Buffer): void {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+
+    while (this.buffer.length > 0) {
+      const parsed = RedisCacheStore.decode(this.buffer, 0);
+      if (!parsed) return; // Wait for the rest of the reply
+
+      this.buffer = this.buffer.subarray(parsed.offset);
+      const reply = this.pending.shift();
+      if (!reply) continue;
+
+      if (parsed.value instanceof Error) {
+        reply.reject(parsed.value);
+      } else {
+        reply.resolve(parsed.value);
+      }
+    }
+  }
+
+  /**
+   * Encode a command as a RESP array of bulk strings
+   */
+  static encode(args: string[]): Buffer {
+    const parts = [`*${args.length}\r\n`];
+    for (const arg of args) {
+      parts.push(`$${Buffer.byteLength(arg)}\r\n${arg}\r\n`);
+    }
+    return Buffer.from(parts.join(""));
+  }
+
+  /**
+   * Decode one RESP reply starting at `offset`. Returns null when the buffer
+   * does not yet hold a complete reply.
+   */
+  static decode(
+    buffer: Buffer,
+    offset: number,
+  ): { value: RespValue | Error; offset: number } | null {
+    const lineEnd = buffer.indexOf("\r\n", offset);
+    if (lineEnd === -1) return null;
+
+    const type = String.fromCharCode(buffer[offset]!);
+    const line = buffer.toString("utf8", offset + 1, lineEnd);
+    const next = lineEnd + 2;
+
+    switch (type) {
+      case "+":
+        return { value: line, offset: next };
+      case "-":
+        return { value: new Error(line), offset: next };
+      case ":":
+        return { value: parseInt(line), offset: next };
+      case "$": {
+        const length = parseInt(line);
+        if (length === -1) return { value: null, offset: next };
+        if (buffer.length < next + length + 2) return null;
+        return {
+          value: buffer.toString("utf8", next, next + length),
+          offset: next + length + 2,
+        };
+      }
+      case "*": {
+        const count = parseInt(line);
+        if (count === -1) return { value: null, offset: next };
+
+        const items: RespValue[] = [];
+        let position = next;
+        for (let i = 0; i < count; i++) {
+          const item = this.decode(buffer, position);
+          if (!item) return null;
+          if (item.value instanceof Error) return item;
+          items.push(item.value);
+          position = item.offset;
+        }
+        return { value: items, offset: position };
+      }
+      default:
+        return { value: new Error(`Unexpected Redis reply type "${type}"`), offset: next };
+    }
+  }
+}
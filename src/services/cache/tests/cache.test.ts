@@ -0,0 +1,187 @@
+import net from "net";
+import { MemoryCacheStore } from "../cacheStore";
+import { RedisCacheStore } from "../redisCacheStore";
+import { ProductCache } from "../productCache";
+import { NaverScraper } from "../../naver/naverScraper";
+import { check } from "../../../utils/tests/check";
+
+/**
+ * Test suite for cache backends and the product cache
+ */
+
+/**
+ * Minimal Redis stand-in that understands GET/SET/DEL/QUIT
+ */
+function startRedisStandIn(): Promise<{ server: net.Server; port: number }> {
+  const data = new Map<string, string>();
+
+  const server = net.createServer((socket) => {
+    let buffer = Buffer.alloc(0);
+
+    socket.on("data", (chunk) => {
+      buffer = Buffer.concat([buffer, chunk]);
+
+      let parsed;
+      while ((parsed = RedisCacheStore.decode(buffer, 0)) !== null) {
+        buffer = buffer.subarray(parsed.offset);
+        const [command, key = "", value = ""] = parsed.value as string[];
+
+        switch (command) {
+          case "GET": {
+            const stored = data.get(key);
+            socket.write(
+              stored === undefined
+                ? "$-1\r\n"
+                : `$${Buffer.byteLength(stored)}\r\n${stored}\r\n`,
+            );
+            break;
+          }
+          case "SET":
+            data.set(key, value);
+            socket.write("+OK\r\n");
+            break;
+          case "DEL":
+            socket.write(`:${data.delete(key) ? 1 : 0}\r\n`);
+            break;
+          case "QUIT":
+            socket.end("+OK\r\n");
+            break;
+          default:
+            socket.write(`-ERR unknown command '${command}'\r\n`);
+        }
+      }
+    });
+  });
+
+  return new Promise((resolve) => {
+    server.listen(0, "127.0.0.1", () => {
+      resolve({ server, port: (server.address() as net.AddressInfo).port });
+    });
+  });
+}
+
+async function testMemoryStore(): Promise<void> {
+  console.log("=== Testing MemoryCacheStore ===");
+
+  const store = new MemoryCacheStore(2);
+  await store.set("a", "1", 60);
+  await store.set("b", "2", 60);
+  await store.get("a"); // a becomes most recently used
+  await store.set("c", "3", 60);
+
+  check("Least recently used entry evicted", (await store.get("b")) === null);
+  check("Recently used entry kept", (await store.get("a")) === "1");
+  check("Size bounded", store.size() === 2, store.size());
+
+  await store.set("short", "x", -1);
+  check("Expired entry not returned", (await store.get("short")) === null);
+}
+
+async function testRespCodec(): Promise<void> {
+  console.log("\n=== Testing RESP encode/decode ===");
+
+  const encoded = RedisCacheStore.encode(["SET", "키", "값"]).toString();
+  check("Encodes byte lengths", encoded === "*3\r\n$3\r\nSET\r\n$3\r\n키\r\n$3\r\n값\r\n", encoded);
+
+  const bulk = RedisCacheStore.decode(Buffer.from("$5\r\nhello\r\n"), 0);
+  check("Decodes bulk string", bulk?.value === "hello" && bulk.offset === 11, bulk);
+
+  check("Partial reply waits", RedisCacheStore.decode(Buffer.from("$5\r\nhel"), 0) === null);
+  check("Decodes nil", RedisCacheStore.decode(Buffer.from("$-1\r\n"), 0)?.value === null);
+
+  const error = RedisCacheStore.decode(Buffer.from("-ERR nope\r\n"), 0);
+  check("Decodes error", error?.value instanceof Error);
+}
+
+async function testRedisStore(): Promise<void> {
+  console.log("\n=== Testing RedisCacheStore against stand-in ===");
+
+  const { server, port } = await startRedisStandIn();
+  const store = new RedisCacheStore(`redis://127.0.0.1:${port}`);
+
+  try {
+    await store.set("product", '{"title":"머그컵"}', 60);
+    check("Round trip", (await store.get("product")) === '{"title":"머그컵"}');
+
+    await store.delete("product");
+    check("Delete", (await store.get("product")) === null);
+
+    const replies = await Promise.all([store.get("x"), store.set("x", "1", 60), store.get("x")]);
+    check("Pipelined replies stay in order", replies[0] === null && replies[2] === "1", replies);
+
+    let rejected = false;
+    try {
+      await store.command("FLUSHALL");
+    } catch {
+      rejected = true;
+    }
+    check("Error reply rejects", rejected);
+  } finally {
+    await store.close();
+    server.close();
+  }
+}
+
+async function testProductCache(): Promise<void> {
+  console.log("\n=== Testing ProductCache ===");
+
+  let scrapes = 0;
+  const scraper = {
+    async scrapeProduct(url: string) {
+      scrapes++;
+      return { title: `상품 ${scrapes}`, url };
+    },
+  } as unknown as NaverScraper;
+
+  const cache = new ProductCache(scraper, new MemoryCacheStore(), { ttlSeconds: 60 });
+  const url = "https://smartstore.naver.com/cupstudio/products/1234567890";
+
+  const first = await cache.scrapeProduct(url);
+  check("First request misses", first.cache.status === "MISS" && scrapes === 1, first.cache);
+
+  const second = await cache.scrapeProduct(`${url}?NaPm=ct%3Dabc`);
+  check("Same product id hits", second.cache.status === "HIT" && scrapes === 1, second.cache);
+  check("Cached data returned", second.data.title === "상품 1", second.data.title);
+
+  const fresh = await cache.scrapeProduct(url, {}, true);
+  check("fresh bypasses cache", fresh.cache.status === "BYPASS" && scrapes === 2, fresh.cache);
+
+  const afterFresh = await cache.scrapeProduct(url);
+  check("Bypass refreshes entry", afterFresh.data.title === "상품 2", afterFresh.data.title);
+
+  const limited = await cache.scrapeProduct(url, { parseOptions: { maxImages: 1 } });
+  check("Other parse options miss", limited.cache.status === "MISS" && scrapes === 3, limited.cache);
+
+  const reordered = await cache.scrapeProduct(url, {
+    parseOptions: { extractSpecs: false, maxImages: 2 },
+  });
+  const sameOptions = await cache.scrapeProduct(url, {
+    parseOptions: { maxImages: 2, extractSpecs: false, maxDescriptionLength: undefined },
+  });
+  check(
+    "Option order doesn't change the key",
+    reordered.cache.status === "MISS" && sameOptions.cache.status === "HIT" && scrapes === 4,
+    sameOptions.cache,
+  );
+
+  const defaults = await cache.scrapeProduct(url);
+  check("Default entry untouched", defaults.cache.status === "HIT" && defaults.data.title === "상품 2", defaults.data.title);
+
+  await cache.invalidate(url, { parseOptions: { maxImages: 1 } });
+  const invalidated = await cache.scrapeProduct(url, { parseOptions: { maxImages: 1 } });
+  check("Invalidate drops the entry for those options", invalidated.cache.status === "MISS" && scrapes === 5, invalidated.cache);
+
+  const disabled = new ProductCache(scraper, new MemoryCacheStore(), { enabled: false });
+  const result = await disabled.scrapeProduct(url);
+  check("Disabled cache always scrapes", result.cache.status === "DISABLED" && scrapes === 6, result.cache);
+
+  const stats = cache.getStats();
+  check("Hit/miss counters", stats.hits === 4 && stats.misses === 4, stats);
+}
+
+(async () => {
+  await testMemoryStore();
+  await testRespCodec();
+  await testRedisStore();
+  await testProductCache();
+})();
@@ -0,0 +1,173 @@
+import { promises as fs } from "fs";
+import path from "path";
+import type { NaverProductData } from "../naver/naverScraper";
+import type { ProductBenefits } from "../naver/components/benefits";
+import { logWarning } from "../../middleware/logger";
+import { config, HistoryConfig } from "../../config";
+
+/**
+ * What a product looked like at one scrape
+ */
+export interface PriceSnapshot {
+  productId: string;
+  capturedAt: string;
+  title: string;
+  url: string;
+  price: {
+    original?: number;
+    discounted?: number;
+    bestAchievable?: number;
+    currency: string;
+  };
+  availability: boolean;
+  stockQuantity?: number;
+  benefits?: ProductBenefits;
+}
+
+export interface HistoryRange {
+  // Inclusive bounds, epoch milliseconds
+  from?: number;
+  to?: number;
+}
+
+/**
+ * Storage backend for snapshots. Snapshots are appended in capture order
+ * and never rewritten.
+ */
+export interface PriceHistoryStore {
+  append(snapshot: PriceSnapshot): Promise<void>;
+  // Snapshots for the product within the range, oldest first
+  list(productId: string, range?: HistoryRange): Promise<PriceSnapshot[]>;
+  close(): Promise<void>;
+}
+
+/**
+ * Reduce scraped product data to the fields worth tracking over time
+ */
+export function toSnapshot(
+  product: NaverProductData,
+  capturedAt: Date = new Date(),
+): PriceSnapshot {
+  const { original, discounted, bestAchievable, currency } = product.price;
+
+  return {
+    productId: product.productId,
+    capturedAt: capturedAt.toISOString(),
+    title: product.title,
+    url: product.url,
+    price: { original, discounted, bestAchievable, currency },
+    availability: product.availability,
+    stockQuantity: product.stockQuantity,
+    benefits: product.benefits,
+  };
+}
+
+const inRange = (snapshot: PriceSnapshot, { from, to }: HistoryRange): boolean => {
+  const time = Date.parse(snapshot.capturedAt);
+  return (from === undefined || time >= from) && (to === undefined || time <= to);
+};
+
+/**
+ * Keeps snapshots in process memory. History is lost on restart.
+ */
+export class MemoryPriceHistoryStore implements PriceHistoryStore {
+  private snapshots: Map<string, PriceSnapshot[]> = new Map();
+
+  async append(snapshot: PriceSnapshot): Promise<void> {
+    const list = this.snapshots.get(snapshot.productId) || [];
+    list.push(JSON.parse(JSON.stringify(snapshot)));
+    this.snapshots.set(snapshot.productId, list);
+  }
+
+  async list(productId: string, range: HistoryRange = {}): Promise<PriceSnapshot[]> {
+    return (this.snapshots.get(productId) || [])
+      .filter((snapshot) => inRange(snapshot, range))
+      .map((snapshot) => JSON.parse(JSON.stringify(snapshot)));
+  }
+
+  async close(): Promise<void> {
+    this.snapshots.clear();
+  }
+}
+
+/**
+ * Appends snapshots as JSON lines to one file per product, so history
+ * survives restarts and a crash loses at most the line being written
+ */
+export class FilePriceHistoryStore implements PriceHistoryStore {
+  private directory: string;
+  private ready: Promise<void>;
+  // Pending append per product, so lines land in call order
+  private writes: Map<string, Promise<void>> = new Map();
+
+  constructor(directory: string) {
+    this.directory = directory;
+    this.ready = fs.mkdir(directory, { recursive: true }).then(() => undefined);
+  }
+
+  async append(snapshot: PriceSnapshot): Promise<void> {
+    await this.ready;
+    const file = this.filePath(snapshot.productId);
+    const line = `${JSON.stringify(snapshot)}\n`;
+
+    const previous = this.writes.get(snapshot.productId) || Promise.resolve();
+    const write = previous
+      .catch(() => undefined)
+      .then(() => fs.appendFile(file, line, "utf8"));
+
+    this.writes.set(snapshot.productId, write);
+    try {
+      await write;
+    } finally {
+      if (this.writes.get(snapshot.productId) === write) {
+        this.writes.delete(snapshot.productId);
+      }
+    }
+  }
+
+  async list(productId: string, range: HistoryRange = {}): Promise<PriceSnapshot[]> {
+    await this.ready;
+
+    let content: string;
+    try {
+      content = await fs.readFile(this.filePath(productId), "utf8");
+    } catch (error: any) {
+      if (error.code === "ENOENT") return [];
+      throw error;
+    }
+
+    const snapshots: PriceSnapshot[] = [];
+    for (const line of content.split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        const snapshot = JSON.parse(line) as PriceSnapshot;
+        if (inRange(snapshot, range)) snapshots.push(snapshot);
+      } catch {
+        // A torn last line from a crash; the rest of the file is fine
+        logWarning(`Skipping unreadable snapshot line for product ${productId}`);
+      }
+    }
+
+    return snapshots;
+  }
+
+  async close(): Promise<void> {
+    await Promise.allSettled(this.writes.values());
+  }
+
+  private filePath(productId: string): string {
+    // Product ids are numeric; strip anything else to keep paths inside the directory
+    return path.join(this.directory, `${productId.replace(/[^0-9]/g, "")}.jsonl`);
+  }
+}
+
+/**
+ * Create the store selected by HISTORY_STORE (file or memory)
+ */
+export function createPriceHistoryStore(
+  settings: HistoryConfig = config.history,
+): PriceHistoryStore {
+  return settings.store === "file"
+    ? new FilePriceHistoryStore(settings.storePath)
+    : new MemoryPriceHistoryStore();
+}
@@ -0,0 +1,136 @@
+import type { NaverProductData } from "../naver/naverScraper";
+import { logDebug, logError, logInfo } from "../../middleware/logger";
+import { config, HistoryConfig } from "../../config";
+import {
+  PriceHistoryStore,
+  PriceSnapshot,
+  HistoryRange,
+  createPriceHistoryStore,
+  toSnapshot,
+} from "./historyStore";
+
+export interface PriceStats {
+  min: number;
+  max: number;
+  average: number;
+  first: number;
+  last: number;
+  // last - first
+  change: number;
+}
+
+export interface HistoryQuery extends HistoryRange {
+  // Most recent snapshots to return; aggregates still cover the whole range
+  limit?: number;
+}
+
+export interface PriceHistoryReport {
+  productId: string;
+  count: number;
+  aggregates: {
+    // What the product sold for: the discounted price when there is one
+    price: PriceStats | null;
+    original: PriceStats | null;
+    bestAchievable: PriceStats | null;
+    // Share of snapshots where the product was available (0-1)
+    availability: number | null;
+  };
+  snapshots: PriceSnapshot[];
+}
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Records a snapshot for every successful scrape and answers history
+ * queries with aggregates
+ */
+export class PriceHistory {
+  private store: PriceHistoryStore;
+
+  constructor(store: PriceHistoryStore) {
+    this.store = store;
+  }
+
+  /**
+   * Summary of a numeric series, or null when no snapshot had a value
+   */
+  static stats(values: (number | undefined)[]): PriceStats | null {
+    const present = values.filter((value): value is number => typeof value === "number");
+    const first = present[0];
+    const last = present[present.length - 1];
+    if (first === undefined || last === undefined) return null;
+
+    // Long histories are too big to spread into Math.min/max
+    return {
+      min: present.reduce((min, value) => Math.min(min, value), first),
+      max: present.reduce((max, value) => Math.max(max, value), first),
+      average: round(present.reduce((sum, value) => sum + value, 0) / present.length),
+      first,
+      last,
+      change: last - first,
+    };
+  }
+
+  /**
+   * Store a snapshot of the product. Never throws: losing one history point
+   * must not fail the scrape that produced it.
+   */
+  async record(product: NaverProductData): Promise<void> {
+    try {
+      await this.store.append(toSnapshot(product));
+      logDebug(`Recorded price snapshot for product ${product.productId}`);
+    } catch (error) {
+      logError(`Failed to record price snapshot for product ${product.productId}:`, error);
+    }
+  }
+
+  /**
+   * Snapshots and aggregates for a product within the query range
+   */
+  async getHistory(productId: string, query: HistoryQuery = {}): Promise<PriceHistoryReport> {
+    const { limit, ...range } = query;
+    const snapshots = await this.store.list(productId, range);
+
+    return {
+      productId,
+      count: snapshots.length,
+      aggregates: {
+        price: PriceHistory.stats(
+          snapshots.map(({ price }) => price.discounted ?? price.original),
+        ),
+        original: PriceHistory.stats(snapshots.map(({ price }) => price.original)),
+        bestAchievable: PriceHistory.stats(snapshots.map(({ price }) => price.bestAchievable)),
+        availability:
+          snapshots.length > 0
+            ? round(snapshots.filter((snapshot) => snapshot.availability).length / snapshots.length)
+            : null,
+      },
+      snapshots: limit !== undefined ? snapshots.slice(-limit) : snapshots,
+    };
+  }
+
+  /**
+   * Wait for pending writes
+   */
+  async close(): Promise<void> {
+    await this.store.close();
+  }
+}
+
+let sharedHistory: PriceHistory | null | undefined;
+
+/**
+ * Process-wide price history built from the history config
+ * (HISTORY_ENABLED, HISTORY_STORE, HISTORY_STORE_PATH); null when disabled
+ */
+export function getPriceHistory(settings: HistoryConfig = config.history): PriceHistory | null {
+  if (sharedHistory === undefined) {
+    sharedHistory = settings.enabled
+      ? new PriceHistory(createPriceHistoryStore(settings))
+      : null;
+    if (sharedHistory) {
+      logInfo(`Price history enabled (${settings.store} store)`);
+    }
+  }
+  return sharedHistory;
+}
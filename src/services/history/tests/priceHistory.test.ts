@@ -0,0 +1,134 @@
+import os from "os";
+import path from "path";
+import { promises as fs } from "fs";
+import { PriceHistory } from "../priceHistory";
+import {
+  FilePriceHistoryStore,
+  MemoryPriceHistoryStore,
+  PriceSnapshot,
+  toSnapshot,
+} from "../historyStore";
+import type { NaverProductData } from "../../naver/naverScraper";
+import { check } from "../../../utils/tests/check";
+
+/**
+ * Test suite for price snapshots: persistence, time-range filters and
+ * aggregates
+ */
+
+const product = (overrides: Partial<NaverProductData> = {}): NaverProductData => ({
+  title: "미니빈즈 유아 레깅스",
+  price: { original: 20000, discounted: 15000, currency: "KRW", formatted: "15,000원" },
+  images: ["https://shop-phinf.pstatic.net/a.jpg"],
+  description: "긴 상품 설명",
+  brand: "minibeans",
+  seller: { name: "미니빈즈", url: "https://smartstore.naver.com/minibeans" },
+  productId: "4256805008",
+  url: "https://smartstore.naver.com/minibeans/products/4256805008",
+  availability: true,
+  ...overrides,
+});
+
+const snapshotAt = (iso: string, price: PriceSnapshot["price"], availability = true): PriceSnapshot => ({
+  ...toSnapshot(product(), new Date(iso)),
+  price,
+  availability,
+});
+
+async function runTests() {
+  // Test snapshots
+  console.log("=== Testing snapshots ===");
+
+  const snapshot = toSnapshot(product(), new Date("2026-03-01T00:00:00Z"));
+  check("Tracked fields kept", snapshot.price.discounted === 15000 && snapshot.title === "미니빈즈 유아 레깅스" && snapshot.availability, snapshot);
+  check("Bulky fields dropped", !("images" in snapshot) && !("description" in snapshot), Object.keys(snapshot));
+
+  // Test the file store
+  console.log("\n=== Testing file store ===");
+
+  const directory = await fs.mkdtemp(path.join(os.tmpdir(), "price-history-"));
+  try {
+    const store = new FilePriceHistoryStore(directory);
+
+    await Promise.all(
+      ["01", "02", "03", "04"].map((day, index) =>
+        store.append(
+          snapshotAt(`2026-03-${day}T09:00:00Z`, { original: 20000, discounted: 15000 + index * 1000, currency: "KRW" }),
+        ),
+      ),
+    );
+
+    const all = await store.list("4256805008");
+    check("Concurrent appends kept in order", all.map((s) => s.price.discounted).join() === "15000,16000,17000,18000", all.map((s) => s.price.discounted));
+
+    const ranged = await store.list("4256805008", {
+      from: Date.parse("2026-03-02T00:00:00Z"),
+      to: Date.parse("2026-03-03T09:00:00Z"),
+    });
+    check("Range is inclusive", ranged.length === 2 && ranged[1]?.capturedAt === "2026-03-03T09:00:00.000Z", ranged.map((s) => s.capturedAt));
+
+    check("Unknown product is empty", (await store.list("999")).length === 0);
+
+    // Simulate a crash mid-write
+    await fs.appendFile(path.join(directory, "4256805008.jsonl"), '{"productId":"4256805008","capt');
+    const afterCrash = await new FilePriceHistoryStore(directory).list("4256805008");
+    check("Torn line skipped, history survives restart", afterCrash.length === 4, afterCrash.length);
+
+    await store.close();
+  } finally {
+    await fs.rm(directory, { recursive: true, force: true });
+  }
+
+  // Test aggregates
+  console.log("\n=== Testing aggregates ===");
+
+  const memory = new MemoryPriceHistoryStore();
+  const history = new PriceHistory(memory);
+
+  await memory.append(snapshotAt("2026-03-01T00:00:00Z", { original: 20000, discounted: 15000, currency: "KRW" }));
+  await memory.append(snapshotAt("2026-03-02T00:00:00Z", { original: 20000, currency: "KRW" }, false));
+  await memory.append(snapshotAt("2026-03-03T00:00:00Z", { original: 21000, discounted: 14000, bestAchievable: 12500, currency: "KRW" }));
+
+  const report = await history.getHistory("4256805008");
+  check("Count", report.count === 3, report.count);
+  check(
+    "Price falls back to original without a discount",
+    report.aggregates.price?.min === 14000 && report.aggregates.price.max === 20000,
+    report.aggregates.price,
+  );
+  check("Average", report.aggregates.price?.average === 16333.33, report.aggregates.price);
+  check("Change from first to last", report.aggregates.price?.change === -1000, report.aggregates.price);
+  check("Sparse series only counts present values", report.aggregates.bestAchievable?.min === 12500 && report.aggregates.bestAchievable.first === 12500, report.aggregates.bestAchievable);
+  check("Availability ratio", report.aggregates.availability === 0.67, report.aggregates.availability);
+
+  const limited = await history.getHistory("4256805008", { limit: 1 });
+  check("Limit keeps the latest snapshots", limited.snapshots.length === 1 && limited.snapshots[0]?.capturedAt.startsWith("2026-03-03") === true, limited.snapshots);
+  check("Aggregates ignore the limit", limited.count === 3 && limited.aggregates.price?.max === 20000, limited.aggregates);
+
+  const empty = await history.getHistory("4256805008", { from: Date.parse("2027-01-01T00:00:00Z") });
+  check("Empty range has null aggregates", empty.count === 0 && empty.aggregates.price === null && empty.aggregates.availability === null, empty);
+
+  await history.record(product({ productId: "777", price: { original: 9900, currency: "KRW", formatted: "9,900원" } }));
+  const recorded = await history.getHistory("777");
+  check("Recorded products are queryable", recorded.count === 1 && recorded.aggregates.price?.last === 9900, recorded);
+
+  const failing = new PriceHistory({
+    append: async () => {
+      throw new Error("disk full");
+    },
+    list: async () => [],
+    close: async () => undefined,
+  });
+  let threw = false;
+  try {
+    await failing.record(product());
+  } catch {
+    threw = true;
+  }
+  check("Store failures never fail the scrape", !threw);
+}
+
+runTests().catch((error) => {
+  console.error("Test run failed:", error);
+  process.exit(1);
+});
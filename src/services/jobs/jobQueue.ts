@@ -0,0 +1,317 @@
+import { randomUUID } from "crypto";
+import {
+  NaverScraper,
+  NaverOptions,
+  BatchOptions,
+} from "../naver/naverScraper";
+import { AppError } from "../../middleware/errorHandler";
+import { logInfo, logError, logWarning, withLogContext } from "../../middleware/logger";
+import { Job, JobStore, JobType, MemoryJobStore } from "./jobStore";
+
+export interface ScrapeJobPayload {
+  productUrl: string;
+  useBrowser?: boolean;
+  options?: NaverOptions;
+}
+
+export interface BatchJobPayload {
+  productUrls: string[];
+  options?: BatchOptions;
+}
+
+export interface JobQueueOptions {
+  concurrency?: number;
+}
+
+interface RunningJob {
+  controller: AbortController;
+  // Settles once the runner has stopped and saved its last progress
+  finished: Promise<void>;
+}
+
+/**
+ * In-process job queue for scrapes that outlive an HTTP request. Jobs run
+ * in submission order, up to `concurrency` at a time, and every state change
+ * is written through to the store so status can be polled.
+ */
+export class JobQueue {
+  private static readonly DEFAULT_CONCURRENCY = 1;
+
+  private store: JobStore;
+  private scraper: NaverScraper;
+  private concurrency: number;
+  private pending: string[] = [];
+  private running: Map<string, RunningJob> = new Map();
+  private stopped = false;
+
+  constructor(
+    scraper: NaverScraper,
+    store: JobStore = new MemoryJobStore(),
+    options: JobQueueOptions = {},
+  ) {
+    this.scraper = scraper;
+    this.store = store;
+    this.concurrency = options.concurrency ?? JobQueue.DEFAULT_CONCURRENCY;
+  }
+
+  /**
+   * Create a job and queue it for execution
+   */
+  async enqueue(type: "scrape", payload: ScrapeJobPayload): Promise<Job>;
+  async enqueue(type: "batch", payload: BatchJobPayload): Promise<Job>;
+  async enqueue(
+    type: JobType,
+    payload: ScrapeJobPayload | BatchJobPayload,
+  ): Promise<Job> {
+    if (this.stopped) {
+      throw new AppError("Job queue is shutting down", 503, { code: "SERVICE_UNAVAILABLE" });
+    }
+
+    const total =
+      type === "batch" ? (payload as BatchJobPayload).productUrls.length : 1;
+
+    const job: Job = {
+      id: randomUUID(),
+      type,
+      state: "queued",
+      payload,
+      progress: { total, completed: 0, succeeded: 0, failed: 0 },
+      result: { success: [], failed: [] },
+      createdAt: new Date().toISOString(),
+    };
+
+    await this.store.save(job);
+    this.pending.push(job.id);
+
+    logInfo(`Queued ${type} job ${job.id} (${total} products)`);
+
+    this.drain();
+    return job;
+  }
+
+  /**
+   * Get the current state of a job
+   */
+  async get(id: string): Promise<Job | null> {
+    return this.store.get(id);
+  }
+
+  /**
+   * List all known jobs, newest first
+   */
+  async list(): Promise<Job[]> {
+    const jobs = await this.store.list();
+    return jobs.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  /**
+   * Cancel a queued or running job. Running jobs are aborted, including a
+   * scrape in progress; results collected so far are kept.
+   */
+  async cancel(id: string): Promise<Job> {
+    const job = await this.store.get(id);
+    if (!job) {
+      throw new AppError("Job not found", 404, { code: "NOT_FOUND" });
+    }
+
+    if (job.state !== "queued" && job.state !== "running") {
+      throw new AppError(`Job is already ${job.state}`, 409, { code: "CONFLICT" });
+    }
+
+    this.pending = this.pending.filter((pendingId) => pendingId !== id);
+
+    // Wait for the runner to stop, then build on its last saved progress
+    const runner = this.running.get(id);
+    if (runner) {
+      runner.controller.abort();
+      await runner.finished;
+    }
+
+    const current = (await this.store.get(id)) ?? job;
+    if (current.state !== "queued" && current.state !== "running") {
+      throw new AppError(`Job is already ${current.state}`, 409, { code: "CONFLICT" });
+    }
+
+    current.state = "cancelled";
+    current.finishedAt = new Date().toISOString();
+    await this.store.save(current);
+
+    logInfo(`Cancelled job ${id}`);
+    return current;
+  }
+
+  /**
+   * Mark jobs a previous process left queued or running as failed. Their
+   * runners died with that process, so they would otherwise look stuck.
+   */
+  async recover(): Promise<number> {
+    let recovered = 0;
+
+    for (const job of await this.store.list()) {
+      if (job.state !== "queued" && job.state !== "running") continue;
+      // Queued by this process since it started
+      if (this.pending.includes(job.id) || this.running.has(job.id)) continue;
+
+      job.state = "failed";
+      job.error = "Interrupted by server restart";
+      job.finishedAt = new Date().toISOString();
+      await this.store.save(job);
+      recovered++;
+    }
+
+    if (recovered > 0) {
+      logWarning(`Marked ${recovered} jobs from a previous run as failed`);
+    }
+    return recovered;
+  }
+
+  /**
+   * Number of queued and running jobs
+   */
+  getStats(): { queued: number; running: number; concurrency: number } {
+    return {
+      queued: this.pending.length,
+      running: this.running.size,
+      concurrency: this.concurrency,
+    };
+  }
+
+  /**
+   * Stop starting jobs, give running ones until `deadline` to finish, then
+   * abort them. Unfinished jobs are marked failed so they don't look stuck.
+   */
+  async stop(deadline: number): Promise<void> {
+    this.stopped = true;
+
+    while (this.running.size > 0 && Date.now() < deadline) {
+      await new Promise((resolve) => setTimeout(resolve, 100));
+    }
+
+    const interrupted = [...this.pending, ...this.running.keys()];
+    this.pending = [];
+    this.running.forEach(({ controller }) => controller.abort());
+
+    for (const id of interrupted) {
+      const job = await this.store.get(id);
+      if (!job || (job.state !== "queued" && job.state !== "running")) continue;
+
+      job.state = "failed";
+      job.error = "Interrupted by server shutdown";
+      job.finishedAt = new Date().toISOString();
+      await this.store.save(job);
+    }
+
+    if (interrupted.length > 0) {
+      logWarning(`Interrupted ${interrupted.length} jobs during shutdown`);
+    }
+  }
+
+  private drain(): void {
+    if (this.stopped) return;
+
+    while (this.running.size < this.concurrency && this.pending.length > 0) {
+      const id = this.pending.shift()!;
+      const controller = new AbortController();
+
+      // Jobs outlive the request that queued them, so they log under their own id
+      const finished = withLogContext({ requestId: undefined, jobId: id }, () =>
+        this.execute(id, controller.signal),
+      )
+        .catch((error) => logError(`Job ${id} crashed:`, error))
+        .finally(() => {
+          this.running.delete(id);
+          this.drain();
+        });
+      this.running.set(id, { controller, finished });
+    }
+  }
+
+  private async execute(id: string, signal: AbortSignal): Promise<void> {
+    const job = await this.store.get(id);
+    if (!job || job.state !== "queued") return;
+
+    job.state = "running";
+    job.startedAt = new Date().toISOString();
+    await this.store.save(job);
+
+    try {
+      if (job.type === "scrape") {
+        await this.runScrape(job, signal);
+      } else {
+        await this.runBatch(job, signal);
+      }
+
+      if (signal.aborted) {
+        logWarning(`Job ${id} stopped after cancellation`);
+        return;
+      }
+
+      job.state = job.progress.succeeded > 0 ? "done" : "failed";
+      if (job.state === "failed") {
+        job.error = job.result.failed[0]?.error || "All products failed";
+      }
+    } catch (error: any) {
+      if (signal.aborted) return;
+      job.state = "failed";
+      job.error = error instanceof AppError ? error.message : "Unexpected job error";
+      logError(`Job ${id} failed:`, error);
+    }
+
+    job.finishedAt = new Date().toISOString();
+    await this.store.save(job);
+
+    logInfo(
+      `Job ${id} ${job.state}: ${job.progress.succeeded}/${job.progress.total} succeeded`,
+    );
+  }
+
+  private async runScrape(job: Job, signal: AbortSignal): Promise<void> {
+    const { productUrl, useBrowser, options } = job.payload as ScrapeJobPayload;
+    const scrapeOptions = { ...options, signal };
+
+    try {
+      const data = useBrowser
+        ? await this.scraper.scrapeUsingBrowser(productUrl, scrapeOptions)
+        : await this.scraper.scrapeProduct(productUrl, scrapeOptions);
+      job.result.success.push(data);
+      job.progress.succeeded++;
+    } catch (error: any) {
+      job.result.failed.push({
+        url: productUrl,
+        error: error instanceof AppError ? error.message : "Unknown error",
+        code: error instanceof AppError ? error.code : "INTERNAL_ERROR",
+      });
+      job.progress.failed++;
+    }
+
+    job.progress.completed++;
+  }
+
+  private async runBatch(job: Job, signal: AbortSignal): Promise<void> {
+    const { productUrls, options = {} } = job.payload as BatchJobPayload;
+
+    await this.scraper.scrapeMultipleProducts(productUrls, {
+      ...options,
+      signal,
+      onResult: async (result) => {
+        // Cancelled; cancel() saves the final state
+        if (signal.aborted) return;
+
+        if (result.data) {
+          job.result.success.push(result.data);
+          job.progress.succeeded++;
+        } else {
+          job.result.failed.push({
+            url: result.url,
+            error: result.error || "Unknown error",
+            code: result.code ?? "INTERNAL_ERROR",
+          });
+          job.progress.failed++;
+        }
+        job.progress.completed++;
+
+        await this.store.save(job);
+      },
+    });
+  }
+}
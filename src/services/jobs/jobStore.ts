@@ -0,0 +1,196 @@
+import { promises as fs } from "fs";
+import path from "path";
+import type { BatchFailure, NaverProductData } from "../naver/naverScraper";
+import { logError } from "../../middleware/logger";
+import { config, JobsConfig } from "../../config";
+
+export type JobType = "scrape" | "batch";
+
+export type JobState = "queued" | "running" | "done" | "failed" | "cancelled";
+
+export interface JobProgress {
+  total: number;
+  completed: number;
+  succeeded: number;
+  failed: number;
+}
+
+export interface JobResult {
+  success: NaverProductData[];
+  failed: BatchFailure[];
+}
+
+export interface Job {
+  id: string;
+  type: JobType;
+  state: JobState;
+  payload: Record<string, any>;
+  progress: JobProgress;
+  result: JobResult;
+  error?: string;
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+}
+
+/**
+ * Storage backend for job records. Implementations only persist and load
+ * records; scheduling lives in JobQueue.
+ */
+export interface JobStore {
+  save(job: Job): Promise<void>;
+  get(id: string): Promise<Job | null>;
+  list(): Promise<Job[]>;
+  delete(id: string): Promise<void>;
+}
+
+const FINISHED_STATES: JobState[] = ["done", "failed", "cancelled"];
+
+/**
+ * Keeps jobs in process memory. Jobs are lost on restart, and only the
+ * `maxFinished` most recently finished jobs are kept.
+ */
+export class MemoryJobStore implements JobStore {
+  private jobs: Map<string, Job> = new Map();
+  // Finished job ids, oldest first
+  private finished: Set<string> = new Set();
+
+  constructor(private maxFinished: number = config.jobs.maxFinished) {}
+
+  async save(job: Job): Promise<void> {
+    // Store a copy so callers cannot mutate the stored record
+    this.jobs.set(job.id, JSON.parse(JSON.stringify(job)));
+
+    if (!FINISHED_STATES.includes(job.state)) return;
+
+    this.finished.delete(job.id);
+    this.finished.add(job.id);
+    for (const id of this.finished) {
+      if (this.finished.size <= this.maxFinished) break;
+      this.finished.delete(id);
+      this.jobs.delete(id);
+    }
+  }
+
+  async get(id: string): Promise<Job | null> {
+    const job = this.jobs.get(id);
+    return job ? JSON.parse(JSON.stringify(job)) : null;
+  }
+
+  async list(): Promise<Job[]> {
+    return [...this.jobs.values()].map((job) => JSON.parse(JSON.stringify(job)));
+  }
+
+  async delete(id: string): Promise<void> {
+    this.jobs.delete(id);
+    this.finished.delete(id);
+  }
+}
+
+/**
+ * Stores one JSON file per job in a directory, so finished jobs survive
+ * restarts. Only the `maxFinished` most recently finished jobs are kept.
+ */
+export class FileJobStore implements JobStore {
+  private directory: string;
+  private maxFinished: number;
+  private ready: Promise<void>;
+  // Pending write per job, so concurrent saves land in call order
+  private writes: Map<string, Promise<void>> = new Map();
+
+  constructor(directory: string, maxFinished: number = config.jobs.maxFinished) {
+    this.directory = directory;
+    this.maxFinished = maxFinished;
+    this.ready = fs.mkdir(directory, { recursive: true }).then(() => undefined);
+  }
+
+  async save(job: Job): Promise<void> {
+    await this.ready;
+    const target = this.filePath(job.id);
+    const temp = `${target}.tmp`;
+    const content = JSON.stringify(job);
+
+    // Write then rename so readers never see a half-written file
+    const previous = this.writes.get(job.id) || Promise.resolve();
+    const write = previous
+      .catch(() => undefined)
+      .then(async () => {
+        await fs.writeFile(temp, content, "utf8");
+        await fs.rename(temp, target);
+      });
+
+    this.writes.set(job.id, write);
+    try {
+      await write;
+    } finally {
+      if (this.writes.get(job.id) === write) {
+        this.writes.delete(job.id);
+      }
+    }
+
+    if (FINISHED_STATES.includes(job.state)) {
+      await this.prune();
+    }
+  }
+
+  async get(id: string): Promise<Job | null> {
+    await this.ready;
+    try {
+      const content = await fs.readFile(this.filePath(id), "utf8");
+      return JSON.parse(content) as Job;
+    } catch (error: any) {
+      if (error.code === "ENOENT") return null;
+      throw error;
+    }
+  }
+
+  async list(): Promise<Job[]> {
+    await this.ready;
+    const files = await fs.readdir(this.directory);
+    const jobs: Job[] = [];
+
+    for (const file of files) {
+      if (!file.endsWith(".json")) continue;
+      try {
+        const content = await fs.readFile(path.join(this.directory, file), "utf8");
+        jobs.push(JSON.parse(content) as Job);
+      } catch (error) {
+        logError(`Failed to read job file ${file}:`, error);
+      }
+    }
+
+    return jobs;
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.ready;
+    await fs.rm(this.filePath(id), { force: true });
+  }
+
+  /**
+   * Delete the oldest finished jobs beyond `maxFinished`
+   */
+  private async prune(): Promise<void> {
+    const finished = (await this.list())
+      .filter((job) => FINISHED_STATES.includes(job.state))
+      .sort((a, b) => (a.finishedAt ?? a.createdAt).localeCompare(b.finishedAt ?? b.createdAt));
+
+    for (const job of finished.slice(0, Math.max(0, finished.length - this.maxFinished))) {
+      await this.delete(job.id);
+    }
+  }
+
+  private filePath(id: string): string {
+    // Job ids are UUIDs; strip anything else to keep paths inside the directory
+    return path.join(this.directory, `${id.replace(/[^a-zA-Z0-9-]/g, "")}.json`);
+  }
+}
+
+/**
+ * Create the store selected by JOBS_STORE (memory or file)
+ */
+export function createJobStore(settings: JobsConfig = config.jobs): JobStore {
+  return settings.store === "file"
+    ? new FileJobStore(settings.storePath, settings.maxFinished)
+    : new MemoryJobStore(settings.maxFinished);
+}
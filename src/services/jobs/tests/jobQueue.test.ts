@@ -0,0 +1,141 @@
+import os from "os";
+import path from "path";
+import { promises as fs } from "fs";
+import { JobQueue } from "../jobQueue";
+import { FileJobStore, Job, MemoryJobStore } from "../jobStore";
+import { NaverScraper, NaverOptions, NaverProductData } from "../../naver/naverScraper";
+import { AppError } from "../../../middleware/errorHandler";
+import { check } from "../../../utils/tests/check";
+
+/**
+ * Test suite for the job queue: cancellation of running jobs, eviction of
+ * finished jobs and recovery of jobs left behind by a previous process
+ */
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Scraper double whose scrapes take `scrapeMs` unless aborted
+ */
+function slowScraper(scrapeMs: number) {
+  const aborted: string[] = [];
+
+  const scrape = (productUrl: string, options: NaverOptions) =>
+    new Promise<NaverProductData>((resolve, reject) => {
+      const timer = setTimeout(
+        () => resolve({ title: "Product", productId: "1", url: productUrl } as NaverProductData),
+        scrapeMs,
+      );
+      options.signal?.addEventListener("abort", () => {
+        clearTimeout(timer);
+        aborted.push(productUrl);
+        reject(new AppError("Request cancelled", 499, { code: "REQUEST_CANCELLED" }));
+      });
+    });
+
+  const scraper = {
+    scrapeProduct: scrape,
+    scrapeUsingBrowser: scrape,
+  } as unknown as NaverScraper;
+
+  return { scraper, aborted };
+}
+
+async function runTests() {
+  // Test cancellation
+  console.log("=== Testing cancellation ===");
+
+  {
+    const { scraper, aborted } = slowScraper(5000);
+    const queue = new JobQueue(scraper, new MemoryJobStore());
+
+    const job = await queue.enqueue("scrape", { productUrl: "https://smartstore.naver.com/store/products/1" });
+    await sleep(20);
+    check("Job running", (await queue.get(job.id))?.state === "running");
+
+    const started = Date.now();
+    const cancelled = await queue.cancel(job.id);
+    check("Running scrape aborted", aborted.length === 1 && Date.now() - started < 1000, aborted);
+    check("Cancelled state returned", cancelled.state === "cancelled" && cancelled.finishedAt !== undefined, cancelled);
+    check("Cancelled state saved", (await queue.get(job.id))?.state === "cancelled");
+    check("Runner released", queue.getStats().running === 0, queue.getStats());
+
+    const again = await queue.cancel(job.id).catch((error) => error);
+    check("Cancelling twice is CONFLICT", again instanceof AppError && again.code === "CONFLICT", again?.message);
+  }
+
+  // Test eviction
+  console.log("\n=== Testing eviction ===");
+
+  {
+    const { scraper } = slowScraper(1);
+    const store = new MemoryJobStore(2);
+    const queue = new JobQueue(scraper, store);
+
+    const ids: string[] = [];
+    for (let i = 0; i < 3; i++) {
+      ids.push((await queue.enqueue("scrape", { productUrl: `https://smartstore.naver.com/store/products/${i}` })).id);
+      await sleep(30);
+    }
+
+    check("Finished jobs capped", (await store.list()).length === 2, (await store.list()).length);
+    check("Oldest finished job dropped", (await store.get(ids[0]!)) === null && (await store.get(ids[2]!))?.state === "done");
+  }
+
+  const directory = await fs.mkdtemp(path.join(os.tmpdir(), "jobs-"));
+  try {
+    {
+      const { scraper } = slowScraper(1);
+      const store = new FileJobStore(directory, 2);
+      const queue = new JobQueue(scraper, store);
+
+      const ids: string[] = [];
+      for (let i = 0; i < 3; i++) {
+        ids.push((await queue.enqueue("scrape", { productUrl: `https://smartstore.naver.com/store/products/${i}` })).id);
+        await sleep(50);
+      }
+
+      check("File store caps finished jobs", (await fs.readdir(directory)).length === 2, await fs.readdir(directory));
+      check("File store drops the oldest", (await store.get(ids[0]!)) === null && (await store.get(ids[2]!))?.state === "done");
+    }
+
+    // Test recovery
+    console.log("\n=== Testing recovery after restart ===");
+
+    {
+      const left = (state: Job["state"]): Job => ({
+        id: `00000000-0000-0000-0000-00000000000${state === "queued" ? 1 : 2}`,
+        type: "scrape",
+        state,
+        payload: {},
+        progress: { total: 1, completed: 0, succeeded: 0, failed: 0 },
+        result: { success: [], failed: [] },
+        createdAt: new Date().toISOString(),
+      });
+      const store = new FileJobStore(directory, 10);
+      await store.save(left("queued"));
+      await store.save(left("running"));
+
+      const { scraper } = slowScraper(1);
+      const queue = new JobQueue(scraper, new FileJobStore(directory, 10));
+      const recovered = await queue.recover();
+
+      const jobs = await store.list();
+      const orphans = jobs.filter((job) => job.id.startsWith("00000000"));
+      check("Orphaned jobs counted", recovered === 2, recovered);
+      check(
+        "Orphaned jobs marked failed",
+        orphans.length === 2 && orphans.every((job) => job.state === "failed" && job.error === "Interrupted by server restart"),
+        orphans,
+      );
+      check("Finished jobs untouched", jobs.filter((job) => job.state === "done").length === 2, jobs.map((job) => job.state));
+    }
+  } finally {
+    await fs.rm(directory, { recursive: true, force: true });
+  }
+}
+
+runTests().catch((error) => {
+  console.error("Test run failed:", error);
+  process.exit(1);
+});
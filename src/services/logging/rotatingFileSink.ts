@@ -0,0 +1,68 @@
+import fs from "fs";
+import path from "path";
+
+export interface RotatingFileSinkOptions {
+  path: string;
+  // Rotate once the current file would grow past this size
+  maxBytes: number;
+  // Rotated files kept next to the live one (app.log.1 … app.log.N)
+  maxFiles: number;
+}
+
+/**
+ * Appends log lines to a file, rotating it by size. Writes are synchronous
+ * so lines land in order and nothing is lost when the process exits.
+ */
+export class RotatingFileSink {
+  private fd: number | null = null;
+  private size = 0;
+
+  constructor(private options: RotatingFileSinkOptions) {
+    fs.mkdirSync(path.dirname(options.path), { recursive: true });
+    this.open();
+  }
+
+  write(line: string): void {
+    const bytes = Buffer.byteLength(line);
+
+    if (this.size > 0 && this.size + bytes > this.options.maxBytes) {
+      this.rotate();
+    }
+    if (this.fd === null) return;
+
+    fs.writeSync(this.fd, line);
+    this.size += bytes;
+  }
+
+  close(): void {
+    if (this.fd === null) return;
+    fs.closeSync(this.fd);
+    this.fd = null;
+  }
+
+  private open(): void {
+    this.fd = fs.openSync(this.options.path, "a");
+    this.size = fs.fstatSync(this.fd).size;
+  }
+
+  private rotate(): void {
+    this.close();
+
+    const { path: live, maxFiles } = this.options;
+
+    // Shift app.log.N-1 → app.log.N, dropping the oldest
+    fs.rmSync(`${live}.${maxFiles}`, { force: true });
+    for (let index = maxFiles - 1; index >= 1; index--) {
+      if (fs.existsSync(`${live}.${index}`)) {
+        fs.renameSync(`${live}.${index}`, `${live}.${index + 1}`);
+      }
+    }
+    if (maxFiles > 0) {
+      fs.renameSync(live, `${live}.1`);
+    } else {
+      fs.rmSync(live, { force: true });
+    }
+
+    this.open();
+  }
+}
@@ -0,0 +1,251 @@
+/**
+ * Minimal in-process metrics in the Prometheus text exposition format.
+ * Only counters, gauges and histograms with fixed label names are supported.
+ */
+
+type Labels = Record<string, string | number>;
+
+const escapeLabel = (value: string): string =>
+  value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+
+const formatLabels = (names: string[], values: string[], extra = ""): string => {
+  const pairs = names.map((name, index) => `${name}="${escapeLabel(values[index] ?? "")}"`);
+  if (extra) pairs.push(extra);
+  return pairs.length > 0 ? `{${pairs.join(",")}}` : "";
+};
+
+const formatValue = (value: number): string => {
+  if (value === Infinity) return "+Inf";
+  if (value === -Infinity) return "-Inf";
+  return String(value);
+};
+
+abstract class Metric {
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly labelNames: string[],
+  ) {}
+
+  protected key(labels: Labels): string[] {
+    return this.labelNames.map((name) => String(labels[name] ?? ""));
+  }
+
+  protected header(type: string): string[] {
+    return [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} ${type}`];
+  }
+
+  abstract render(): string[];
+  abstract reset(): void;
+}
+
+export class Counter extends Metric {
+  private values: Map<string, { labels: string[]; value: number }> = new Map();
+
+  inc(labels: Labels = {}, value: number = 1): void {
+    const labelValues = this.key(labels);
+    const id = labelValues.join("\u0000");
+    const entry = this.values.get(id) || { labels: labelValues, value: 0 };
+    entry.value += value;
+    this.values.set(id, entry);
+  }
+
+  get(labels: Labels = {}): number {
+    return this.values.get(this.key(labels).join("\u0000"))?.value ?? 0;
+  }
+
+  render(): string[] {
+    const lines = this.header("counter");
+    for (const { labels, value } of this.values.values()) {
+      lines.push(`${this.name}${formatLabels(this.labelNames, labels)} ${formatValue(value)}`);
+    }
+    return lines;
+  }
+
+  reset(): void {
+    this.values.clear();
+  }
+}
+
+export class Gauge extends Metric {
+  private values: Map<string, { labels: string[]; value: number }> = new Map();
+  private collector?: (gauge: Gauge) => void;
+
+  set(labels: Labels, value: number): void {
+    const labelValues = this.key(labels);
+    this.values.set(labelValues.join("\u0000"), { labels: labelValues, value });
+  }
+
+  get(labels: Labels = {}): number | undefined {
+    return this.values.get(this.key(labels).join("\u0000"))?.value;
+  }
+
+  /**
+   * Refresh the gauge from its source right before each render
+   */
+  collect(collector: (gauge: Gauge) => void): void {
+    this.collector = collector;
+  }
+
+  render(): string[] {
+    if (this.collector) {
+      this.values.clear();
+      this.collector(this);
+    }
+
+    const lines = this.header("gauge");
+    for (const { labels, value } of this.values.values()) {
+      lines.push(`${this.name}${formatLabels(this.labelNames, labels)} ${formatValue(value)}`);
+    }
+    return lines;
+  }
+
+  reset(): void {
+    this.values.clear();
+  }
+}
+
+export class Histogram extends Metric {
+  private series: Map<
+    string,
+    { labels: string[]; buckets: number[]; sum: number; count: number }
+  > = new Map();
+
+  constructor(
+    name: string,
+    help: string,
+    labelNames: string[],
+    readonly buckets: number[],
+  ) {
+    super(name, help, labelNames);
+  }
+
+  observe(labels: Labels, value: number): void {
+    const labelValues = this.key(labels);
+    const id = labelValues.join("\u0000");
+
+    let entry = this.series.get(id);
+    if (!entry) {
+      entry = { labels: labelValues, buckets: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.series.set(id, entry);
+    }
+
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) entry!.buckets[index]!++;
+    });
+    entry.sum += value;
+    entry.count++;
+  }
+
+  /**
+   * Start timing; call the returned function with the final labels to
+   * record the elapsed seconds
+   */
+  startTimer(): (labels: Labels) => number {
+    const start = process.hrtime.bigint();
+    return (labels) => {
+      const seconds = Number(process.hrtime.bigint() - start) / 1e9;
+      this.observe(labels, seconds);
+      return seconds;
+    };
+  }
+
+  getCount(labels: Labels = {}): number {
+    return this.series.get(this.key(labels).join("\u0000"))?.count ?? 0;
+  }
+
+  render(): string[] {
+    const lines = this.header("histogram");
+    for (const { labels, buckets, sum, count } of this.series.values()) {
+      this.buckets.forEach((bound, index) => {
+        const le = `le="${formatValue(bound)}"`;
+        lines.push(
+          `${this.name}_bucket${formatLabels(this.labelNames, labels, le)} ${buckets[index]}`,
+        );
+      });
+      lines.push(`${this.name}_bucket${formatLabels(this.labelNames, labels, 'le="+Inf"')} ${count}`);
+      lines.push(`${this.name}_sum${formatLabels(this.labelNames, labels)} ${formatValue(sum)}`);
+      lines.push(`${this.name}_count${formatLabels(this.labelNames, labels)} ${count}`);
+    }
+    return lines;
+  }
+
+  reset(): void {
+    this.series.clear();
+  }
+}
+
+export class MetricsRegistry {
+  private metrics: Map<string, Metric> = new Map();
+
+  counter(name: string, help: string, labelNames: string[] = []): Counter {
+    return this.register(new Counter(name, help, labelNames));
+  }
+
+  gauge(name: string, help: string, labelNames: string[] = []): Gauge {
+    return this.register(new Gauge(name, help, labelNames));
+  }
+
+  histogram(name: string, help: string, labelNames: string[], buckets: number[]): Histogram {
+    return this.register(new Histogram(name, help, labelNames, [...buckets].sort((a, b) => a - b)));
+  }
+
+  /**
+   * Every metric in the Prometheus text format
+   */
+  render(): string {
+    const blocks = [...this.metrics.values()].map((metric) => metric.render().join("\n"));
+    return blocks.join("\n") + "\n";
+  }
+
+  reset(): void {
+    for (const metric of this.metrics.values()) {
+      metric.reset();
+    }
+  }
+
+  private register<T extends Metric>(metric: T): T {
+    if (this.metrics.has(metric.name)) {
+      throw new Error(`Metric ${metric.name} is already registered`);
+    }
+    this.metrics.set(metric.name, metric);
+    return metric;
+  }
+}
+
+export const PROMETHEUS_CONTENT_TYPE = "text/plain; version=0.0.4; charset=utf-8";
+
+// Shared registry exposed on GET /metrics
+export const metrics = new MetricsRegistry();
+
+/**
+ * Metrics recorded by the scraping pipeline
+ */
+export const scraperMetrics = {
+  scrapes: metrics.counter(
+    "naver_scrapes_total",
+    "Product scrapes by method and outcome",
+    ["method", "outcome"],
+  ),
+  fetchDuration: metrics.histogram(
+    "naver_fetch_duration_seconds",
+    "Latency of product page HTTP requests by response status",
+    ["status"],
+    [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30],
+  ),
+  fetchRetries: metrics.counter(
+    "naver_fetch_retries_total",
+    "Product page fetch attempts retried, by reason",
+    ["reason"],
+  ),
+  parserFields: metrics.counter(
+    "naver_parser_fields_total",
+    "Parsed product fields by source; source=\"missing\" when no extractor found the field",
+    ["field", "source"],
+  ),
+  cacheRequests: metrics.counter(
+    "naver_cache_requests_total",
+    "Product cache lookups by result",
+    ["status"],
+  ),
+};
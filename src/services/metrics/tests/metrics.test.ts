@@ -0,0 +1,74 @@
+import { readFileSync } from "fs";
+import { join } from "path";
+import { MetricsRegistry, scraperMetrics, metrics } from "../metrics";
+import { ProductParser } from "../../naver/components/parser";
+import { NaverScraper } from "../../naver/naverScraper";
+import { AppError } from "../../../middleware/errorHandler";
+import { check } from "../../../utils/tests/check";
+
+/**
+ * Test suite for the metrics registry, its Prometheus rendering and the
+ * scraper instrumentation
+ */
+
+// Test rendering
+console.log("=== Testing Prometheus rendering ===");
+
+const registry = new MetricsRegistry();
+const requests = registry.counter("test_requests_total", "Requests", ["route"]);
+const latency = registry.histogram("test_latency_seconds", "Latency", ["route"], [1, 0.1, 0.5]);
+const pool = registry.gauge("test_pool_busy", "Busy slots");
+
+requests.inc({ route: "/naver" });
+requests.inc({ route: "/naver" }, 2);
+requests.inc({ route: 'say "hi"\n' });
+latency.observe({ route: "/naver" }, 0.05);
+latency.observe({ route: "/naver" }, 0.7);
+latency.observe({ route: "/naver" }, 3);
+pool.collect((gauge) => gauge.set({}, 4));
+
+const output = registry.render();
+
+check("HELP and TYPE lines", output.includes("# HELP test_requests_total Requests\n# TYPE test_requests_total counter"), output);
+check("Counter accumulates", output.includes('test_requests_total{route="/naver"} 3'), output);
+check("Label values escaped", output.includes('test_requests_total{route="say \\"hi\\"\\n"} 1'), output);
+check("Buckets sorted and cumulative", output.includes('test_latency_seconds_bucket{route="/naver",le="0.1"} 1') &&
+  output.includes('test_latency_seconds_bucket{route="/naver",le="0.5"} 1') &&
+  output.includes('test_latency_seconds_bucket{route="/naver",le="1"} 2'), output);
+check("+Inf bucket equals count", output.includes('le="+Inf"} 3') && output.includes('test_latency_seconds_count{route="/naver"} 3'), output);
+check("Histogram sum", output.includes('test_latency_seconds_sum{route="/naver"} 3.75'), output);
+check("Gauge collected on render", output.includes("test_pool_busy 4"), output);
+
+let duplicate = false;
+try {
+  registry.counter("test_requests_total", "Again");
+} catch {
+  duplicate = true;
+}
+check("Duplicate names rejected", duplicate);
+
+// Test outcome classification
+console.log("\n=== Testing scrape outcome labels ===");
+
+check("403 is forbidden", NaverScraper.classifyOutcome(new AppError("Access forbidden", 403), "fetch") === "forbidden");
+check("404 is not found", NaverScraper.classifyOutcome(new AppError("Product not found", 404), "fetch") === "not_found");
+check("429 is rate limited", NaverScraper.classifyOutcome(new AppError("Too many requests", 429), "fetch") === "rate_limited");
+check("408 is timeout", NaverScraper.classifyOutcome(new AppError("Request timeout", 408), "fetch") === "timeout");
+check("Browser timeout is timeout", NaverScraper.classifyOutcome(Object.assign(new Error("waiting"), { name: "TimeoutError" }), "fetch") === "timeout");
+check("Missing title while parsing is a parse failure", NaverScraper.classifyOutcome(new AppError("Product title not found", 404), "parse") === "parse_failure");
+check("Cancellation", NaverScraper.classifyOutcome(new AppError("Request cancelled", 499), "parse") === "cancelled");
+check("Anything else is an error", NaverScraper.classifyOutcome(new Error("boom"), "fetch") === "error");
+
+// Test parser field hit counting
+console.log("\n=== Testing parser field hits ===");
+
+metrics.reset();
+const html = readFileSync(join(__dirname, "../../naver/components/tests/fixtures/productPage.html"), "utf8");
+ProductParser.parseProductData(html, "https://smartstore.naver.com/minibeans/products/4256805008");
+
+check("Title hit recorded by source", scraperMetrics.parserFields.get({ field: "title", source: "meta" }) === 1);
+check("Fallback fields recorded", scraperMetrics.parserFields.get({ field: "brand", source: "fallback" }) === 1);
+
+const rendered = metrics.render();
+const fieldLines = rendered.split("\n").filter((line) => line.startsWith("naver_parser_fields_total{"));
+check("Every field counted once per parse", fieldLines.length === 14, fieldLines);
@@ -0,0 +1,358 @@
+import { logInfo, logWarning } from "../../../middleware/logger";
+
+export type DiscountType = "fixed" | "percent";
+
+export interface ProductCoupon {
+  id: string;
+  name: string;
+  scope: "store" | "product";
+  discountType: DiscountType;
+  discountValue: number;
+  maxDiscount?: number;
+  minOrderAmount?: number;
+  expiresAt?: string;
+  downloadable: boolean;
+}
+
+export interface CardDiscount {
+  cardName: string;
+  discountType: DiscountType;
+  discountValue: number;
+  maxDiscount?: number;
+  minOrderAmount?: number;
+  expiresAt?: string;
+}
+
+export interface PointAccrual {
+  name: string;
+  rate?: number;
+  amount?: number;
+}
+
+export interface BestPrice {
+  price: number;
+  totalDiscount: number;
+  appliedCoupons: string[];
+  appliedCardDiscount?: string;
+  expectedPoints: number;
+}
+
+export interface ProductBenefits {
+  storeCoupons: ProductCoupon[];
+  productCoupons: ProductCoupon[];
+  cardDiscounts: CardDiscount[];
+  points: PointAccrual[];
+  totalPointRate: number;
+  bestPrice?: BestPrice;
+}
+
+/**
+ * Coupon entry as found in the `/benefits/by-product` response
+ */
+interface CouponJson {
+  couponId?: number | string;
+  couponNo?: number | string;
+  couponName?: string;
+  name?: string;
+  couponKind?: string;
+  issueTarget?: string;
+  benefitUnitType?: string;
+  benefitValue?: number;
+  maxDiscountAmount?: number;
+  minOrderAmount?: number;
+  minPurchaseAmount?: number;
+  usableEndDate?: string;
+  validEndDate?: string;
+  downloadable?: boolean;
+}
+
+interface CardJson {
+  cardCompanyName?: string;
+  cardName?: string;
+  benefitUnitType?: string;
+  benefitValue?: number;
+  discountRate?: number;
+  discountAmount?: number;
+  maxDiscountAmount?: number;
+  minOrderAmount?: number;
+  endDate?: string;
+  validEndDate?: string;
+}
+
+interface PointJson {
+  pointName?: string;
+  name?: string;
+  pointType?: string;
+  rate?: number;
+  pointRate?: number;
+  amount?: number;
+  pointAmount?: number;
+}
+
+/**
+ * Subset of the `/benefits/by-product` payload that we rely on. Naver has
+ * shipped both a flat `coupons` list tagged by `couponKind` and separate
+ * store/product lists, so both shapes are accepted.
+ */
+export interface BenefitsJson {
+  coupons?: CouponJson[];
+  downloadCoupons?: CouponJson[];
+  storeCoupons?: CouponJson[];
+  productCoupons?: CouponJson[];
+  cardPromotions?: CardJson[];
+  cardBenefits?: CardJson[];
+  points?: PointJson[];
+  pointBenefits?: PointJson[];
+}
+
+export class BenefitsMapper {
+  // Coupon kinds that apply to the whole store rather than one product
+  private static readonly STORE_COUPON_KINDS = ["STORE", "CHANNEL", "SELLER"];
+
+  /**
+   * Map the captured benefits API payload into ProductBenefits
+   */
+  static mapBenefitsJson(json: BenefitsJson | null | undefined): ProductBenefits {
+    const benefits: ProductBenefits = {
+      storeCoupons: [],
+      productCoupons: [],
+      cardDiscounts: [],
+      points: [],
+      totalPointRate: 0,
+    };
+
+    if (!json || typeof json !== "object") {
+      logWarning("Benefits API response is empty or malformed");
+      return benefits;
+    }
+
+    const taggedCoupons = [...(json.coupons || []), ...(json.downloadCoupons || [])];
+    for (const raw of taggedCoupons) {
+      const kind = (raw.couponKind || raw.issueTarget || "").toUpperCase();
+      const scope = BenefitsMapper.STORE_COUPON_KINDS.includes(kind)
+        ? "store"
+        : "product";
+      const coupon = this.mapCoupon(raw, scope);
+      if (coupon) {
+        (scope === "store" ? benefits.storeCoupons : benefits.productCoupons).push(coupon);
+      }
+    }
+
+    for (const raw of json.storeCoupons || []) {
+      const coupon = this.mapCoupon(raw, "store");
+      if (coupon) benefits.storeCoupons.push(coupon);
+    }
+
+    for (const raw of json.productCoupons || []) {
+      const coupon = this.mapCoupon(raw, "product");
+      if (coupon) benefits.productCoupons.push(coupon);
+    }
+
+    for (const raw of [...(json.cardPromotions || []), ...(json.cardBenefits || [])]) {
+      const card = this.mapCardDiscount(raw);
+      if (card) benefits.cardDiscounts.push(card);
+    }
+
+    for (const raw of [...(json.points || []), ...(json.pointBenefits || [])]) {
+      const point = this.mapPoint(raw);
+      if (point) benefits.points.push(point);
+    }
+
+    benefits.totalPointRate = benefits.points.reduce(
+      (sum, point) => sum + (point.rate ?? 0),
+      0,
+    );
+
+    logInfo(
+      `Mapped benefits: ${benefits.storeCoupons.length} store coupons, ` +
+        `${benefits.productCoupons.length} product coupons, ` +
+        `${benefits.cardDiscounts.length} card discounts`,
+    );
+
+    return benefits;
+  }
+
+  /**
+   * Compute the lowest checkout price reachable with the available benefits.
+   * One product coupon and one store coupon can be stacked, followed by a
+   * single card discount. Points are reported but not deducted since they
+   * are only credited after purchase.
+   */
+  static calculateBestPrice(
+    basePrice: number,
+    benefits: ProductBenefits,
+    now: Date = new Date(),
+  ): BestPrice {
+    const appliedCoupons: string[] = [];
+    let price = basePrice;
+
+    const productCoupon = this.pickBestDiscount(benefits.productCoupons, price, now);
+    if (productCoupon) {
+      price -= productCoupon.amount;
+      appliedCoupons.push(productCoupon.item.name);
+    }
+
+    // Store coupons are checked against the order amount before coupons
+    const storeCoupon = this.pickBestDiscount(benefits.storeCoupons, basePrice, now, price);
+    if (storeCoupon) {
+      price -= storeCoupon.amount;
+      appliedCoupons.push(storeCoupon.item.name);
+    }
+
+    let appliedCardDiscount: string | undefined;
+    const card = this.pickBestDiscount(benefits.cardDiscounts, price, now);
+    if (card) {
+      price -= card.amount;
+      appliedCardDiscount = card.item.cardName;
+    }
+
+    price = Math.max(0, Math.round(price));
+
+    return {
+      price,
+      totalDiscount: basePrice - price,
+      appliedCoupons,
+      appliedCardDiscount,
+      expectedPoints: this.calculatePoints(price, benefits.points),
+    };
+  }
+
+  /**
+   * Discount a single benefit grants on the given amount
+   */
+  static calculateDiscount(
+    benefit: Pick<ProductCoupon, "discountType" | "discountValue" | "maxDiscount" | "minOrderAmount" | "expiresAt">,
+    orderAmount: number,
+    now: Date = new Date(),
+  ): number {
+    if (benefit.minOrderAmount && orderAmount < benefit.minOrderAmount) {
+      return 0;
+    }
+
+    if (benefit.expiresAt) {
+      const expiry = new Date(benefit.expiresAt);
+      if (!isNaN(expiry.getTime()) && expiry < now) {
+        return 0;
+      }
+    }
+
+    let discount =
+      benefit.discountType === "percent"
+        ? Math.floor((orderAmount * benefit.discountValue) / 100)
+        : benefit.discountValue;
+
+    if (benefit.maxDiscount) {
+      discount = Math.min(discount, benefit.maxDiscount);
+    }
+
+    return Math.max(0, Math.min(discount, orderAmount));
+  }
+
+  private static pickBestDiscount<T extends CardDiscount | ProductCoupon>(
+    candidates: T[],
+    qualifyingAmount: number,
+    now: Date,
+    discountableAmount: number = qualifyingAmount,
+  ): { item: T; amount: number } | null {
+    let best: { item: T; amount: number } | null = null;
+
+    for (const item of candidates) {
+      if (item.minOrderAmount && qualifyingAmount < item.minOrderAmount) {
+        continue;
+      }
+
+      const amount = this.calculateDiscount(
+        { ...item, minOrderAmount: undefined },
+        discountableAmount,
+        now,
+      );
+      if (amount > 0 && (!best || amount > best.amount)) {
+        best = { item, amount };
+      }
+    }
+
+    return best;
+  }
+
+  private static calculatePoints(price: number, points: PointAccrual[]): number {
+    return points.reduce((sum, point) => {
+      if (point.rate) {
+        return sum + Math.floor((price * point.rate) / 100);
+      }
+      return sum + (point.amount ?? 0);
+    }, 0);
+  }
+
+  private static mapCoupon(
+    raw: CouponJson,
+    scope: ProductCoupon["scope"],
+  ): ProductCoupon | null {
+    const discountValue = raw.benefitValue;
+    if (!discountValue || discountValue <= 0) {
+      return null;
+    }
+
+    const id = raw.couponId ?? raw.couponNo;
+
+    return {
+      id: id !== undefined ? String(id) : "",
+      name: raw.couponName || raw.name || "",
+      scope,
+      discountType: this.mapDiscountType(raw.benefitUnitType),
+      discountValue,
+      maxDiscount: raw.maxDiscountAmount || undefined,
+      minOrderAmount: raw.minOrderAmount ?? raw.minPurchaseAmount ?? undefined,
+      expiresAt: raw.usableEndDate || raw.validEndDate || undefined,
+      downloadable: raw.downloadable ?? true,
+    };
+  }
+
+  private static mapCardDiscount(raw: CardJson): CardDiscount | null {
+    let discountType: DiscountType;
+    let discountValue: number | undefined;
+
+    if (raw.benefitValue) {
+      discountType = this.mapDiscountType(raw.benefitUnitType);
+      discountValue = raw.benefitValue;
+    } else if (raw.discountRate) {
+      discountType = "percent";
+      discountValue = raw.discountRate;
+    } else {
+      discountType = "fixed";
+      discountValue = raw.discountAmount;
+    }
+
+    if (!discountValue || discountValue <= 0) {
+      return null;
+    }
+
+    return {
+      cardName: raw.cardCompanyName || raw.cardName || "",
+      discountType,
+      discountValue,
+      maxDiscount: raw.maxDiscountAmount || undefined,
+      minOrderAmount: raw.minOrderAmount || undefined,
+      expiresAt: raw.endDate || raw.validEndDate || undefined,
+    };
+  }
+
+  private static mapPoint(raw: PointJson): PointAccrual | null {
+    const rate = raw.rate ?? raw.pointRate;
+    const amount = raw.amount ?? raw.pointAmount;
+
+    if (!rate && !amount) {
+      return null;
+    }
+
+    return {
+      name: raw.pointName || raw.name || raw.pointType || "",
+      rate: rate || undefined,
+      amount: amount || undefined,
+    };
+  }
+
+  private static mapDiscountType(unitType?: string): DiscountType {
+    const normalized = (unitType || "").toUpperCase();
+    return normalized === "RATE" || normalized === "PERCENT" ? "percent" : "fixed";
+  }
+}
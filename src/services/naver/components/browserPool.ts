@@ -0,0 +1,408 @@
+import { BrowserContext, Page } from "playwright";
+import { StealthBrowser } from "./stealth";
+import { AppError } from "../../../middleware/errorHandler";
+import { logInfo, logError, logWarning } from "../../../middleware/logger";
+import { config } from "../../../config";
+
+export interface BrowserPoolOptions {
+  browsers?: number;
+  contextsPerBrowser?: number;
+  // Pages a browser serves before it is replaced
+  recycleAfter?: number;
+  // How long a caller may wait for a free page
+  acquireTimeoutMs?: number;
+  // How long a caller may hold a page before it is closed under them
+  leaseTimeoutMs?: number;
+  healthCheckIntervalMs?: number;
+  createBrowser?: () => StealthBrowser;
+}
+
+export interface BrowserPoolStats {
+  started: boolean;
+  browsers: number;
+  slots: number;
+  busy: number;
+  waiting: number;
+  pagesServed: number;
+  recycled: number;
+  leaseTimeouts: number;
+}
+
+export interface PageLease {
+  page: Page;
+  release: () => Promise<void>;
+}
+
+interface PooledBrowser {
+  id: number;
+  browser: StealthBrowser;
+  pagesServed: number;
+  // No new leases; replaced once its current leases are released
+  retiring: boolean;
+}
+
+interface ContextSlot {
+  owner: PooledBrowser;
+  context: BrowserContext | null;
+  busy: boolean;
+}
+
+interface Waiter {
+  resolve: (slot: ContextSlot) => void;
+  reject: (error: AppError) => void;
+  timer: NodeJS.Timeout;
+}
+
+/**
+ * Long-lived pool of stealth browsers. Each browser holds a fixed number of
+ * contexts and each context serves one page at a time, so the pool never runs
+ * more than `browsers * contextsPerBrowser` pages.
+ */
+export class BrowserPool {
+  private static readonly DEFAULT_BROWSERS = 1;
+  private static readonly DEFAULT_CONTEXTS = 2;
+  private static readonly DEFAULT_RECYCLE_AFTER = 50;
+  private static readonly DEFAULT_ACQUIRE_TIMEOUT = 30000; // 30 seconds
+  private static readonly DEFAULT_LEASE_TIMEOUT = 60000; // 60 seconds
+  private static readonly DEFAULT_HEALTH_CHECK_INTERVAL = 60000; // 60 seconds
+
+  private options: Required<BrowserPoolOptions>;
+  private browsers: PooledBrowser[] = [];
+  private slots: ContextSlot[] = [];
+  private waiters: Waiter[] = [];
+  private leaseTimers: Set<NodeJS.Timeout> = new Set();
+  private healthTimer: NodeJS.Timeout | null = null;
+  private starting: Promise<void> | null = null;
+  private closed = false;
+  private nextId = 1;
+  private launching = 0;
+
+  private pagesServed = 0;
+  private recycled = 0;
+  private leaseTimeouts = 0;
+
+  constructor(options: BrowserPoolOptions = {}) {
+    this.options = {
+      browsers: Math.max(1, options.browsers ?? BrowserPool.DEFAULT_BROWSERS),
+      contextsPerBrowser: Math.max(
+        1,
+        options.contextsPerBrowser ?? BrowserPool.DEFAULT_CONTEXTS,
+      ),
+      recycleAfter: options.recycleAfter ?? BrowserPool.DEFAULT_RECYCLE_AFTER,
+      acquireTimeoutMs: options.acquireTimeoutMs ?? BrowserPool.DEFAULT_ACQUIRE_TIMEOUT,
+      leaseTimeoutMs: options.leaseTimeoutMs ?? BrowserPool.DEFAULT_LEASE_TIMEOUT,
+      healthCheckIntervalMs:
+        options.healthCheckIntervalMs ?? BrowserPool.DEFAULT_HEALTH_CHECK_INTERVAL,
+      createBrowser: options.createBrowser ?? (() => new StealthBrowser()),
+    };
+  }
+
+  /**
+   * Launch the browsers and begin health checks. Safe to call repeatedly.
+   */
+  start(): Promise<void> {
+    if (this.closed) {
+      return Promise.reject(new AppError("Browser pool is shut down", 503, { code: "SERVICE_UNAVAILABLE" }));
+    }
+    if (this.starting) return this.starting;
+
+    this.starting = (async () => {
+      logInfo(
+        `Starting browser pool: ${this.options.browsers} browsers x ${this.options.contextsPerBrowser} contexts`,
+      );
+
+      const launched = [];
+      for (let i = 0; i < this.options.browsers; i++) {
+        launched.push(this.launch());
+      }
+      await Promise.allSettled(launched);
+
+      if (this.browsers.length === 0) {
+        // Let the next caller try again instead of failing forever
+        this.starting = null;
+        throw new AppError("Browser unavailable", 503, { code: "BROWSER_UNAVAILABLE" });
+      }
+
+      if (!this.healthTimer && this.options.healthCheckIntervalMs > 0) {
+        this.healthTimer = setInterval(
+          () => this.checkHealth(),
+          this.options.healthCheckIntervalMs,
+        );
+        this.healthTimer.unref();
+      }
+    })();
+
+    return this.starting;
+  }
+
+  /**
+   * Lease a fresh page. The caller must release it; a lease held longer than
+   * the lease timeout is closed and its slot reclaimed.
+   */
+  async acquire(): Promise<PageLease> {
+    await this.start();
+
+    const slot = await this.takeSlot();
+    let page: Page;
+
+    try {
+      if (!slot.context) {
+        slot.context = await slot.owner.browser.newContext();
+      }
+      page = await slot.context.newPage();
+    } catch (error) {
+      logError(`Browser ${slot.owner.id} failed to open a page:`, error);
+      slot.owner.retiring = true;
+      await this.releaseSlot(slot);
+      throw new AppError("Browser unavailable", 503, { code: "BROWSER_UNAVAILABLE" });
+    }
+
+    slot.owner.pagesServed++;
+    this.pagesServed++;
+
+    let released = false;
+    const release = async () => {
+      if (released) return;
+      released = true;
+      clearTimeout(timer);
+      this.leaseTimers.delete(timer);
+      await page.close().catch(() => undefined);
+      await this.releaseSlot(slot);
+    };
+
+    const timer = setTimeout(() => {
+      this.leaseTimeouts++;
+      logWarning(
+        `Page lease on browser ${slot.owner.id} exceeded ${this.options.leaseTimeoutMs}ms, closing it`,
+      );
+      release().catch((error) => logError("Failed to reclaim page lease:", error));
+    }, this.options.leaseTimeoutMs);
+    this.leaseTimers.add(timer);
+
+    return { page, release };
+  }
+
+  /**
+   * Run a callback with a leased page, releasing it afterwards
+   */
+  async withPage<T>(callback: (page: Page) => Promise<T>): Promise<T> {
+    const lease = await this.acquire();
+    try {
+      return await callback(lease.page);
+    } finally {
+      await lease.release();
+    }
+  }
+
+  getStats(): BrowserPoolStats {
+    return {
+      started: this.starting !== null && !this.closed,
+      browsers: this.browsers.length,
+      slots: this.slots.length,
+      busy: this.slots.filter((slot) => slot.busy).length,
+      waiting: this.waiters.length,
+      pagesServed: this.pagesServed,
+      recycled: this.recycled,
+      leaseTimeouts: this.leaseTimeouts,
+    };
+  }
+
+  /**
+   * Stop health checks, fail waiting callers and close every browser
+   */
+  async close(): Promise<void> {
+    if (this.closed) return;
+    this.closed = true;
+
+    if (this.healthTimer) {
+      clearInterval(this.healthTimer);
+      this.healthTimer = null;
+    }
+
+    // Pages die with their browsers; no need to reclaim them later
+    this.leaseTimers.forEach((timer) => clearTimeout(timer));
+    this.leaseTimers.clear();
+
+    const waiters = this.waiters;
+    this.waiters = [];
+    waiters.forEach((waiter) => {
+      clearTimeout(waiter.timer);
+      waiter.reject(new AppError("Browser pool is shut down", 503, { code: "SERVICE_UNAVAILABLE" }));
+    });
+
+    await this.starting?.catch(() => undefined);
+
+    const browsers = this.browsers;
+    this.browsers = [];
+    this.slots = [];
+
+    await Promise.all(browsers.map((pooled) => this.closeBrowser(pooled)));
+    logInfo("Browser pool closed");
+  }
+
+  private async launch(): Promise<void> {
+    const pooled: PooledBrowser = {
+      id: this.nextId++,
+      browser: this.options.createBrowser(),
+      pagesServed: 0,
+      retiring: false,
+    };
+
+    this.launching++;
+    try {
+      await pooled.browser.ready();
+    } catch (error) {
+      logError(`Failed to launch browser ${pooled.id}:`, error);
+      throw new AppError("Browser unavailable", 503, { code: "BROWSER_UNAVAILABLE" });
+    } finally {
+      this.launching--;
+    }
+
+    if (this.closed) {
+      await this.closeBrowser(pooled);
+      return;
+    }
+
+    pooled.browser.onDisconnected(() => {
+      if (!this.closed && !pooled.retiring) {
+        logWarning(`Browser ${pooled.id} disconnected`);
+        pooled.retiring = true;
+        this.replaceWhenIdle(pooled);
+      }
+    });
+
+    this.browsers.push(pooled);
+    for (let i = 0; i < this.options.contextsPerBrowser; i++) {
+      this.slots.push({ owner: pooled, context: null, busy: false });
+    }
+
+    logInfo(`Browser ${pooled.id} ready`);
+    this.dispatch();
+  }
+
+  private takeSlot(): Promise<ContextSlot> {
+    if (this.closed) {
+      return Promise.reject(new AppError("Browser pool is shut down", 503, { code: "SERVICE_UNAVAILABLE" }));
+    }
+
+    const free = this.findFreeSlot();
+    if (free) {
+      free.busy = true;
+      return Promise.resolve(free);
+    }
+
+    return new Promise<ContextSlot>((resolve, reject) => {
+      const waiter: Waiter = {
+        resolve,
+        reject,
+        timer: setTimeout(() => {
+          this.waiters = this.waiters.filter((pending) => pending !== waiter);
+          reject(new AppError("Timed out waiting for a browser page", 503, { code: "BROWSER_UNAVAILABLE" }));
+        }, this.options.acquireTimeoutMs),
+      };
+      this.waiters.push(waiter);
+    });
+  }
+
+  private findFreeSlot(): ContextSlot | undefined {
+    return this.slots.find((slot) => !slot.busy && !slot.owner.retiring);
+  }
+
+  /**
+   * Hand freed capacity to the next waiter in line
+   */
+  private dispatch(): void {
+    while (this.waiters.length > 0) {
+      const slot = this.findFreeSlot();
+      if (!slot) return;
+
+      const waiter = this.waiters.shift()!;
+      clearTimeout(waiter.timer);
+      slot.busy = true;
+      waiter.resolve(slot);
+    }
+  }
+
+  private async releaseSlot(slot: ContextSlot): Promise<void> {
+    slot.busy = false;
+    const owner = slot.owner;
+
+    if (
+      this.options.recycleAfter > 0 &&
+      owner.pagesServed >= this.options.recycleAfter &&
+      !owner.retiring
+    ) {
+      logInfo(`Browser ${owner.id} served ${owner.pagesServed} pages, recycling`);
+      owner.retiring = true;
+    }
+
+    if (owner.retiring) {
+      this.replaceWhenIdle(owner);
+    }
+
+    this.dispatch();
+  }
+
+  /**
+   * Replace a retiring browser once none of its contexts are leased
+   */
+  private replaceWhenIdle(owner: PooledBrowser): void {
+    if (this.closed || !this.browsers.includes(owner)) return;
+
+    const ownSlots = this.slots.filter((slot) => slot.owner === owner);
+    if (ownSlots.some((slot) => slot.busy)) return;
+
+    this.browsers = this.browsers.filter((pooled) => pooled !== owner);
+    this.slots = this.slots.filter((slot) => slot.owner !== owner);
+    this.recycled++;
+
+    this.closeBrowser(owner).catch(() => undefined);
+    this.launch().catch((error) =>
+      logError("Failed to launch replacement browser:", error),
+    );
+  }
+
+  private async closeBrowser(pooled: PooledBrowser): Promise<void> {
+    try {
+      await pooled.browser.close();
+    } catch (error) {
+      logWarning(`Failed to close browser ${pooled.id}:`, error);
+    }
+  }
+
+  private async checkHealth(): Promise<void> {
+    for (const pooled of [...this.browsers]) {
+      if (pooled.retiring) continue;
+
+      const connected = await pooled.browser.isConnected();
+      if (!connected) {
+        logWarning(`Browser ${pooled.id} failed health check, replacing`);
+        pooled.retiring = true;
+        this.replaceWhenIdle(pooled);
+      }
+    }
+
+    // Top up if a replacement launch failed earlier
+    const missing = this.options.browsers - this.browsers.length - this.launching;
+    for (let i = 0; i < missing && !this.closed; i++) {
+      this.launch().catch((error) =>
+        logError("Failed to launch browser during health check:", error),
+      );
+    }
+  }
+}
+
+let sharedPool: BrowserPool | null = null;
+
+/**
+ * Process-wide browser pool built from the browser and browserPool config
+ */
+export function getBrowserPool(): BrowserPool {
+  if (!sharedPool) {
+    sharedPool = new BrowserPool({
+      ...config.browserPool,
+      createBrowser: () => new StealthBrowser(config.browser),
+    });
+  }
+  return sharedPool;
+}
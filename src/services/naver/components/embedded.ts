@@ -0,0 +1,264 @@
+import * as cheerio from "cheerio";
+import { logInfo, logWarning } from "../../../middleware/logger";
+import type { ChannelProductJson } from "./mapper";
+
+/**
+ * schema.org Product markup as found in `application/ld+json` blocks
+ */
+export interface JsonLdProduct {
+  "@type"?: string | string[];
+  name?: string;
+  description?: string;
+  image?: string | string[] | { url?: string }[];
+  sku?: string;
+  category?: string;
+  brand?: string | { name?: string };
+  aggregateRating?: {
+    ratingValue?: number | string;
+    reviewCount?: number | string;
+    ratingCount?: number | string;
+  };
+  offers?: JsonLdOffer | JsonLdOffer[];
+}
+
+export interface JsonLdOffer {
+  price?: number | string;
+  lowPrice?: number | string;
+  highPrice?: number | string;
+  priceCurrency?: string;
+  availability?: string;
+  seller?: { name?: string };
+}
+
+export class EmbeddedDataExtractor {
+  private static readonly STATE_VARIABLES = [
+    "__PRELOADED_STATE__",
+    "__APOLLO_STATE__",
+    "__INITIAL_STATE__",
+  ];
+
+  // Known locations of the product object inside the preloaded state
+  private static readonly PRODUCT_PATHS: string[][] = [
+    ["product", "A"],
+    ["product", "productDetail"],
+    ["simpleProductForDetailPage", "A"],
+    ["productDetail", "A"],
+  ];
+
+  private static readonly MAX_SEARCH_DEPTH = 6;
+
+  /**
+   * Locate the preloaded state assignment in inline scripts and parse it
+   * as JSON without evaluating any page JavaScript
+   */
+  static extractPreloadedState(html: string): Record<string, any> | null {
+    for (const variable of EmbeddedDataExtractor.STATE_VARIABLES) {
+      const assignment = new RegExp(
+        `(?:window\\.)?${variable}\\s*=\\s*`,
+        "g",
+      );
+
+      let match: RegExpExecArray | null;
+      while ((match = assignment.exec(html)) !== null) {
+        const start = match.index + match[0].length;
+        const literal = this.readObjectLiteral(html, start);
+        if (!literal) continue;
+
+        const parsed = this.parseJsLiteral(literal);
+        if (parsed && typeof parsed === "object") {
+          logInfo(`Found embedded ${variable} (${literal.length} characters)`);
+          return parsed;
+        }
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Find the product object inside the preloaded state
+   */
+  static findProductState(
+    state: Record<string, any> | null,
+  ): ChannelProductJson | null {
+    if (!state) return null;
+
+    for (const path of EmbeddedDataExtractor.PRODUCT_PATHS) {
+      let node: any = state;
+      for (const key of path) {
+        node = node?.[key];
+      }
+      if (this.looksLikeProduct(node)) {
+        return node as ChannelProductJson;
+      }
+    }
+
+    // Layouts change often, so fall back to a bounded search
+    return this.searchForProduct(state, 0);
+  }
+
+  /**
+   * Parse every JSON-LD block and return the first Product node
+   */
+  static extractJsonLdProduct($: cheerio.CheerioAPI): JsonLdProduct | null {
+    const scripts = $('script[type="application/ld+json"]');
+
+    for (let i = 0; i < scripts.length; i++) {
+      const content = $(scripts[i]).contents().text().trim();
+      if (!content) continue;
+
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(content);
+      } catch {
+        logWarning("Skipping malformed JSON-LD block");
+        continue;
+      }
+
+      const product = this.findJsonLdProduct(parsed);
+      if (product) {
+        logInfo("Found JSON-LD Product markup");
+        return product;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Read a balanced `{...}` literal starting at the given index, skipping
+   * braces inside strings
+   */
+  private static readObjectLiteral(source: string, start: number): string | null {
+    let index = start;
+    while (index < source.length && /\s/.test(source[index]!)) index++;
+    if (source[index] !== "{") return null;
+
+    let depth = 0;
+    let quote: string | null = null;
+
+    for (let i = index; i < source.length; i++) {
+      const char = source[i]!;
+
+      if (quote) {
+        if (char === "\\") {
+          i++;
+        } else if (char === quote) {
+          quote = null;
+        }
+        continue;
+      }
+
+      if (char === '"' || char === "'" || char === "`") {
+        quote = char;
+      } else if (char === "{") {
+        depth++;
+      } else if (char === "}") {
+        depth--;
+        if (depth === 0) {
+          return source.slice(index, i + 1);
+        }
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Convert the JS-only tokens Naver emits (undefined, NaN, Infinity) into
+   * JSON and parse. Anything else that is not JSON is rejected.
+   */
+  private static parseJsLiteral(literal: string): any {
+    const jsToken = /(undefined|NaN|-?Infinity)\b/y;
+    let output = "";
+    let inString = false;
+
+    for (let i = 0; i < literal.length; i++) {
+      const char = literal[i]!;
+
+      if (inString) {
+        output += char;
+        if (char === "\\") {
+          output += literal[++i] ?? "";
+        } else if (char === '"') {
+          inString = false;
+        }
+        continue;
+      }
+
+      if (char === '"') {
+        inString = true;
+        output += char;
+        continue;
+      }
+
+      jsToken.lastIndex = i;
+      const token = "uNI-".includes(char) ? jsToken.exec(literal) : null;
+      if (token) {
+        output += "null";
+        i += token[0].length - 1;
+        continue;
+      }
+
+      output += char;
+    }
+
+    try {
+      return JSON.parse(output);
+    } catch {
+      logWarning("Embedded state is not JSON-compatible, skipping");
+      return null;
+    }
+  }
+
+  private static looksLikeProduct(node: any): boolean {
+    return (
+      !!node &&
+      typeof node === "object" &&
+      typeof node.name === "string" &&
+      (node.salePrice !== undefined || node.productNo !== undefined)
+    );
+  }
+
+  private static searchForProduct(node: any, depth: number): ChannelProductJson | null {
+    if (!node || typeof node !== "object" || depth > EmbeddedDataExtractor.MAX_SEARCH_DEPTH) {
+      return null;
+    }
+
+    if (this.looksLikeProduct(node)) {
+      return node as ChannelProductJson;
+    }
+
+    for (const value of Object.values(node)) {
+      const found = this.searchForProduct(value, depth + 1);
+      if (found) return found;
+    }
+
+    return null;
+  }
+
+  private static findJsonLdProduct(node: unknown): JsonLdProduct | null {
+    if (Array.isArray(node)) {
+      for (const item of node) {
+        const found = this.findJsonLdProduct(item);
+        if (found) return found;
+      }
+      return null;
+    }
+
+    if (!node || typeof node !== "object") return null;
+
+    const record = node as Record<string, unknown>;
+    const type = record["@type"];
+    const types = Array.isArray(type) ? type : [type];
+    if (types.includes("Product")) {
+      return record as JsonLdProduct;
+    }
+
+    if (record["@graph"]) {
+      return this.findJsonLdProduct(record["@graph"]);
+    }
+
+    return null;
+  }
+}
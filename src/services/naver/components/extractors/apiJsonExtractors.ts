@@ -0,0 +1,117 @@
+import { ChannelProductJson, ProductMapper } from "../mapper";
+import type {
+  AnyFieldExtractor,
+  ExtractionContext,
+  ExtractionSource,
+} from "../pipeline";
+
+interface ProductJsonExtractorConfig {
+  namePrefix: string;
+  source: ExtractionSource;
+  confidence: number;
+  getJson: (context: ExtractionContext) => ChannelProductJson | null | undefined;
+}
+
+/**
+ * Build extractors for any blob shaped like the channel product payload.
+ * Free-text fields (description, brand, specs) rank slightly lower since
+ * sellers fill them in inconsistently.
+ */
+export function createProductJsonExtractors(
+  config: ProductJsonExtractorConfig,
+): AnyFieldExtractor[] {
+  const { namePrefix, source, confidence, getJson } = config;
+
+  const withJson = <T>(
+    map: (json: ChannelProductJson, context: ExtractionContext) => T,
+  ) => (context: ExtractionContext): T | undefined => {
+    const json = getJson(context);
+    return json ? map(json, context) : undefined;
+  };
+
+  const freeTextConfidence = Math.round((confidence - 0.05) * 100) / 100;
+
+  return [
+    {
+      field: "title", name: `${namePrefix}.name`, source, confidence,
+      extract: withJson((json) => ProductMapper.mapTitle(json)),
+    },
+    {
+      field: "price", name: `${namePrefix}.salePrice`, source, confidence,
+      extract: withJson((json) => {
+        const price = ProductMapper.mapPrice(json);
+        return price.original !== undefined || price.discounted !== undefined ? price : undefined;
+      }),
+    },
+    {
+      field: "images", name: `${namePrefix}.productImages`, source, confidence,
+      extract: withJson((json, { options }) =>
+        options.extractImages ? ProductMapper.mapImages(json, options.maxImages) : undefined),
+    },
+    {
+      field: "description", name: `${namePrefix}.detailContents`, source, confidence: freeTextConfidence,
+      extract: withJson((json, { options }) =>
+        ProductMapper.mapDescription(json, options.maxDescriptionLength)),
+    },
+    {
+      field: "brand", name: `${namePrefix}.naverShoppingSearchInfo`, source, confidence: freeTextConfidence,
+      extract: withJson((json) => ProductMapper.mapBrand(json)),
+    },
+    {
+      field: "category", name: `${namePrefix}.category`, source, confidence,
+      extract: withJson((json) => ProductMapper.mapCategory(json)),
+    },
+    {
+      field: "rating", name: `${namePrefix}.reviewAmount`, source, confidence,
+      extract: withJson((json) => {
+        const reviews = ProductMapper.mapReviews(json);
+        return reviews ? { score: reviews.averageRating, count: reviews.count } : undefined;
+      }),
+    },
+    {
+      field: "shipping", name: `${namePrefix}.productDeliveryInfo`, source, confidence,
+      extract: withJson((json) => ProductMapper.mapShipping(json)),
+    },
+    {
+      field: "seller", name: `${namePrefix}.channel`, source, confidence,
+      extract: withJson((json, { url }) => {
+        const seller = ProductMapper.mapSeller(json, url);
+        return seller.name ? seller : undefined;
+      }),
+    },
+    {
+      field: "stockQuantity", name: `${namePrefix}.stockQuantity`, source, confidence,
+      extract: withJson((json) => json.stockQuantity),
+    },
+    {
+      field: "options", name: `${namePrefix}.optionCombinations`, source, confidence,
+      extract: withJson((json, { resolved }) =>
+        ProductMapper.mapOptions(json, resolved.price?.discounted ?? resolved.price?.original)),
+    },
+    {
+      field: "availability", name: `${namePrefix}.productStatusType`, source, confidence,
+      extract: withJson((json, { resolved }) =>
+        ProductMapper.mapAvailability(json, resolved.options)),
+    },
+    {
+      field: "specifications", name: `${namePrefix}.productAttributes`, source, confidence: freeTextConfidence,
+      extract: withJson((json, { options }) =>
+        options.extractSpecs ? ProductMapper.mapSpecifications(json) : undefined),
+    },
+    {
+      field: "reviews", name: `${namePrefix}.reviewAmount`, source, confidence,
+      extract: withJson((json) => ProductMapper.mapReviews(json)),
+    },
+  ];
+}
+
+/**
+ * Captured product API extractors. The `/i/v2/channels/` payload is what the
+ * product page itself renders from, so it outranks everything else.
+ */
+export const apiJsonExtractors: AnyFieldExtractor[] = createProductJsonExtractors({
+  namePrefix: "api",
+  source: "api_json",
+  confidence: 0.95,
+  getJson: (context) => context.apiJson,
+});
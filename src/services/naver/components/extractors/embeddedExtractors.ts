@@ -0,0 +1,142 @@
+import type { NaverProductData } from "../parser";
+import type { AnyFieldExtractor, ExtractionContext } from "../pipeline";
+import type { ChannelProductJson } from "../mapper";
+import { EmbeddedDataExtractor, JsonLdProduct, JsonLdOffer } from "../embedded";
+import { createProductJsonExtractors } from "./apiJsonExtractors";
+
+/**
+ * Extractors for data the server embeds in the product HTML: the
+ * `__PRELOADED_STATE__` object the page hydrates from, and schema.org
+ * JSON-LD markup. Both are parsed once per page and cached on the context.
+ */
+
+const PRELOADED_STATE_KEY = "embedded.productState";
+const JSON_LD_KEY = "embedded.jsonLdProduct";
+
+function getProductState(context: ExtractionContext): ChannelProductJson | null {
+  if (!context.cache.has(PRELOADED_STATE_KEY)) {
+    const state = EmbeddedDataExtractor.extractPreloadedState(context.html);
+    context.cache.set(PRELOADED_STATE_KEY, EmbeddedDataExtractor.findProductState(state));
+  }
+  return context.cache.get(PRELOADED_STATE_KEY) as ChannelProductJson | null;
+}
+
+function getJsonLdProduct(context: ExtractionContext): JsonLdProduct | null {
+  if (!context.cache.has(JSON_LD_KEY)) {
+    context.cache.set(JSON_LD_KEY, EmbeddedDataExtractor.extractJsonLdProduct(context.$));
+  }
+  return context.cache.get(JSON_LD_KEY) as JsonLdProduct | null;
+}
+
+function getOffer(product: JsonLdProduct): JsonLdOffer | undefined {
+  return Array.isArray(product.offers) ? product.offers[0] : product.offers;
+}
+
+function toNumber(value: number | string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  const num = typeof value === "number" ? value : parseFloat(String(value).replace(/,/g, ""));
+  return Number.isFinite(num) ? num : undefined;
+}
+
+const withJsonLd = <T>(map: (product: JsonLdProduct, context: ExtractionContext) => T | undefined) =>
+  (context: ExtractionContext): T | undefined => {
+    const product = getJsonLdProduct(context);
+    return product ? map(product, context) : undefined;
+  };
+
+function mapJsonLdPrice(product: JsonLdProduct): NaverProductData["price"] | undefined {
+  const offer = getOffer(product);
+  const price = toNumber(offer?.price ?? offer?.lowPrice);
+  if (!price || price <= 0) return undefined;
+
+  return {
+    original: price,
+    currency: offer?.priceCurrency || "KRW",
+    formatted: `${price.toLocaleString()}원`,
+  };
+}
+
+function mapJsonLdImages(product: JsonLdProduct, maxImages: number): string[] {
+  const raw = Array.isArray(product.image) ? product.image : product.image ? [product.image] : [];
+  const images: string[] = [];
+
+  for (const entry of raw) {
+    const url = typeof entry === "string" ? entry : entry?.url;
+    if (!url || images.length >= maxImages) continue;
+    const fullUrl = url.startsWith("//") ? `https:${url}` : url;
+    if (!images.includes(fullUrl)) images.push(fullUrl);
+  }
+
+  return images;
+}
+
+export const embeddedStateExtractors: AnyFieldExtractor[] = createProductJsonExtractors({
+  namePrefix: "embedded",
+  source: "embedded_state",
+  confidence: 0.9,
+  getJson: getProductState,
+});
+
+export const jsonLdExtractors: AnyFieldExtractor[] = [
+  {
+    field: "title", name: "jsonLd.name", source: "json_ld", confidence: 0.85,
+    extract: withJsonLd((product) => product.name?.trim()),
+  },
+  {
+    field: "price", name: "jsonLd.offers", source: "json_ld", confidence: 0.85,
+    extract: withJsonLd((product) => mapJsonLdPrice(product)),
+  },
+  {
+    field: "images", name: "jsonLd.image", source: "json_ld", confidence: 0.8,
+    extract: withJsonLd((product, { options }) =>
+      options.extractImages ? mapJsonLdImages(product, options.maxImages) : undefined),
+  },
+  {
+    field: "description", name: "jsonLd.description", source: "json_ld", confidence: 0.75,
+    extract: withJsonLd((product, { options }) =>
+      product.description?.trim().substring(0, options.maxDescriptionLength)),
+  },
+  {
+    field: "brand", name: "jsonLd.brand", source: "json_ld", confidence: 0.8,
+    extract: withJsonLd((product) =>
+      (typeof product.brand === "string" ? product.brand : product.brand?.name)?.trim()),
+  },
+  {
+    field: "category", name: "jsonLd.category", source: "json_ld", confidence: 0.75,
+    extract: withJsonLd((product) =>
+      product.category?.split(/\s*[>/]\s*/).filter(Boolean).join(" > ")),
+  },
+  {
+    field: "rating", name: "jsonLd.aggregateRating", source: "json_ld", confidence: 0.85,
+    extract: withJsonLd((product) => {
+      const score = toNumber(product.aggregateRating?.ratingValue);
+      if (score === undefined) return undefined;
+      const count = toNumber(product.aggregateRating?.reviewCount ?? product.aggregateRating?.ratingCount) ?? 0;
+      return { score, count };
+    }),
+  },
+  {
+    field: "seller", name: "jsonLd.offers.seller", source: "json_ld", confidence: 0.8,
+    extract: withJsonLd((product, { storeUrl }) => {
+      const name = getOffer(product)?.seller?.name?.trim();
+      return name ? { name, url: storeUrl } : undefined;
+    }),
+  },
+  {
+    field: "availability", name: "jsonLd.offers.availability", source: "json_ld", confidence: 0.8,
+    extract: withJsonLd((product) => {
+      const availability = getOffer(product)?.availability;
+      if (!availability) return undefined;
+      return !/OutOfStock|SoldOut|Discontinued/i.test(availability);
+    }),
+  },
+  {
+    field: "reviews", name: "jsonLd.aggregateRating", source: "json_ld", confidence: 0.85,
+    extract: withJsonLd((product) => {
+      const averageRating = toNumber(product.aggregateRating?.ratingValue);
+      const count = toNumber(product.aggregateRating?.reviewCount ?? product.aggregateRating?.ratingCount);
+      if (averageRating === undefined && count === undefined) return undefined;
+      return { count: count ?? 0, averageRating: averageRating ?? 0 };
+    }),
+  },
+];
@@ -0,0 +1,39 @@
+import type { AnyFieldExtractor } from "../pipeline";
+
+/**
+ * Last-resort guesses used when no real source produced a value. They keep
+ * required fields populated, and their provenance tells clients the value
+ * was not found on the page.
+ */
+export const fallbackExtractors: AnyFieldExtractor[] = [
+  {
+    field: "price", name: "fallback.noPrice", source: "fallback", confidence: 0,
+    extract: () => ({ currency: "KRW", formatted: "가격 정보 없음" }),
+  },
+  {
+    // Clean up brand username
+    field: "brand", name: "fallback.usernameTitleCase", source: "fallback", confidence: 0.1,
+    extract: ({ brandUsername }) =>
+      brandUsername.replace(/[_-]/g, ' ').replace(/\b\w/g, l => l.toUpperCase()),
+  },
+  {
+    field: "brand", name: "fallback.sellerName", source: "fallback", confidence: 0.2,
+    extract: ({ resolved, provenance }) =>
+      provenance.seller?.source !== "fallback" ? resolved.seller?.name : undefined,
+  },
+  {
+    field: "shipping", name: "fallback.parcelDelivery", source: "fallback", confidence: 0.1,
+    extract: () => ({ fee: "배송료 별도", method: "택배배송" }),
+  },
+  {
+    field: "seller", name: "fallback.username", source: "fallback", confidence: 0.1,
+    extract: ({ brandUsername, storeUrl }) => ({
+      name: brandUsername,
+      url: storeUrl,
+    }),
+  },
+  {
+    field: "availability", name: "fallback.assumeAvailable", source: "fallback", confidence: 0.1,
+    extract: () => true,
+  },
+];
@@ -0,0 +1,29 @@
+import { ExtractionPipeline } from "../pipeline";
+import { apiJsonExtractors } from "./apiJsonExtractors";
+import { embeddedStateExtractors, jsonLdExtractors } from "./embeddedExtractors";
+import { metaExtractors } from "./metaExtractors";
+import { selectorExtractors } from "./selectorExtractors";
+import { fallbackExtractors } from "./fallbackExtractors";
+
+export {
+  apiJsonExtractors,
+  embeddedStateExtractors,
+  jsonLdExtractors,
+  metaExtractors,
+  selectorExtractors,
+  fallbackExtractors,
+};
+
+/**
+ * Build the pipeline with every built-in extractor registered
+ */
+export function createDefaultPipeline(): ExtractionPipeline {
+  return new ExtractionPipeline().register(
+    ...apiJsonExtractors,
+    ...embeddedStateExtractors,
+    ...jsonLdExtractors,
+    ...metaExtractors,
+    ...selectorExtractors,
+    ...fallbackExtractors,
+  );
+}
@@ -0,0 +1,99 @@
+import type { NaverProductData } from "../parser";
+import type { AnyFieldExtractor, ExtractionContext } from "../pipeline";
+
+/**
+ * Meta tag extractors. Open Graph and product meta tags are set by the
+ * server for link previews, so they are stable but often abbreviated.
+ */
+
+/**
+ * Title from og:title, meta title or the document title
+ */
+function extractTitle({ $ }: ExtractionContext): string | undefined {
+  const metaTitle = $('meta[property="og:title"]').attr('content') ||
+                   $('meta[name="title"]').attr('content') ||
+                   $('title').text();
+
+  if (metaTitle && metaTitle.trim()) {
+    return metaTitle.trim().replace(/\s*[-:]\s*(네이버|NAVER).*$/i, ''); // Remove Naver suffix
+  }
+
+  return undefined;
+}
+
+/**
+ * Price from product:price:amount
+ */
+function extractPrice({ $ }: ExtractionContext): NaverProductData["price"] | undefined {
+  const metaPrice = $('meta[property="product:price:amount"]').attr('content');
+  const original = metaPrice ? parseInt(metaPrice.replace(/[^\d]/g, "")) : NaN;
+
+  if (!original || isNaN(original)) {
+    return undefined;
+  }
+
+  return {
+    original,
+    currency: $('meta[property="product:price:currency"]').attr('content') || "KRW",
+    formatted: `${original.toLocaleString()}원`
+  };
+}
+
+/**
+ * Images from og:image
+ */
+function extractImages({ $, options }: ExtractionContext): string[] | undefined {
+  if (!options.extractImages) return undefined;
+
+  const images: string[] = [];
+  $('meta[property="og:image"]').each((_, element) => {
+    const content = $(element).attr('content');
+    if (content && images.length < options.maxImages) {
+      const fullUrl = content.startsWith('//') ? `https:${content}` : content;
+      if (!images.includes(fullUrl)) {
+        images.push(fullUrl);
+      }
+    }
+  });
+
+  return images;
+}
+
+/**
+ * Description from og:description or meta description
+ */
+function extractDescription({ $, options }: ExtractionContext): string | undefined {
+  const metaDesc = $('meta[property="og:description"]').attr('content') ||
+                  $('meta[name="description"]').attr('content');
+
+  if (metaDesc && metaDesc.trim()) {
+    return metaDesc.trim().substring(0, options.maxDescriptionLength);
+  }
+
+  return undefined;
+}
+
+/**
+ * Availability from product:availability
+ */
+function extractAvailability({ $ }: ExtractionContext): boolean | undefined {
+  const metaAvailability = (
+    $('meta[property="product:availability"]').attr("content") ||
+    $('meta[property="og:availability"]').attr("content") ||
+    ""
+  ).toLowerCase();
+
+  if (!metaAvailability) {
+    return undefined;
+  }
+
+  return !/out of stock|oos|sold ?out/.test(metaAvailability);
+}
+
+export const metaExtractors: AnyFieldExtractor[] = [
+  { field: "title", name: "meta.ogTitle", source: "meta", confidence: 0.7, extract: extractTitle },
+  { field: "price", name: "meta.productPrice", source: "meta", confidence: 0.7, extract: extractPrice },
+  { field: "images", name: "meta.ogImage", source: "meta", confidence: 0.45, extract: extractImages },
+  { field: "description", name: "meta.ogDescription", source: "meta", confidence: 0.45, extract: extractDescription },
+  { field: "availability", name: "meta.productAvailability", source: "meta", confidence: 0.7, extract: extractAvailability },
+];
@@ -0,0 +1,555 @@
+import { logInfo } from "../../../../middleware/logger";
+import type { NaverProductData } from "../parser";
+import type { AnyFieldExtractor, ExtractionContext } from "../pipeline";
+import {
+  ProductOptions,
+  ProductOptionGroup,
+  ProductOptionCombination,
+  parseOptionLabel,
+  deriveAvailabilityFromOptions,
+} from "../options";
+
+/**
+ * CSS selector extractors. These guess at Smartstore's markup, so they rank
+ * below every structured source.
+ */
+
+const UNAVAILABLE_INDICATORS = [
+  "품절", "재고없음", "판매중지", "판매종료",
+  "out of stock", "sold out", "unavailable"
+];
+
+/**
+ * Extract product title
+ */
+function extractTitle({ $ }: ExtractionContext): string | undefined {
+  const selectors = [
+    // Common title selectors for Naver SmartStore
+    'h1.se-module-text',
+    '.product_title h1',
+    '.se-text-paragraph',
+    'h1[class*="title"]',
+    'h1[class*="name"]',
+    '.product-name h1',
+    '.item-name h1',
+    // Fallback selectors
+    'h1',
+    '.title',
+    '.product-name',
+    '[class*="product"][class*="title"]',
+    '[class*="item"][class*="title"]'
+  ];
+
+  for (const selector of selectors) {
+    const elements = $(selector);
+    for (let i = 0; i < elements.length; i++) {
+      const title = $(elements[i]).text().trim();
+      if (title && title.length > 3 && title.length < 200) {
+        logInfo(`Title extracted using selector: ${selector}`);
+        return title;
+      }
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Extract price information
+ */
+function extractPrice({ $ }: ExtractionContext): NaverProductData["price"] | undefined {
+  const priceSelectors = [
+    '.se-text-paragraph',
+    '.price_num',
+    '.price',
+    '.product-price',
+    '.current-price',
+    '.sale-price',
+    '[class*="price"]',
+    '.cost_box .price',
+    '.item-price'
+  ];
+
+  let originalPrice: number | undefined;
+  let discountedPrice: number | undefined;
+  let formattedPrice = "";
+  const foundPrices: number[] = [];
+
+  // Extract all price values from different selectors
+  for (const selector of priceSelectors) {
+    const priceElements = $(selector);
+
+    priceElements.each((_, element) => {
+      const text = $(element).text().trim();
+      // Match Korean won prices
+      const priceMatches = text.match(/[\d,]+원?/g);
+
+      if (priceMatches) {
+        priceMatches.forEach(match => {
+          const priceValue = parseInt(match.replace(/[^\d]/g, ""));
+          if (priceValue > 0) {
+            foundPrices.push(priceValue);
+
+            if (!formattedPrice) {
+              formattedPrice = match;
+            }
+
+            // Detect discount prices by context
+            if (text.includes("할인") || text.includes("특가") ||
+                text.includes("세일") || text.includes("↓")) {
+              if (!discountedPrice || priceValue < discountedPrice) {
+                discountedPrice = priceValue;
+              }
+            }
+          }
+        });
+      }
+    });
+  }
+
+  if (foundPrices.length === 0) {
+    return undefined;
+  }
+
+  // Determine original and discounted prices
+  foundPrices.sort((a, b) => b - a); // Sort descending
+
+  // If we have multiple prices, highest is likely original, lowest might be discounted
+  originalPrice = foundPrices[0];
+  if (!discountedPrice && foundPrices.length > 1 && originalPrice &&
+      foundPrices[foundPrices.length - 1]! < originalPrice * 0.9) {
+    // If lowest price is significantly lower, it might be discounted
+    discountedPrice = foundPrices[foundPrices.length - 1];
+  }
+
+  return {
+    original: originalPrice,
+    discounted: discountedPrice,
+    currency: "KRW",
+    formatted: formattedPrice || `${originalPrice!.toLocaleString()}원`
+  };
+}
+
+/**
+ * Check if URL is a valid image URL
+ */
+function isValidImageUrl(url: string): boolean {
+  return (url.startsWith('http') || url.startsWith('//')) &&
+         /\.(jpg|jpeg|png|gif|webp)($|\?)/i.test(url);
+}
+
+/**
+ * Check if image is likely low quality (thumbnails, icons, etc.)
+ */
+function isLowQualityImage(url: string): boolean {
+  return /thumb|icon|logo|banner|_small|_s\.|40x40|50x50|100x100/i.test(url);
+}
+
+/**
+ * Extract product images
+ */
+function extractImages({ $, options }: ExtractionContext): string[] | undefined {
+  if (!options.extractImages) return undefined;
+
+  const { maxImages } = options;
+  const images: string[] = [];
+  const imageSelectors = [
+    '.se-image img',
+    '.product-image img',
+    '.thumb img',
+    '.item-image img',
+    'img[src*="shop.pstatic.net"]',
+    'img[src*="storep-phinf.pstatic.net"]',
+    'img[src*="shopping-phinf.pstatic.net"]',
+    '[class*="image"] img',
+    '.gallery img',
+    '.slider img'
+  ];
+
+  for (const selector of imageSelectors) {
+    let shouldBreak = false;
+
+    $(selector).each((_, element) => {
+      if (images.length >= maxImages) {
+        shouldBreak = true;
+        return false; // Break out of jQuery .each()
+      }
+
+      const src = $(element).attr("src") || $(element).attr("data-src") || $(element).attr("data-original");
+
+      if (src && isValidImageUrl(src)) {
+        const fullUrl = src.startsWith('//') ? `https:${src}` : src;
+
+        // Avoid duplicates and low-quality images
+        if (!images.includes(fullUrl) && !isLowQualityImage(fullUrl)) {
+          images.push(fullUrl);
+        }
+      }
+      return true; // Continue jQuery .each()
+    });
+
+    if (shouldBreak || images.length >= maxImages) {
+      break;
+    }
+  }
+
+  logInfo(`Extracted ${images.length} product images`);
+  return images;
+}
+
+/**
+ * Extract product description
+ */
+function extractDescription({ $, options }: ExtractionContext): string | undefined {
+  const maxLength = options.maxDescriptionLength;
+  const descSelectors = [
+    '.se-module-text .se-text-paragraph',
+    '.product-description',
+    '.description',
+    '.detail-content',
+    '.item-description',
+    '[class*="desc"]',
+    '.content .se-text-paragraph'
+  ];
+
+  for (const selector of descSelectors) {
+    const elements = $(selector);
+    for (let i = 0; i < elements.length; i++) {
+      const desc = $(elements[i]).text().trim();
+      if (desc && desc.length > 20 && desc.length < 2000) {
+        const truncated = desc.length > maxLength ?
+          desc.substring(0, maxLength) + "..." : desc;
+        logInfo(`Description extracted using selector: ${selector}`);
+        return truncated;
+      }
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Extract brand information
+ */
+function extractBrand({ $ }: ExtractionContext): string | undefined {
+  const brandSelectors = [
+    '.brand-name',
+    '.seller-name',
+    '.shop-name',
+    '[class*="brand"]',
+    '.store-name'
+  ];
+
+  for (const selector of brandSelectors) {
+    const brand = $(selector).text().trim();
+    if (brand && brand.length > 1 && brand.length < 50) {
+      return brand;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Extract category information
+ */
+function extractCategory({ $ }: ExtractionContext): string | undefined {
+  const categorySelectors = [
+    '.breadcrumb',
+    '.category',
+    '.navigation',
+    '[class*="breadcrumb"]',
+    '.category-path'
+  ];
+
+  for (const selector of categorySelectors) {
+    const category = $(selector).text().trim();
+    if (category && category.length < 100) {
+      // Clean up category path
+      return category.replace(/\s*>\s*/g, ' > ').replace(/\s+/g, ' ');
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Extract rating information
+ */
+function extractRating({ $ }: ExtractionContext): NaverProductData["rating"] {
+  const ratingSelectors = ['.rating', '.score', '.review-score', '[class*="rating"]'];
+
+  for (const selector of ratingSelectors) {
+    const ratingText = $(selector).text();
+    const ratingMatch = ratingText.match(/(\d+\.?\d*)/);
+    const countMatch = ratingText.match(/\((\d+)\)|(\d+)개/);
+
+    if (ratingMatch && ratingMatch[1]) {
+      const score = parseFloat(ratingMatch[1]);
+      const count = countMatch ? parseInt(countMatch[1] || countMatch[2] || '0') : 0;
+
+      if (score >= 0 && score <= 5) {
+        return { score, count };
+      }
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Extract shipping information from the delivery block
+ */
+function extractShipping({ $ }: ExtractionContext): NaverProductData["shipping"] {
+  const shippingSelectors = ['.shipping', '.delivery', '.배송', '[class*="shipping"]', '[class*="delivery"]'];
+
+  let shippingText = "";
+  for (const selector of shippingSelectors) {
+    shippingText = $(selector).text().trim();
+    if (shippingText) break;
+  }
+
+  if (!shippingText) {
+    return undefined;
+  }
+
+  const isFreeShipping = /무료|free/i.test(shippingText);
+  const feeMatch = shippingText.match(/배송비\s*([\d,]+)\s*원/);
+
+  let method = "택배배송";
+  if (/직접배송|직배송/.test(shippingText)) {
+    method = "직접배송";
+  } else if (/퀵/.test(shippingText)) {
+    method = "퀵서비스";
+  } else if (/방문|픽업/.test(shippingText)) {
+    method = "방문수령";
+  }
+
+  return {
+    fee: isFreeShipping ? "무료배송" : feeMatch ? `${feeMatch[1]}원` : "배송료 별도",
+    method
+  };
+}
+
+/**
+ * Extract seller information
+ */
+function extractSeller({ $, storeUrl }: ExtractionContext): NaverProductData["seller"] | undefined {
+  const sellerSelectors = ['.seller-name', '.store-name', '[class*="seller"]'];
+
+  for (const selector of sellerSelectors) {
+    const name = $(selector).text().trim();
+    if (name) {
+      return {
+        name,
+        url: storeUrl
+      };
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Extract option groups and combinations from the option selectors
+ */
+function extractOptions({ $, resolved }: ExtractionContext): ProductOptions | undefined {
+  const basePrice = resolved.price?.discounted ?? resolved.price?.original;
+  const groups: ProductOptionGroup[] = [];
+  const labelsByGroup: string[][] = [];
+
+  // Native select elements
+  $('select[name*="option"], select[class*="option"]').each((_, element) => {
+    const labels: string[] = [];
+    $(element)
+      .find("option")
+      .each((_, option) => {
+        const value = $(option).attr("value");
+        const label = $(option).text().trim();
+        if (value && label) {
+          labels.push(label);
+        }
+      });
+
+    if (labels.length > 0) {
+      const name =
+        $(element).attr("title") ||
+        $(element).attr("aria-label") ||
+        $(element).find('option[value=""]').first().text().trim() ||
+        `옵션${groups.length + 1}`;
+      groups.push({ name, values: [] });
+      labelsByGroup.push(labels);
+    }
+  });
+
+  // Smartstore custom dropdowns: a listbox trigger followed by its options
+  if (groups.length === 0) {
+    $('[aria-haspopup="listbox"]').each((_, trigger) => {
+      const listbox = $(trigger).nextAll('[role="listbox"]').first();
+      const labels = listbox
+        .find('[role="option"]')
+        .map((_, option) => $(option).text().trim())
+        .get()
+        .filter((label: string) => label.length > 0);
+
+      if (labels.length > 0) {
+        const name = $(trigger).text().trim() || `옵션${groups.length + 1}`;
+        groups.push({ name, values: [] });
+        labelsByGroup.push(labels);
+      }
+    });
+  }
+
+  if (groups.length === 0) {
+    return undefined;
+  }
+
+  const combinations: ProductOptionCombination[] = [];
+
+  labelsByGroup.forEach((labels, groupIndex) => {
+    for (const label of labels) {
+      const parsed = parseOptionLabel(label);
+      if (!parsed.value) continue;
+
+      groups[groupIndex]!.values.push(parsed.value);
+
+      // Later groups only render after an earlier choice, so a single
+      // group is the only case where the page lists full combinations
+      if (labelsByGroup.length === 1) {
+        combinations.push({
+          id: String(combinations.length),
+          values: [parsed.value],
+          additionalPrice: parsed.additionalPrice,
+          price:
+            basePrice !== undefined
+              ? basePrice + parsed.additionalPrice
+              : undefined,
+          stockQuantity: parsed.stockQuantity,
+          soldOut: parsed.soldOut,
+        });
+      }
+    }
+  });
+
+  logInfo(
+    `Extracted ${groups.length} option groups and ${combinations.length} combinations`,
+  );
+
+  return { groups, combinations };
+}
+
+/**
+ * Availability derived from the combinations already resolved
+ */
+function extractAvailabilityFromOptions({ resolved }: ExtractionContext): boolean | undefined {
+  return deriveAvailabilityFromOptions(resolved.options);
+}
+
+/**
+ * Availability from sold-out markers in the purchase area only, not
+ * reviews or recommendations
+ */
+function extractAvailabilityFromPurchaseArea({ $ }: ExtractionContext): boolean | undefined {
+  const purchaseSelectors = [
+    '[class*="buy"]',
+    '[class*="purchase"]',
+    '[class*="order"] button',
+    '[class*="soldout"]',
+    '[class*="sold_out"]',
+  ];
+
+  for (const selector of purchaseSelectors) {
+    const text = $(selector).text().toLowerCase();
+    if (
+      text &&
+      UNAVAILABLE_INDICATORS.some((indicator) =>
+        text.includes(indicator.toLowerCase()),
+      )
+    ) {
+      return false;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Extract product specifications
+ */
+function extractSpecifications({ $, options }: ExtractionContext): Record<string, string> | undefined {
+  if (!options.extractSpecs) return undefined;
+
+  const specs: Record<string, string> = {};
+  const specSelectors = [
+    '.spec-table tr',
+    '.specification tr',
+    '.product-spec tr',
+    '[class*="spec"] tr',
+    '.detail-table tr'
+  ];
+
+  for (const selector of specSelectors) {
+    $(selector).each((_, element) => {
+      const cells = $(element).find('td, th');
+      if (cells.length >= 2) {
+        const key = $(cells[0]).text().trim();
+        const value = $(cells[1]).text().trim();
+
+        if (key && value && key.length < 50 && value.length < 200) {
+          specs[key] = value;
+        }
+      }
+    });
+  }
+
+  return specs;
+}
+
+/**
+ * Extract review information
+ */
+function extractReviews({ $ }: ExtractionContext): NaverProductData["reviews"] {
+  const reviewSelectors = ['.review-count', '.review-summary', '[class*="review"]'];
+
+  let count: number | undefined;
+  let averageRating: number | undefined;
+
+  for (const selector of reviewSelectors) {
+    const reviewText = $(selector).text();
+    const countMatch = reviewText.match(/(\d+)개|(\d+)건/);
+    const ratingMatch = reviewText.match(/(\d+\.?\d*)/);
+
+    if (countMatch) {
+      count = parseInt(countMatch[1] || countMatch[2] || '0');
+    }
+    if (ratingMatch && ratingMatch[1]) {
+      const rating = parseFloat(ratingMatch[1]);
+      if (rating >= 0 && rating <= 5) {
+        averageRating = rating;
+      }
+    }
+  }
+
+  if (count === undefined && averageRating === undefined) {
+    return undefined;
+  }
+
+  return { count: count ?? 0, averageRating: averageRating ?? 0 };
+}
+
+export const selectorExtractors: AnyFieldExtractor[] = [
+  { field: "title", name: "selector.title", source: "selector", confidence: 0.6, extract: extractTitle },
+  { field: "price", name: "selector.price", source: "selector", confidence: 0.4, extract: extractPrice },
+  { field: "images", name: "selector.images", source: "selector", confidence: 0.5, extract: extractImages },
+  { field: "description", name: "selector.description", source: "selector", confidence: 0.5, extract: extractDescription },
+  { field: "brand", name: "selector.brand", source: "selector", confidence: 0.4, extract: extractBrand },
+  { field: "category", name: "selector.breadcrumb", source: "selector", confidence: 0.4, extract: extractCategory },
+  { field: "rating", name: "selector.rating", source: "selector", confidence: 0.3, extract: extractRating },
+  { field: "shipping", name: "selector.delivery", source: "selector", confidence: 0.4, extract: extractShipping },
+  { field: "seller", name: "selector.seller", source: "selector", confidence: 0.4, extract: extractSeller },
+  { field: "options", name: "selector.options", source: "selector", confidence: 0.5, extract: extractOptions },
+  { field: "availability", name: "selector.optionStock", source: "selector", confidence: 0.6, extract: extractAvailabilityFromOptions },
+  { field: "availability", name: "selector.purchaseArea", source: "selector", confidence: 0.4, extract: extractAvailabilityFromPurchaseArea },
+  { field: "specifications", name: "selector.specTable", source: "selector", confidence: 0.5, extract: extractSpecifications },
+  { field: "reviews", name: "selector.reviews", source: "selector", confidence: 0.3, extract: extractReviews },
+];
@@ -1,6 +1,10 @@
 import axios, { AxiosInstance, AxiosResponse } from "axios";
 import { AppError } from "../../../middleware/errorHandler";
 import { logInfo, logError, logWarning } from "../../../middleware/logger";
+import { config, FetcherConfig } from "../../../config";
+import { scraperMetrics } from "../../metrics/metrics";
+import { PageClassifier, PageType, BlockedError } from "./pageClassifier";
+import { NaverUrlResolver } from "./urlResolver";
 
 export interface FetchOptions {
   timeout?: number;
@@ -16,11 +20,19 @@ export interface FetchResult {
   url: string;
 }
 
-export class ProductFetcher {
-  private static readonly DEFAULT_TIMEOUT = 15000; // 15 seconds
-  private static readonly DEFAULT_RETRIES = 3;
-  private static readonly DEFAULT_RETRY_DELAY = 2000; // 2 seconds
+export interface RedirectOptions {
+  timeout?: number;
+  signal?: AbortSignal;
+}
+
+export interface RedirectResult {
+  // Where the redirects ended up
+  url: string;
+  status: number;
+  data: string;
+}
 
+export class ProductFetcher {
   // Rotate between multiple realistic User-Agent strings
   private static readonly USER_AGENTS = [
     "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
@@ -30,12 +42,17 @@ export class ProductFetcher {
     "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.2 Safari/605.1.15"
   ];
 
+  // Retry-After reported when Naver rate limits without saying how long
+  private static readonly DEFAULT_RETRY_AFTER = 10; // seconds
+
   private axiosInstance: AxiosInstance;
   private currentUserAgentIndex: number = 0;
+  private settings: FetcherConfig;
 
-  constructor() {
+  constructor(settings: FetcherConfig = config.fetcher) {
+    this.settings = settings;
     this.axiosInstance = axios.create({
-      timeout: ProductFetcher.DEFAULT_TIMEOUT,
+      timeout: settings.timeout,
       maxRedirects: 5,
       validateStatus: (status) => status < 500, // Don't throw on 4xx errors
     });
@@ -82,7 +99,8 @@ export class ProductFetcher {
    * Generate realistic browser headers
    */
   private generateBrowserHeaders(userAgent?: string): Record<string, string> {
-    const selectedUserAgent = userAgent || this.getNextUserAgent();
+    const selectedUserAgent =
+      userAgent || this.settings.userAgent || this.getNextUserAgent();
 
     return {
       "User-Agent": selectedUserAgent,
@@ -113,36 +131,61 @@ export class ProductFetcher {
   }
 
   /**
-   * Validate if URL is a valid Naver SmartStore product URL
+   * Validate if URL is a store product page that can be fetched directly
+   * (smartstore or brand store). Short links go through NaverUrlResolver.
    */
   static isValidNaverProductUrl(url: string): boolean {
-    try {
-      const urlObj = new URL(url);
-      return (
-        urlObj.hostname === "smartstore.naver.com" &&
-        urlObj.pathname.includes("/products/")
-      );
-    } catch {
-      return false;
-    }
+    return NaverUrlResolver.parse(url) !== null;
+  }
+
+  private static isTimeout(error: unknown): boolean {
+    return (
+      axios.isAxiosError(error) &&
+      (error.code === "ETIMEDOUT" ||
+        error.code === "ECONNABORTED" ||
+        error.message?.includes("timeout") === true)
+    );
+  }
+
+  /**
+   * Seconds to wait from a Retry-After header (delta seconds or HTTP date)
+   */
+  static parseRetryAfter(value: unknown): number | undefined {
+    if (typeof value !== "string" || !value.trim()) return undefined;
+
+    const seconds = Number(value);
+    if (Number.isFinite(seconds)) return Math.max(0, Math.ceil(seconds));
+
+    const date = Date.parse(value);
+    if (Number.isNaN(date)) return undefined;
+    return Math.max(0, Math.ceil((date - Date.now()) / 1000));
   }
 
   /**
    * Handle specific HTTP status codes
    */
-  private handleHttpStatus(status: number, url: string): void {
+  private handleHttpStatus(response: AxiosResponse): void {
+    const { status } = response;
+
     switch (status) {
       case 429:
-        throw new AppError("Too many requests - rate limited by server", 429);
+        throw new AppError("Too many requests - rate limited by server", 429, {
+          code: "UPSTREAM_RATE_LIMITED",
+          retryAfter:
+            ProductFetcher.parseRetryAfter(response.headers["retry-after"]) ??
+            ProductFetcher.DEFAULT_RETRY_AFTER,
+        });
       case 404:
-        throw new AppError("Product not found", 404);
+        throw new AppError("Product not found", 404, { code: "PRODUCT_NOT_FOUND" });
       case 403:
-        throw new AppError("Access forbidden - possible bot detection", 403);
+        throw new AppError("Access forbidden - possible bot detection", 403, {
+          code: "UPSTREAM_FORBIDDEN",
+        });
       case 503:
-        throw new AppError("Service unavailable", 503);
+        throw new AppError("Service unavailable", 503, { code: "UPSTREAM_UNAVAILABLE" });
       default:
         if (status >= 400) {
-          throw new AppError(`HTTP error ${status}`, status);
+          throw new AppError(`HTTP error ${status}`, status, { code: "UPSTREAM_ERROR" });
         }
     }
   }
@@ -151,23 +194,41 @@ export class ProductFetcher {
    * Fetch product page with retry logic and browser simulation
    */
   async fetchProductPage(url: string, options: FetchOptions = {}): Promise<FetchResult> {
-    const {
-      timeout = ProductFetcher.DEFAULT_TIMEOUT,
-      retries = ProductFetcher.DEFAULT_RETRIES,
-      retryDelay = ProductFetcher.DEFAULT_RETRY_DELAY,
-      userAgent
-    } = options;
-
     // Validate URL
     if (!ProductFetcher.isValidNaverProductUrl(url)) {
-      throw new AppError("Invalid Naver SmartStore product URL", 400);
+      throw new AppError("Invalid Naver SmartStore product URL", 400, { code: "INVALID_URL" });
     }
 
+    return this.fetchPage(url, options, "product");
+  }
+
+  /**
+   * Fetch a store listing page (home or category) with the same retries and
+   * headers as product pages. Closed or missing stores are detected instead
+   * of removed products. The caller builds the URL.
+   */
+  async fetchStorePage(url: string, options: FetchOptions = {}): Promise<FetchResult> {
+    return this.fetchPage(url, options, "store");
+  }
+
+  private async fetchPage(
+    url: string,
+    options: FetchOptions,
+    page: PageType,
+  ): Promise<FetchResult> {
+    const description = `${page} page`;
+    const {
+      timeout = this.settings.timeout,
+      retries = this.settings.retries,
+      retryDelay = this.settings.retryDelay,
+      userAgent
+    } = options;
+
     let lastError: Error | null = null;
 
     for (let attempt = 1; attempt <= retries + 1; attempt++) {
       try {
-        logInfo(`Fetching product page (attempt ${attempt}/${retries + 1}): ${url}`);
+        logInfo(`Fetching ${description} (attempt ${attempt}/${retries + 1}): ${url}`);
 
         // Add delay between attempts to avoid rate limiting
         if (attempt > 1) {
@@ -176,32 +237,42 @@ export class ProductFetcher {
 
         const headers = this.generateBrowserHeaders(userAgent);
 
-        const response: AxiosResponse = await this.axiosInstance.get(url, {
-          headers,
-          timeout,
-          // Add some browser-like behavior
-          params: {
-            // Add timestamp to avoid caching issues
-            _: Date.now()
-          }
-        });
+        const endTimer = scraperMetrics.fetchDuration.startTimer();
+        let response: AxiosResponse;
+        try {
+          response = await this.axiosInstance.get(url, {
+            headers,
+            timeout,
+            // Add some browser-like behavior
+            params: {
+              // Add timestamp to avoid caching issues
+              _: Date.now()
+            }
+          });
+        } catch (error) {
+          endTimer({ status: ProductFetcher.isTimeout(error) ? "timeout" : "error" });
+          throw error;
+        }
+        endTimer({ status: response.status });
 
         // Handle specific status codes
-        this.handleHttpStatus(response.status, url);
+        this.handleHttpStatus(response);
 
         // Check if we got valid HTML content
-        const contentType = response.headers['content-type'] || '';
+        const contentType = String(response.headers['content-type'] || '');
         if (!contentType.includes('text/html')) {
-          throw new AppError("Response is not HTML content", 400);
+          throw new AppError("Response is not HTML content", 502, { code: "UPSTREAM_ERROR" });
         }
 
-        // Check if content looks like it might be blocked
+        // Captcha, block, removed-product and closed-store pages never reach the parser
         const content = response.data as string;
-        if (content.includes('captcha') || content.includes('blocked') || content.length < 1000) {
-          logWarning("Potential bot detection or blocked content detected");
+        if (page === "store") {
+          PageClassifier.assertStorePage(content, url);
+        } else {
+          PageClassifier.assertProductPage(content, url);
         }
 
-        logInfo(`Successfully fetched product page: ${url} (${content.length} characters)`);
+        logInfo(`Successfully fetched ${description}: ${url} (${content.length} characters)`);
 
         return {
           data: content,
@@ -213,6 +284,12 @@ export class ProductFetcher {
       } catch (error: any) {
         lastError = error;
 
+        // Retrying a blocked page straight away only digs deeper; the
+        // scheduler backs the store off instead
+        if (error instanceof BlockedError) {
+          throw error;
+        }
+
         // Don't retry on specific errors
         if (error instanceof AppError) {
           const statusCode = error.statusCode;
@@ -221,6 +298,7 @@ export class ProductFetcher {
           }
           if (statusCode === 429 && attempt <= retries) {
             logWarning(`Rate limited (attempt ${attempt}), waiting longer before retry...`);
+            scraperMetrics.fetchRetries.inc({ reason: "rate_limited" });
             await this.addRandomDelay(retryDelay * attempt * 2); // Wait longer for rate limiting
             continue;
           }
@@ -229,14 +307,17 @@ export class ProductFetcher {
         // Handle axios errors
         if (axios.isAxiosError(error)) {
           if (error.code === 'ENOTFOUND') {
-            throw new AppError("Product page not found", 404);
+            throw new AppError("Could not resolve the Naver host", 503, { code: "UPSTREAM_UNAVAILABLE" });
           } else if (error.code === 'ECONNREFUSED') {
-            throw new AppError("Connection refused by server", 503);
-          } else if (error.code === 'ETIMEDOUT' || error.message?.includes('timeout')) {
+            throw new AppError("Connection refused by server", 503, { code: "UPSTREAM_UNAVAILABLE" });
+          } else if (ProductFetcher.isTimeout(error)) {
             logWarning(`Request timeout (attempt ${attempt}), retrying...`);
             if (attempt > retries) {
-              throw new AppError("Request timeout while fetching product page", 408);
+              throw new AppError(`Request timeout while fetching ${description}`, 408, {
+                code: "UPSTREAM_TIMEOUT",
+              });
             }
+            scraperMetrics.fetchRetries.inc({ reason: "timeout" });
             continue;
           }
         }
@@ -246,6 +327,7 @@ export class ProductFetcher {
         }
 
         logWarning(`Attempt ${attempt} failed, retrying in ${retryDelay * attempt}ms...`);
+        scraperMetrics.fetchRetries.inc({ reason: "error" });
       }
     }
 
@@ -256,7 +338,53 @@ export class ProductFetcher {
       throw lastError;
     }
 
-    throw new AppError("Failed to fetch product page after multiple attempts", 500);
+    throw new AppError(`Failed to fetch ${description} after multiple attempts`, 502, {
+      code: "UPSTREAM_ERROR",
+    });
+  }
+
+  /**
+   * Follow a short link or shopping page to wherever Naver redirects it.
+   * One attempt, no page classification; the caller decides what the final
+   * URL and body mean.
+   */
+  async followRedirects(url: string, options: RedirectOptions = {}): Promise<RedirectResult> {
+    const { timeout = this.settings.timeout, signal } = options;
+
+    logInfo(`Following redirects from: ${url}`);
+
+    const endTimer = scraperMetrics.fetchDuration.startTimer();
+    let response: AxiosResponse;
+    try {
+      response = await this.axiosInstance.get(url, {
+        headers: this.generateBrowserHeaders(),
+        timeout,
+        signal,
+      });
+    } catch (error) {
+      endTimer({ status: ProductFetcher.isTimeout(error) ? "timeout" : "error" });
+      if (signal?.aborted) {
+        throw new AppError("Request cancelled", 499, { code: "REQUEST_CANCELLED" });
+      }
+      if (ProductFetcher.isTimeout(error)) {
+        throw new AppError("Request timeout while following redirects", 408, {
+          code: "UPSTREAM_TIMEOUT",
+        });
+      }
+      throw new AppError(`Could not follow redirects from ${url}`, 502, { code: "UPSTREAM_ERROR" });
+    }
+    endTimer({ status: response.status });
+
+    this.handleHttpStatus(response);
+
+    // Node's http adapter records the URL of the last hop on the response
+    const finalUrl: string = response.request?.res?.responseUrl || url;
+
+    return {
+      url: finalUrl,
+      status: response.status,
+      data: typeof response.data === "string" ? response.data : "",
+    };
   }
 
   /**
@@ -269,7 +397,7 @@ export class ProductFetcher {
       const headers = this.generateBrowserHeaders();
       await this.axiosInstance.get(storeUrl, {
         headers,
-        timeout: 10000
+        timeout: this.settings.timeout
       });
 
       // Add small delay after session establishment
@@ -0,0 +1,410 @@
+import { logWarning } from "../../../middleware/logger";
+import { NaverProductData } from "./parser";
+import {
+  ProductOptions,
+  ProductOptionCombination,
+  deriveAvailabilityFromOptions,
+} from "./options";
+
+/**
+ * Subset of the `/i/v2/channels/<channelUid>/products/<productId>` payload
+ * that we rely on. Every field is optional because Naver omits blocks that
+ * do not apply to a product (e.g. no reviews yet, no delivery info).
+ */
+export interface ChannelProductJson {
+  // Channel product id, the number in store URLs
+  id?: number | string;
+  // Origin product number, shared by every channel selling the product
+  productNo?: number | string;
+  name?: string;
+  dispName?: string;
+  salePrice?: number;
+  discountedSalePrice?: number;
+  discountedRatio?: number;
+  benefitsView?: {
+    discountedSalePrice?: number;
+    discountedRatio?: number;
+  };
+  representativeImageUrl?: string;
+  productImages?: {
+    url?: string;
+    order?: number;
+    imageType?: string;
+  }[];
+  category?: {
+    categoryId?: string;
+    categoryName?: string;
+    wholeCategoryId?: string;
+    wholeCategoryName?: string;
+  };
+  channel?: {
+    channelNo?: number | string;
+    channelName?: string;
+    channelSiteUrl?: string;
+    representName?: string;
+  };
+  naverShoppingSearchInfo?: {
+    brandName?: string;
+    manufacturerName?: string;
+    modelName?: string;
+  };
+  stockQuantity?: number;
+  productStatusType?: string;
+  reviewAmount?: {
+    totalReviewCount?: number;
+    averageReviewScore?: number;
+  };
+  productDeliveryInfo?: {
+    deliveryFeeType?: string;
+    baseFee?: number;
+    freeConditionalAmount?: number;
+    deliveryCompany?: {
+      name?: string;
+    };
+  };
+  productAttributes?: {
+    attributeName?: string;
+    minAttributeValue?: string;
+    attributeValueName?: string;
+  }[];
+  detailContents?: {
+    detailContentText?: string;
+  };
+  optionUsable?: boolean;
+  options?: {
+    id?: number | string;
+    groupName?: string;
+    optionType?: string;
+  }[];
+  optionCombinations?: {
+    id?: number | string;
+    optionName1?: string;
+    optionName2?: string;
+    optionName3?: string;
+    optionName4?: string;
+    price?: number;
+    stockQuantity?: number;
+    usable?: boolean;
+  }[];
+}
+
+export class ProductMapper {
+  // Product status values that mean the item cannot be ordered
+  private static readonly UNAVAILABLE_STATUSES = [
+    "OUTOFSTOCK",
+    "SUSPENSION",
+    "CLOSE",
+    "PROHIBITION",
+    "DELETE",
+  ];
+
+  /**
+   * Product name, preferring the display name when present
+   */
+  static mapTitle(json: ChannelProductJson): string {
+    return (json.dispName || json.name || "").trim();
+  }
+
+  /**
+   * Channel product id, the number in store URLs, falling back to the
+   * origin product number and then to the id found in the URL
+   */
+  static mapProductId(json: ChannelProductJson, url: string): string {
+    const productId = json.id ?? json.productNo;
+    if (productId !== undefined && productId !== null) {
+      return String(productId);
+    }
+
+    const match = url.match(/\/products\/(\d+)/);
+    return match?.[1] ?? "";
+  }
+
+  /**
+   * Sale price and discounted price
+   */
+  static mapPrice(json: ChannelProductJson): NaverProductData["price"] {
+    const original = this.toPositiveNumber(json.salePrice);
+    const discountedCandidate = this.toPositiveNumber(
+      json.benefitsView?.discountedSalePrice ?? json.discountedSalePrice,
+    );
+
+    // Naver repeats the sale price as "discounted" when there is no discount
+    const discounted =
+      discountedCandidate !== undefined &&
+      (original === undefined || discountedCandidate < original)
+        ? discountedCandidate
+        : undefined;
+
+    const displayPrice = discounted ?? original;
+
+    return {
+      original,
+      discounted,
+      currency: "KRW",
+      formatted: displayPrice
+        ? `${displayPrice.toLocaleString()}원`
+        : "가격 정보 없음",
+    };
+  }
+
+  /**
+   * Representative image first, then the remaining images in display order
+   */
+  static mapImages(json: ChannelProductJson, maxImages: number): string[] {
+    const images: string[] = [];
+
+    const sorted = [...(json.productImages || [])].sort((a, b) => {
+      const aRep = a.imageType === "REPRESENTATIVE" ? 0 : 1;
+      const bRep = b.imageType === "REPRESENTATIVE" ? 0 : 1;
+      return aRep - bRep || (a.order ?? 0) - (b.order ?? 0);
+    });
+
+    const candidates = [
+      json.representativeImageUrl,
+      ...sorted.map((image) => image.url),
+    ];
+
+    for (const candidate of candidates) {
+      if (images.length >= maxImages) break;
+      if (!candidate) continue;
+
+      const fullUrl = candidate.startsWith("//")
+        ? `https:${candidate}`
+        : candidate;
+      if (!images.includes(fullUrl)) {
+        images.push(fullUrl);
+      }
+    }
+
+    return images;
+  }
+
+  /**
+   * Plain-text detail content, truncated
+   */
+  static mapDescription(
+    json: ChannelProductJson,
+    maxLength: number,
+  ): string {
+    const text = (json.detailContents?.detailContentText || "")
+      .replace(/<[^>]*>/g, " ")
+      .replace(/\s+/g, " ")
+      .trim();
+
+    return text.length > maxLength ? text.substring(0, maxLength) + "..." : text;
+  }
+
+  /**
+   * Brand from the shopping search info block
+   */
+  static mapBrand(json: ChannelProductJson): string {
+    const info = json.naverShoppingSearchInfo;
+    return (info?.brandName || info?.manufacturerName || "").trim();
+  }
+
+  /**
+   * Full category path, e.g. "패션의류 > 여성의류 > 니트"
+   */
+  static mapCategory(json: ChannelProductJson): string {
+    const whole = json.category?.wholeCategoryName;
+    if (whole) {
+      return whole
+        .split(">")
+        .map((part) => part.trim())
+        .filter(Boolean)
+        .join(" > ");
+    }
+
+    return json.category?.categoryName || "";
+  }
+
+  /**
+   * Delivery fee and carrier
+   */
+  static mapShipping(
+    json: ChannelProductJson,
+  ): NaverProductData["shipping"] {
+    const delivery = json.productDeliveryInfo;
+    if (!delivery) return undefined;
+
+    let fee: string;
+    switch (delivery.deliveryFeeType) {
+      case "FREE":
+        fee = "무료배송";
+        break;
+      case "CONDITIONAL_FREE":
+        fee = delivery.freeConditionalAmount
+          ? `${(delivery.baseFee ?? 0).toLocaleString()}원 (${delivery.freeConditionalAmount.toLocaleString()}원 이상 무료)`
+          : "조건부 무료배송";
+        break;
+      default:
+        fee = delivery.baseFee
+          ? `${delivery.baseFee.toLocaleString()}원`
+          : "배송료 별도";
+    }
+
+    return {
+      fee,
+      method: delivery.deliveryCompany?.name || "택배배송",
+    };
+  }
+
+  /**
+   * Seller name and store URL
+   */
+  static mapSeller(
+    json: ChannelProductJson,
+    url: string,
+  ): NaverProductData["seller"] {
+    let storeUrl = "";
+    try {
+      const urlObj = new URL(url);
+      const brandUsername = urlObj.pathname.split("/")[1];
+      storeUrl = brandUsername ? `${urlObj.origin}/${brandUsername}` : "";
+    } catch {
+      logWarning(`Could not derive store URL from: ${url}`);
+    }
+
+    const channel = json.channel;
+    const siteUrl = channel?.channelSiteUrl;
+
+    return {
+      name: channel?.channelName || channel?.representName || "",
+      url: siteUrl
+        ? siteUrl.startsWith("http")
+          ? siteUrl
+          : `https://smartstore.naver.com/${siteUrl}`
+        : storeUrl,
+    };
+  }
+
+  /**
+   * Option groups and per-combination price and stock
+   */
+  static mapOptions(
+    json: ChannelProductJson,
+    basePrice?: number,
+  ): ProductOptions | undefined {
+    const rawCombinations = json.optionCombinations || [];
+    if (json.optionUsable === false || rawCombinations.length === 0) {
+      return undefined;
+    }
+
+    const groups = (json.options || []).map((option, index) => ({
+      name: option.groupName || `옵션${index + 1}`,
+      values: [] as string[],
+    }));
+
+    const combinations: ProductOptionCombination[] = rawCombinations.map(
+      (raw, index) => {
+        const values = [
+          raw.optionName1,
+          raw.optionName2,
+          raw.optionName3,
+          raw.optionName4,
+        ].filter((value): value is string => !!value);
+
+        values.forEach((value, groupIndex) => {
+          if (!groups[groupIndex]) {
+            groups[groupIndex] = { name: `옵션${groupIndex + 1}`, values: [] };
+          }
+          if (!groups[groupIndex]!.values.includes(value)) {
+            groups[groupIndex]!.values.push(value);
+          }
+        });
+
+        const additionalPrice = raw.price ?? 0;
+        const stockQuantity = raw.stockQuantity;
+
+        return {
+          id: raw.id !== undefined ? String(raw.id) : String(index),
+          values,
+          additionalPrice,
+          price:
+            basePrice !== undefined ? basePrice + additionalPrice : undefined,
+          stockQuantity,
+          soldOut:
+            raw.usable === false ||
+            (typeof stockQuantity === "number" && stockQuantity <= 0),
+        };
+      },
+    );
+
+    return { groups, combinations };
+  }
+
+  /**
+   * Availability from product status, then combination stock, then
+   * remaining stock
+   */
+  static mapAvailability(
+    json: ChannelProductJson,
+    options?: ProductOptions,
+  ): boolean {
+    if (
+      json.productStatusType &&
+      ProductMapper.UNAVAILABLE_STATUSES.includes(json.productStatusType)
+    ) {
+      return false;
+    }
+
+    const fromOptions = deriveAvailabilityFromOptions(options);
+    if (fromOptions !== undefined) {
+      return fromOptions;
+    }
+
+    if (typeof json.stockQuantity === "number") {
+      return json.stockQuantity > 0;
+    }
+
+    return true;
+  }
+
+  /**
+   * Product attributes as key/value specifications
+   */
+  static mapSpecifications(json: ChannelProductJson): Record<string, string> {
+    const specs: Record<string, string> = {};
+
+    for (const attribute of json.productAttributes || []) {
+      const key = attribute.attributeName?.trim();
+      const value = (
+        attribute.attributeValueName || attribute.minAttributeValue
+      )?.trim();
+
+      if (key && value) {
+        specs[key] = specs[key] ? `${specs[key]}, ${value}` : value;
+      }
+    }
+
+    const info = json.naverShoppingSearchInfo;
+    if (info?.manufacturerName && !specs["제조사"]) {
+      specs["제조사"] = info.manufacturerName;
+    }
+    if (info?.modelName && !specs["모델명"]) {
+      specs["모델명"] = info.modelName;
+    }
+
+    return specs;
+  }
+
+  /**
+   * Review count and average score
+   */
+  static mapReviews(json: ChannelProductJson): NaverProductData["reviews"] {
+    const reviewAmount = json.reviewAmount;
+    if (!reviewAmount) return undefined;
+
+    return {
+      count: reviewAmount.totalReviewCount ?? 0,
+      averageRating: reviewAmount.averageReviewScore ?? 0,
+    };
+  }
+
+  private static toPositiveNumber(value: unknown): number | undefined {
+    const num = typeof value === "string" ? Number(value) : value;
+    return typeof num === "number" && Number.isFinite(num) && num > 0
+      ? num
+      : undefined;
+  }
+}
@@ -0,0 +1,83 @@
+export interface ProductOptionGroup {
+  name: string;
+  values: string[];
+}
+
+export interface ProductOptionCombination {
+  id: string;
+  values: string[];
+  additionalPrice: number;
+  price?: number;
+  stockQuantity?: number;
+  soldOut: boolean;
+}
+
+export interface ProductOptions {
+  groups: ProductOptionGroup[];
+  combinations: ProductOptionCombination[];
+}
+
+/**
+ * Option label split into its display value and the annotations Smartstore
+ * appends to it, e.g. "블랙 / M (+2,000원) (품절)"
+ */
+export interface ParsedOptionLabel {
+  value: string;
+  additionalPrice: number;
+  stockQuantity?: number;
+  soldOut: boolean;
+}
+
+const SOLD_OUT_PATTERN = /\(?\s*(품절|일시품절|재고없음|sold\s*out)\s*\)?/i;
+const PRICE_PATTERN = /\(\s*([+-])\s*([\d,]+)\s*원\s*\)/;
+const STOCK_PATTERN = /\(\s*(?:재고|남은수량)\s*:?\s*([\d,]+)\s*개?\s*\)/;
+
+/**
+ * Parse a rendered option label into value, surcharge, stock and sold-out flag
+ */
+export function parseOptionLabel(label: string): ParsedOptionLabel {
+  let text = label.replace(/\s+/g, " ").trim();
+
+  const soldOut = SOLD_OUT_PATTERN.test(text);
+  text = text.replace(SOLD_OUT_PATTERN, " ");
+
+  let additionalPrice = 0;
+  const priceMatch = text.match(PRICE_PATTERN);
+  if (priceMatch && priceMatch[2]) {
+    const amount = parseInt(priceMatch[2].replace(/,/g, ""));
+    additionalPrice = priceMatch[1] === "-" ? -amount : amount;
+    text = text.replace(PRICE_PATTERN, " ");
+  }
+
+  let stockQuantity: number | undefined;
+  const stockMatch = text.match(STOCK_PATTERN);
+  if (stockMatch && stockMatch[1]) {
+    stockQuantity = parseInt(stockMatch[1].replace(/,/g, ""));
+    text = text.replace(STOCK_PATTERN, " ");
+  }
+
+  return {
+    value: text.replace(/\s+/g, " ").trim(),
+    additionalPrice,
+    stockQuantity,
+    soldOut: soldOut || stockQuantity === 0,
+  };
+}
+
+/**
+ * Derive availability from combination stock. Returns undefined when the
+ * product has no combinations so callers can fall back to other signals.
+ */
+export function deriveAvailabilityFromOptions(
+  options: ProductOptions | undefined,
+): boolean | undefined {
+  if (!options || options.combinations.length === 0) {
+    return undefined;
+  }
+
+  return options.combinations.some(
+    (combination) =>
+      !combination.soldOut &&
+      (combination.stockQuantity === undefined || combination.stockQuantity > 0),
+  );
+}
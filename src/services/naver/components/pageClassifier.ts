@@ -0,0 +1,248 @@
+import { AppError, ERROR_CODES, ErrorCode } from "../../../middleware/errorHandler";
+import { logWarning } from "../../../middleware/logger";
+
+/**
+ * The kind of page a URL was fetched for
+ */
+export type PageType = "product" | "store";
+
+/**
+ * What a fetched page turned out to be
+ */
+export type PageKind =
+  | "product"
+  | "store"
+  | "captcha"
+  | "soft_block"
+  | "login_wall"
+  | "age_gate"
+  | "removed"
+  | "store_closed"
+  | "store_missing"
+  | "unknown";
+
+export type BlockedKind = Exclude<PageKind, PageType | "unknown">;
+
+export interface PageClassification {
+  kind: PageKind;
+  // Human-readable explanation, safe to return to clients
+  reason: string;
+  // Markers that matched, for logs
+  signals: string[];
+}
+
+/**
+ * Error code reported for each kind of blocked page
+ */
+const BLOCKED_CODES: Record<BlockedKind, ErrorCode> = {
+  captcha: "BLOCKED_BY_CAPTCHA",
+  soft_block: "UPSTREAM_BLOCKED",
+  login_wall: "LOGIN_REQUIRED",
+  age_gate: "AGE_VERIFICATION_REQUIRED",
+  removed: "PRODUCT_REMOVED",
+  store_closed: "STORE_CLOSED",
+  store_missing: "STORE_NOT_FOUND",
+};
+
+/**
+ * Thrown when a page is not a usable product or store page, instead of
+ * handing a captcha or error page to the parser
+ */
+export class BlockedError extends AppError {
+  readonly kind: BlockedKind;
+  readonly signals: string[];
+
+  constructor(kind: BlockedKind, message: string, signals: string[] = []) {
+    const code = BLOCKED_CODES[kind];
+    super(message, ERROR_CODES[code].statusCode, { code });
+    this.name = "BlockedError";
+    this.kind = kind;
+    this.signals = signals;
+  }
+
+  /**
+   * Captchas and soft blocks clear up if we slow down; the rest won't
+   */
+  get isTransient(): boolean {
+    return this.kind === "captcha" || this.kind === "soft_block";
+  }
+}
+
+interface Rule {
+  kind: BlockedKind;
+  reason: string;
+  patterns: RegExp[];
+  // Whether the rule also applies to pages carrying product markers. Real
+  // product pages link to the login page, mention age limits in descriptions
+  // and so on, so most rules only judge pages that aren't product pages.
+  onProductPages: boolean;
+  // Page types the rule judges. Store listings embed products in any state,
+  // so product rules don't apply to them and vice versa.
+  pages: PageType[];
+}
+
+/**
+ * Checked in order; the first rule with a matching pattern wins. Patterns
+ * look for page furniture (forms, scripts, fixed notices) rather than loose
+ * words, so a review mentioning "robot" doesn't trip them.
+ */
+const RULES: Rule[] = [
+  {
+    kind: "captcha",
+    reason: "Naver served a captcha challenge instead of the requested page",
+    patterns: [
+      /ncaptcha|captcha\.naver\.com|wtm_captcha/i,
+      /g-recaptcha|hcaptcha\.com|recaptcha\/api/i,
+      /자동입력\s*방지/,
+      /<form[^>]+captcha/i,
+    ],
+    onProductPages: true,
+    pages: ["product", "store"],
+  },
+  {
+    kind: "removed",
+    reason: "The product has been deleted or is no longer listed",
+    patterns: [/"productStatusType"\s*:\s*"(DELETE|PROHIBITION)"/],
+    onProductPages: true,
+    pages: ["product"],
+  },
+  {
+    kind: "login_wall",
+    reason: "The page requires a Naver login",
+    patterns: [/nid\.naver\.com\/nidlogin/i, /로그인이\s*필요/],
+    onProductPages: false,
+    pages: ["product", "store"],
+  },
+  {
+    kind: "age_gate",
+    reason: "The product requires adult (19+) verification",
+    patterns: [/성인\s*인증/, /19세\s*미만[^<]{0,40}(이용|구매)/, /adult_?auth/i],
+    onProductPages: false,
+    pages: ["product"],
+  },
+  {
+    kind: "removed",
+    reason: "The product has been deleted or is no longer listed",
+    patterns: [
+      /삭제된\s*상품|존재하지\s*않는\s*상품|상품이\s*존재하지\s*않습니다/,
+      /판매\s*금지된\s*상품/,
+    ],
+    onProductPages: false,
+    pages: ["product"],
+  },
+  {
+    kind: "store_closed",
+    reason: "The store has been closed or suspended",
+    patterns: [/"channelStatusType"\s*:\s*"(CLOSE|CLOSED|SUSPENSION|DORMANT)"/],
+    onProductPages: true,
+    pages: ["store"],
+  },
+  {
+    kind: "store_closed",
+    reason: "The store has been closed or suspended",
+    patterns: [/운영(이)?\s*중지된\s*스토어|휴면\s*(상태인|중인)\s*스토어|폐점된\s*스토어/],
+    onProductPages: false,
+    pages: ["store"],
+  },
+  {
+    kind: "store_missing",
+    reason: "Naver has no store with this username",
+    patterns: [/존재하지\s*않는\s*스토어|스토어가\s*존재하지\s*않습니다/],
+    onProductPages: false,
+    pages: ["store"],
+  },
+  {
+    kind: "soft_block",
+    reason: "Naver refused the request (temporary block or rate limit page)",
+    patterns: [
+      /비정상적인\s*(접근|요청)/,
+      /서비스\s*접속이\s*(일시적으로\s*)?(불가|제한)/,
+      /접근이\s*(일시적으로\s*)?제한/,
+      /<title>\s*(access denied|too many requests|error)\s*<\/title>/i,
+    ],
+    onProductPages: false,
+    pages: ["product", "store"],
+  },
+];
+
+/**
+ * Markers only a rendered product or store page carries
+ */
+const PRODUCT_MARKERS: RegExp[] = [
+  /property=["']og:title["']/i,
+  /property=["']product:price:amount["']/i,
+  /__PRELOADED_STATE__/,
+  /"channelProductNo"/,
+];
+
+// Real product pages are far larger; tiny bodies are error stubs
+const MIN_PRODUCT_PAGE_LENGTH = 500;
+
+const matching = (patterns: RegExp[], html: string): string[] =>
+  patterns.filter((pattern) => pattern.test(html)).map((pattern) => pattern.source);
+
+export class PageClassifier {
+  /**
+   * Work out what kind of page `html`, fetched as a `page`, is
+   */
+  static classify(html: string, page: PageType = "product"): PageClassification {
+    const productSignals = matching(PRODUCT_MARKERS, html);
+    const isProductPage = productSignals.length > 0;
+
+    for (const rule of RULES) {
+      if (!rule.pages.includes(page)) continue;
+      if (isProductPage && !rule.onProductPages) continue;
+
+      const signals = matching(rule.patterns, html);
+      if (signals.length > 0) {
+        return { kind: rule.kind, reason: rule.reason, signals };
+      }
+    }
+
+    if (isProductPage) {
+      return page === "store"
+        ? { kind: "store", reason: "Store page", signals: productSignals }
+        : { kind: "product", reason: "Product page", signals: productSignals };
+    }
+
+    if (html.trim().length < MIN_PRODUCT_PAGE_LENGTH) {
+      return {
+        kind: "soft_block",
+        reason: "Naver returned an almost empty page",
+        signals: [`length<${MIN_PRODUCT_PAGE_LENGTH}`],
+      };
+    }
+
+    return { kind: "unknown", reason: "No product markers found", signals: [] };
+  }
+
+  /**
+   * Classify the page and throw a BlockedError unless it could be a product
+   * page. Unknown pages are let through so the parser can decide.
+   */
+  static assertProductPage(html: string, url: string): PageClassification {
+    return PageClassifier.assertPage(html, url, "product");
+  }
+
+  /**
+   * Same as assertProductPage for store home and listing pages, which fail
+   * as closed or missing stores rather than removed products
+   */
+  static assertStorePage(html: string, url: string): PageClassification {
+    return PageClassifier.assertPage(html, url, "store");
+  }
+
+  private static assertPage(html: string, url: string, page: PageType): PageClassification {
+    const result = PageClassifier.classify(html, page);
+
+    if (result.kind === "product" || result.kind === "store") return result;
+
+    if (result.kind === "unknown") {
+      logWarning(`No ${page} markers found on ${url}; parsing anyway`);
+      return result;
+    }
+
+    logWarning(`Page for ${url} classified as ${result.kind}`, { signals: result.signals });
+    throw new BlockedError(result.kind, result.reason, result.signals);
+  }
+}
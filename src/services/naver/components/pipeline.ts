@@ -0,0 +1,183 @@
+import * as cheerio from "cheerio";
+import { logInfo, logWarning } from "../../../middleware/logger";
+import type { NaverProductData, ParseOptions } from "./parser";
+import type { ChannelProductJson } from "./mapper";
+
+/**
+ * Where a field value came from, ordered roughly by how much we trust it
+ */
+export type ExtractionSource =
+  | "api_json"
+  | "embedded_state"
+  | "json_ld"
+  | "meta"
+  | "selector"
+  | "fallback";
+
+/**
+ * Fields produced by the extraction pipeline. `productId` and `url` come
+ * straight from the request URL and are not extracted.
+ */
+export type ProductField =
+  | "title"
+  | "price"
+  | "images"
+  | "description"
+  | "brand"
+  | "category"
+  | "rating"
+  | "shipping"
+  | "seller"
+  | "stockQuantity"
+  | "options"
+  | "availability"
+  | "specifications"
+  | "reviews";
+
+export type FieldValue<K extends ProductField> = NonNullable<NaverProductData[K]>;
+
+export interface FieldProvenance {
+  source: ExtractionSource;
+  extractor: string;
+  confidence: number;
+}
+
+export type ProductProvenance = Partial<Record<ProductField, FieldProvenance>>;
+
+/**
+ * Everything an extractor may look at. `resolved` holds the fields already
+ * produced earlier in the run, so dependent fields (e.g. availability from
+ * options) can build on them.
+ */
+export interface ExtractionContext {
+  $: cheerio.CheerioAPI;
+  html: string;
+  url: string;
+  brandUsername: string;
+  productId: string;
+  // Home page of the smartstore or brand store selling the product
+  storeUrl: string;
+  options: Required<ParseOptions>;
+  apiJson?: ChannelProductJson;
+  resolved: Partial<NaverProductData>;
+  provenance: ProductProvenance;
+  cache: Map<string, unknown>;
+}
+
+export interface FieldExtractor<K extends ProductField> {
+  field: K;
+  name: string;
+  source: ExtractionSource;
+  confidence: number;
+  extract(context: ExtractionContext): FieldValue<K> | undefined;
+}
+
+export type AnyFieldExtractor = {
+  [K in ProductField]: FieldExtractor<K>;
+}[ProductField];
+
+/**
+ * Order in which fields are resolved. Fields that depend on other fields
+ * must come after them.
+ */
+export const FIELD_ORDER: ProductField[] = [
+  "title",
+  "price",
+  "images",
+  "description",
+  "seller",
+  "brand",
+  "category",
+  "rating",
+  "shipping",
+  "stockQuantity",
+  "options",
+  "availability",
+  "specifications",
+  "reviews",
+];
+
+export class ExtractionPipeline {
+  private extractors: Map<ProductField, AnyFieldExtractor[]> = new Map();
+
+  /**
+   * Register one or more extractors. Extractors for the same field are tried
+   * from highest to lowest confidence.
+   */
+  register(...extractors: AnyFieldExtractor[]): ExtractionPipeline {
+    for (const extractor of extractors) {
+      const list = this.extractors.get(extractor.field) || [];
+      list.push(extractor);
+      list.sort((a, b) => b.confidence - a.confidence);
+      this.extractors.set(extractor.field, list);
+    }
+    return this;
+  }
+
+  /**
+   * Get registered extractors for a field, highest confidence first
+   */
+  getExtractors(field: ProductField): AnyFieldExtractor[] {
+    return [...(this.extractors.get(field) || [])];
+  }
+
+  /**
+   * Resolve a single field, recording its provenance in the context
+   */
+  resolveField<K extends ProductField>(
+    field: K,
+    context: ExtractionContext,
+  ): FieldValue<K> | undefined {
+    for (const extractor of this.extractors.get(field) || []) {
+      let value: unknown;
+      try {
+        value = extractor.extract(context);
+      } catch (error) {
+        logWarning(`Extractor ${extractor.name} failed for field ${field}`, error);
+        continue;
+      }
+
+      if (!ExtractionPipeline.isEmpty(value)) {
+        context.provenance[field] = {
+          source: extractor.source,
+          extractor: extractor.name,
+          confidence: extractor.confidence,
+        };
+        return value as FieldValue<K>;
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Resolve every field in dependency order
+   */
+  run(context: ExtractionContext): Partial<NaverProductData> {
+    for (const field of FIELD_ORDER) {
+      const value = this.resolveField(field, context);
+      if (value !== undefined) {
+        (context.resolved as Record<string, unknown>)[field] = value;
+      }
+    }
+
+    const sources = Object.entries(context.provenance)
+      .map(([field, provenance]) => `${field}=${provenance?.source}`)
+      .join(", ");
+    logInfo(`Extraction pipeline resolved: ${sources}`);
+
+    return context.resolved;
+  }
+
+  /**
+   * Values that should let the next extractor have a go
+   */
+  static isEmpty(value: unknown): boolean {
+    if (value === undefined || value === null) return true;
+    if (typeof value === "string") return value.trim().length === 0;
+    if (Array.isArray(value)) return value.length === 0;
+    if (typeof value === "number") return !Number.isFinite(value);
+    if (typeof value === "object") return Object.keys(value).length === 0;
+    return false;
+  }
+}
@@ -0,0 +1,311 @@
+import { AsyncResource } from "async_hooks";
+import { AppError } from "../../../middleware/errorHandler";
+import { logInfo, logWarning } from "../../../middleware/logger";
+import { config } from "../../../config";
+
+export interface SchedulerOptions {
+  maxConcurrent?: number;
+  maxPerStore?: number;
+  minDelayMs?: number;
+}
+
+export interface ScheduleOptions {
+  signal?: AbortSignal;
+  // Minimum spacing between request starts for this store, if larger than the default
+  minDelayMs?: number;
+}
+
+export interface SchedulerStats {
+  active: number;
+  queued: number;
+  maxConcurrent: number;
+  maxPerStore: number;
+  minDelayMs: number;
+  peakQueueDepth: number;
+  totalScheduled: number;
+  totalCompleted: number;
+  totalCancelled: number;
+  averageWaitMs: number;
+  stores: Record<string, { active: number; queued: number }>;
+}
+
+interface ScheduledTask {
+  store: string;
+  run: () => void;
+  cancel: (reason: AppError) => void;
+  minDelayMs: number;
+  enqueuedAt: number;
+}
+
+interface StoreState {
+  queue: ScheduledTask[];
+  active: number;
+  // Earliest time the next request for this store may start
+  nextStartAt: number;
+}
+
+/**
+ * Limits concurrent outbound requests globally and per store. Each store has
+ * its own FIFO queue and stores are served round-robin, so one large batch
+ * cannot starve requests for other stores.
+ */
+export class RequestScheduler {
+  private static readonly DEFAULT_MAX_CONCURRENT = 10;
+  private static readonly DEFAULT_MAX_PER_STORE = 2;
+  private static readonly DEFAULT_MIN_DELAY = 1000; // 1 second
+
+  private maxConcurrent: number;
+  private maxPerStore: number;
+  private minDelayMs: number;
+
+  private stores: Map<string, StoreState> = new Map();
+  // Round-robin order of stores with queued work
+  private rotation: string[] = [];
+  private active = 0;
+  private timer: NodeJS.Timeout | null = null;
+
+  private peakQueueDepth = 0;
+  private totalScheduled = 0;
+  private totalCompleted = 0;
+  private totalCancelled = 0;
+  private totalWaitMs = 0;
+  private totalStarted = 0;
+
+  constructor(options: SchedulerOptions = {}) {
+    this.maxConcurrent = Math.max(
+      1,
+      options.maxConcurrent ?? RequestScheduler.DEFAULT_MAX_CONCURRENT,
+    );
+    this.maxPerStore = Math.max(
+      1,
+      options.maxPerStore ?? RequestScheduler.DEFAULT_MAX_PER_STORE,
+    );
+    this.minDelayMs = Math.max(
+      0,
+      options.minDelayMs ?? RequestScheduler.DEFAULT_MIN_DELAY,
+    );
+  }
+
+  /**
+   * Run a task once a global and a per-store slot are free
+   */
+  schedule<T>(
+    store: string,
+    task: () => Promise<T>,
+    options: ScheduleOptions = {},
+  ): Promise<T> {
+    const { signal } = options;
+
+    if (signal?.aborted) {
+      return Promise.reject(new AppError("Request cancelled", 499, { code: "REQUEST_CANCELLED" }));
+    }
+
+    // Tasks start whenever a slot frees up; keep them in the caller's async
+    // context so their logs carry the right request id
+    const boundTask = AsyncResource.bind(task);
+
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => {
+        if (this.remove(scheduled)) {
+          scheduled.cancel(new AppError("Request cancelled", 499, { code: "REQUEST_CANCELLED" }));
+        }
+      };
+
+      const scheduled: ScheduledTask = {
+        store,
+        minDelayMs: Math.max(this.minDelayMs, options.minDelayMs ?? 0),
+        enqueuedAt: Date.now(),
+        run: () => {
+          signal?.removeEventListener("abort", onAbort);
+          boundTask().then(resolve, reject).finally(() => this.release(store));
+        },
+        cancel: (reason) => {
+          signal?.removeEventListener("abort", onAbort);
+          this.totalCancelled++;
+          reject(reason);
+        },
+      };
+
+      signal?.addEventListener("abort", onAbort, { once: true });
+
+      const state = this.getStore(store);
+      state.queue.push(scheduled);
+      if (!this.rotation.includes(store)) {
+        this.rotation.push(store);
+      }
+
+      this.totalScheduled++;
+      this.peakQueueDepth = Math.max(this.peakQueueDepth, this.getQueueDepth());
+
+      this.pump();
+    });
+  }
+
+  /**
+   * Hold back new requests for a store, e.g. after Naver answers 429
+   */
+  backoff(store: string, ms: number): void {
+    const state = this.getStore(store);
+    state.nextStartAt = Math.max(state.nextStartAt, Date.now() + ms);
+    logWarning(`Backing off requests to store ${store} for ${ms}ms`);
+  }
+
+  /**
+   * Number of tasks waiting for a slot
+   */
+  getQueueDepth(): number {
+    let depth = 0;
+    for (const state of this.stores.values()) {
+      depth += state.queue.length;
+    }
+    return depth;
+  }
+
+  /**
+   * Queue depth, utilisation and wait time metrics
+   */
+  getStats(): SchedulerStats {
+    const stores: SchedulerStats["stores"] = {};
+    for (const [store, state] of this.stores) {
+      if (state.active > 0 || state.queue.length > 0) {
+        stores[store] = { active: state.active, queued: state.queue.length };
+      }
+    }
+
+    return {
+      active: this.active,
+      queued: this.getQueueDepth(),
+      maxConcurrent: this.maxConcurrent,
+      maxPerStore: this.maxPerStore,
+      minDelayMs: this.minDelayMs,
+      peakQueueDepth: this.peakQueueDepth,
+      totalScheduled: this.totalScheduled,
+      totalCompleted: this.totalCompleted,
+      totalCancelled: this.totalCancelled,
+      averageWaitMs:
+        this.totalStarted > 0 ? Math.round(this.totalWaitMs / this.totalStarted) : 0,
+      stores,
+    };
+  }
+
+  /**
+   * Start as many queued tasks as the limits allow, visiting stores
+   * round-robin
+   */
+  private pump(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    const now = Date.now();
+    let earliestWait = Infinity;
+    let visited = 0;
+
+    while (this.active < this.maxConcurrent && visited < this.rotation.length) {
+      const store = this.rotation.shift()!;
+      const state = this.getStore(store);
+
+      if (state.queue.length === 0) {
+        // Nothing left for this store; drop it from the rotation
+        this.cleanup(store);
+        continue;
+      }
+
+      if (state.active >= this.maxPerStore || state.nextStartAt > now) {
+        if (state.active < this.maxPerStore) {
+          earliestWait = Math.min(earliestWait, state.nextStartAt - now);
+        }
+        this.rotation.push(store);
+        visited++;
+        continue;
+      }
+
+      const scheduled = state.queue.shift()!;
+      state.active++;
+      state.nextStartAt = now + scheduled.minDelayMs;
+      this.active++;
+      this.totalStarted++;
+      this.totalWaitMs += now - scheduled.enqueuedAt;
+
+      // Move to the back so other stores get the next slot
+      if (state.queue.length > 0) {
+        this.rotation.push(store);
+      }
+      visited = 0;
+
+      scheduled.run();
+    }
+
+    // Some store is only waiting on its delay; come back when it expires
+    if (earliestWait !== Infinity && this.active < this.maxConcurrent) {
+      this.timer = setTimeout(() => {
+        this.timer = null;
+        this.pump();
+      }, earliestWait);
+    }
+  }
+
+  private release(store: string): void {
+    const state = this.getStore(store);
+    state.active--;
+    this.active--;
+    this.totalCompleted++;
+
+    if (state.queue.length > 0 && !this.rotation.includes(store)) {
+      this.rotation.push(store);
+    }
+    this.cleanup(store);
+    this.pump();
+  }
+
+  private remove(scheduled: ScheduledTask): boolean {
+    const state = this.stores.get(scheduled.store);
+    if (!state) return false;
+
+    const index = state.queue.indexOf(scheduled);
+    if (index === -1) return false;
+
+    state.queue.splice(index, 1);
+    this.cleanup(scheduled.store);
+    return true;
+  }
+
+  private getStore(store: string): StoreState {
+    let state = this.stores.get(store);
+    if (!state) {
+      state = { queue: [], active: 0, nextStartAt: 0 };
+      this.stores.set(store, state);
+    }
+    return state;
+  }
+
+  /**
+   * Forget idle stores once their spacing window has passed
+   */
+  private cleanup(store: string): void {
+    const state = this.stores.get(store);
+    if (!state || state.queue.length > 0) return;
+
+    this.rotation = this.rotation.filter((name) => name !== store);
+    if (state.active === 0 && state.nextStartAt <= Date.now()) {
+      this.stores.delete(store);
+    }
+  }
+}
+
+let sharedScheduler: RequestScheduler | null = null;
+
+/**
+ * Process-wide scheduler built from the scheduler config
+ * (MAX_CONCURRENT_REQUESTS, MAX_CONCURRENT_PER_STORE, SCRAPING_DELAY_MS)
+ */
+export function getSharedScheduler(): RequestScheduler {
+  if (!sharedScheduler) {
+    sharedScheduler = new RequestScheduler(config.scheduler);
+    logInfo(
+      `Request scheduler ready: ${JSON.stringify(sharedScheduler.getStats())}`,
+    );
+  }
+  return sharedScheduler;
+}
@@ -0,0 +1,94 @@
+import { AppError } from "../../../middleware/errorHandler";
+
+interface Flight<T> {
+  promise: Promise<T>;
+  controller: AbortController;
+  callers: number;
+}
+
+/**
+ * Collapses concurrent calls with the same key into one execution; every
+ * caller receives the same result or error. A caller that aborts stops
+ * waiting on its own, and the shared work is only aborted once no caller is
+ * left waiting for it; calls after that run the work again.
+ */
+export class SingleFlight<T> {
+  private flights: Map<string, Flight<T>> = new Map();
+
+  async run(
+    key: string,
+    work: (signal: AbortSignal) => Promise<T>,
+    signal?: AbortSignal,
+  ): Promise<T> {
+    if (signal?.aborted) {
+      throw new AppError("Request cancelled", 499, { code: "REQUEST_CANCELLED" });
+    }
+
+    let flight = this.flights.get(key);
+    if (!flight) {
+      const controller = new AbortController();
+      const created: Flight<T> = {
+        controller,
+        callers: 0,
+        promise: Promise.resolve()
+          .then(() => work(controller.signal))
+          .finally(() => {
+            if (this.flights.get(key) === created) {
+              this.flights.delete(key);
+            }
+          }),
+      };
+      this.flights.set(key, created);
+      flight = created;
+    }
+
+    flight.callers++;
+    const current = flight;
+
+    if (!signal) {
+      return current.promise;
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => {
+        current.callers--;
+        if (current.callers === 0) {
+          // Later callers for this key start a fresh flight instead of
+          // joining one that is being torn down
+          if (this.flights.get(key) === current) {
+            this.flights.delete(key);
+          }
+          current.controller.abort();
+        }
+        reject(new AppError("Request cancelled", 499, { code: "REQUEST_CANCELLED" }));
+      };
+
+      signal.addEventListener("abort", onAbort, { once: true });
+
+      current.promise.then(
+        (value) => {
+          signal.removeEventListener("abort", onAbort);
+          resolve(value);
+        },
+        (error) => {
+          signal.removeEventListener("abort", onAbort);
+          reject(error);
+        },
+      );
+    });
+  }
+
+  /**
+   * Whether a call for this key is currently running
+   */
+  has(key: string): boolean {
+    return this.flights.has(key);
+  }
+
+  /**
+   * Number of distinct calls currently running
+   */
+  size(): number {
+    return this.flights.size;
+  }
+}
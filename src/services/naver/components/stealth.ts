@@ -1,48 +1,76 @@
-import { Page, Browser, BrowserContext, Route, Request } from "playwright";
+import { Page, Browser, BrowserContext, Route, Request, errors } from "playwright";
 import { chromium } from "playwright-extra";
 import StealthPlugin from "puppeteer-extra-plugin-stealth";
 import { newInjectedContext } from "fingerprint-injector";
+import { config, BrowserConfig } from "../../../config";
+import { AppError } from "../../../middleware/errorHandler";
+import { PageClassifier, BlockedError } from "./pageClassifier";
+import type { ChannelProductJson } from "./mapper";
+import type { BenefitsJson } from "./benefits";
 
 chromium.use(StealthPlugin());
 
 export interface StealthResponse {
-  responseProductJson: any;
-  responseBenefitsJson: any;
+  html: string;
+  responseProductJson: ChannelProductJson;
+  responseBenefitsJson: BenefitsJson;
 }
 
 export class StealthBrowser {
-  // todo: browser context should be initialized while the server launches
-  // not at the beginning of scraping function call
   private browserClient: Promise<Browser>;
-  private context: Promise<BrowserContext>;
 
-  constructor() {
-    const headlessMode = false;
+  constructor(settings: BrowserConfig = config.browser) {
     const argOptions = [
       "--no-sandbox",
       "--disable-setuid-sandbox",
       "--disable-dev-shm-usage",
       "--disable-blink-features=AutomationControlled",
     ];
-    const proxyOptions = {
-      server: process.env.PROXY_SERVER || "",
-      username: process.env.PROXY_USERNAME,
-      password: process.env.PROXY_PASSWORD,
-    };
-    const ws = process.env.BROWSER_CDP_SERVER || "";
-    if (ws !== "") {
-      this.browserClient = chromium.connectOverCDP(ws);
+    if (settings.cdpServer) {
+      this.browserClient = chromium.connectOverCDP(settings.cdpServer);
     } else {
       this.browserClient = chromium.launch({
-        headless: headlessMode,
+        headless: settings.headless,
         args: argOptions,
-        proxy: proxyOptions,
+        proxy: settings.proxy,
       });
     }
-    this.context = this.newContext();
+    // Launch failures surface through ready()/newContext(), not as unhandled rejections
+    this.browserClient.catch(() => undefined);
   }
 
-  private async newContext(): Promise<BrowserContext> {
+  /**
+   * Resolves once the browser has launched (or connected)
+   */
+  async ready(): Promise<void> {
+    await this.browserClient;
+  }
+
+  /**
+   * Whether the underlying browser is still usable
+   */
+  async isConnected(): Promise<boolean> {
+    try {
+      const browser = await this.browserClient;
+      return browser.isConnected();
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Register a callback for when the browser process goes away
+   */
+  onDisconnected(callback: () => void): void {
+    this.browserClient
+      .then((browser) => browser.on("disconnected", callback))
+      .catch(() => undefined);
+  }
+
+  /**
+   * Create a new context with an injected mobile fingerprint
+   */
+  async newContext(): Promise<BrowserContext> {
     const browser = await this.browserClient;
     const context = await newInjectedContext(browser, {
       fingerprintOptions: {
@@ -59,22 +87,31 @@ export class StealthBrowser {
     return context;
   }
 
-  private async newPage(context: BrowserContext): Promise<Page> {
-    const page = await context.newPage();
-    // const page = await newInjectedPage(this.browserClient, {
-    //   fingerprintOptions: {
-    //     devices: ["desktop"],
-    //     operatingSystems: ["linux"],
-    //   },
-    // });
-    return page;
-  }
-
+  /**
+   * Load a product page in a throwaway context and capture its API responses.
+   * Prefer BrowserPool, which reuses browsers across requests.
+   */
   async listenTo(url: string): Promise<StealthResponse> {
     const context = await this.newContext();
-    // const page = await this.browserClient.then((browser) => browser.newPage());
-    const page = await this.newPage(context);
+    try {
+      const page = await context.newPage();
+      return await StealthBrowser.capture(page, url);
+    } finally {
+      await context.close();
+    }
+  }
 
+  /**
+   * Navigate the page to a product URL and capture the product and benefits
+   * API responses. Captcha, block and removed pages never call those APIs,
+   * so the page is classified before and after waiting on them and throws
+   * a BlockedError instead of timing out. The page is closed afterwards.
+   */
+  static async capture(
+    page: Page,
+    url: string,
+    responseTimeoutMs: number = config.browser.responseTimeoutMs,
+  ): Promise<StealthResponse> {
     // Abort images
     await page.route("**/*", (route: Route, req: Request) => {
       if (req.resourceType() === "image") {
@@ -84,10 +121,11 @@ export class StealthBrowser {
       }
     });
 
-    // Wait for a product API response
+    // Wait for a product API response (/i/v2 on smartstore, /n/v2 on brand stores)
     const responseProductPromise = page.waitForResponse(
       (response) =>
-        response.url().includes("/i/v2/channels/") && response.status() === 200,
+        /\/[in]\/v2\/channels\//.test(response.url()) && response.status() === 200,
+      { timeout: responseTimeoutMs },
     );
 
     // Wait for a benefits API response
@@ -95,27 +133,53 @@ export class StealthBrowser {
       (response) =>
         response.url().includes("/benefits/by-product") &&
         response.status() === 200,
+      { timeout: responseTimeoutMs },
     );
 
-    await page.goto(url);
-
-    const responseProduct = await responseProductPromise;
-    const responseProductJson = await responseProduct.json();
-    console.log(responseProductJson);
-
-    const responseBenefits = await responseBenefitsPromise;
-    const responseBenefitsJson = await responseBenefits.json();
-    console.log(responseBenefitsJson);
-
-    await page.screenshot({ path: "screenshot.png", fullPage: true });
+    try {
+      await page.goto(url);
+      StealthBrowser.assertNotBlocked(await page.content());
+
+      let responses;
+      try {
+        responses = await Promise.all([responseProductPromise, responseBenefitsPromise]);
+      } catch (error) {
+        if (!(error instanceof errors.TimeoutError)) throw error;
+
+        // The page may have turned into a block page after loading
+        StealthBrowser.assertNotBlocked(await page.content());
+        throw new AppError("Timed out waiting for the product API response", 408, {
+          code: "UPSTREAM_TIMEOUT",
+        });
+      }
 
-    await page.close();
-    // await context.close();
+      const [responseProduct, responseBenefits] = responses;
+      const responseProductJson = await responseProduct.json();
+      const responseBenefitsJson = await responseBenefits.json();
+
+      const html = await page.content();
+
+      return {
+        html,
+        responseProductJson,
+        responseBenefitsJson,
+      };
+    } finally {
+      // Don't leave the pending waiters rejecting unobserved
+      responseProductPromise.catch(() => undefined);
+      responseBenefitsPromise.catch(() => undefined);
+      await page.close().catch(() => undefined);
+    }
+  }
 
-    return {
-      responseProductJson,
-      responseBenefitsJson,
-    };
+  /**
+   * Throw the classified error for captcha, block and removed pages. Pages
+   * without product markers yet are let through; the API responses decide.
+   */
+  private static assertNotBlocked(html: string): void {
+    const result = PageClassifier.classify(html);
+    if (result.kind === "product" || result.kind === "store" || result.kind === "unknown") return;
+    throw new BlockedError(result.kind, result.reason, result.signals);
   }
 
   /**
@@ -0,0 +1,241 @@
+import { AppError } from "../../../middleware/errorHandler";
+import { logInfo, logWarning } from "../../../middleware/logger";
+import { EmbeddedDataExtractor } from "./embedded";
+import { ChannelProductJson, ProductMapper } from "./mapper";
+import { NaverUrlResolver, StoreType } from "./urlResolver";
+
+export type StoreSort = "popular" | "recent" | "price_asc" | "price_desc" | "review" | "sales";
+
+// Value of the listing page's `st` parameter for each sort
+const SORT_PARAMS: Record<StoreSort, string> = {
+  popular: "POPULAR",
+  recent: "RECENT",
+  price_asc: "LOW_PRICE",
+  price_desc: "HIGH_PRICE",
+  review: "REVIEW",
+  sales: "TOTALSALE",
+};
+
+export const STORE_SORTS = Object.keys(SORT_PARAMS) as StoreSort[];
+
+// Category id Naver uses for the whole catalog
+export const ALL_CATEGORIES = "ALL";
+
+export interface StoreCatalogQuery {
+  page: number;
+  pageSize: number;
+  categoryId?: string;
+  sort?: StoreSort;
+}
+
+/**
+ * One product as shown on a store listing; fetch the product itself for
+ * options, benefits and the rest
+ */
+export interface StoreProductSummary {
+  productId: string;
+  title: string;
+  price: {
+    original?: number;
+    discounted?: number;
+    currency: string;
+    formatted: string;
+  };
+  thumbnail?: string;
+  url: string;
+  availability: boolean;
+  category?: string;
+  reviews?: {
+    count: number;
+    averageRating: number;
+  };
+}
+
+export interface StoreCatalogPage {
+  storeType: StoreType;
+  brandUsername: string;
+  storeName?: string;
+  categoryId: string;
+  sort: StoreSort;
+  page: number;
+  pageSize: number;
+  // Products in the category, when Naver reports it
+  totalCount?: number;
+  totalPages?: number;
+  hasMore: boolean;
+  products: StoreProductSummary[];
+}
+
+interface Listing {
+  products: ChannelProductJson[];
+  totalCount?: number;
+}
+
+/**
+ * Reads a store's product listing from its category pages. Listing pages
+ * hydrate from the same `__PRELOADED_STATE__` as product pages, with each
+ * listed product in the channel product shape.
+ */
+export class StoreCatalog {
+  static readonly MAX_PAGE_SIZE = 80;
+
+  // Known locations of the listing inside the preloaded state
+  private static readonly LISTING_PATHS: string[][] = [
+    ["categoryProducts"],
+    ["smartStoreV2", "categoryProducts"],
+    ["category", "categoryProducts"],
+  ];
+
+  // Keys holding the product array inside a listing block
+  private static readonly PRODUCT_LIST_KEYS = ["simpleProducts", "products"];
+
+  private static readonly MAX_SEARCH_DEPTH = 5;
+
+  /**
+   * Category listing page for a query, e.g.
+   * https://smartstore.naver.com/<brandUsername>/category/ALL?st=POPULAR&dt=LIST&page=1&size=40
+   */
+  static listingUrl(
+    storeType: StoreType,
+    brandUsername: string,
+    query: StoreCatalogQuery,
+  ): string {
+    const { page, pageSize, categoryId = ALL_CATEGORIES, sort = "popular" } = query;
+    const params = new URLSearchParams({
+      st: SORT_PARAMS[sort],
+      dt: "LIST",
+      page: String(page),
+      size: String(pageSize),
+    });
+
+    return `${NaverUrlResolver.storeUrl(storeType, brandUsername)}/category/${encodeURIComponent(categoryId)}?${params}`;
+  }
+
+  /**
+   * Parse one listing page
+   */
+  static parseListingPage(
+    html: string,
+    storeType: StoreType,
+    brandUsername: string,
+    query: StoreCatalogQuery,
+  ): StoreCatalogPage {
+    const state = EmbeddedDataExtractor.extractPreloadedState(html);
+    const listing = state ? StoreCatalog.findListing(state) : null;
+
+    if (!listing) {
+      throw new AppError("Store page has no product listing", 502, {
+        code: "PARSE_INCOMPLETE",
+      });
+    }
+
+    const products: StoreProductSummary[] = [];
+    for (const json of listing.products) {
+      const summary = StoreCatalog.toSummary(json, storeType, brandUsername);
+      if (summary) {
+        products.push(summary);
+      } else {
+        logWarning("Skipping listed product without id or title");
+      }
+    }
+
+    const { page, pageSize, categoryId = ALL_CATEGORIES, sort = "popular" } = query;
+    const { totalCount } = listing;
+    const totalPages = totalCount !== undefined ? Math.ceil(totalCount / pageSize) : undefined;
+
+    logInfo(`Parsed ${products.length} products from ${brandUsername} (page ${page})`);
+
+    return {
+      storeType,
+      brandUsername,
+      storeName: listing.products[0]?.channel?.channelName,
+      categoryId,
+      sort,
+      page,
+      pageSize,
+      totalCount,
+      totalPages,
+      hasMore:
+        totalPages !== undefined ? page < totalPages : listing.products.length >= pageSize,
+      products,
+    };
+  }
+
+  /**
+   * Reduce a listed product to its summary; null without an id or title
+   */
+  static toSummary(
+    json: ChannelProductJson,
+    storeType: StoreType,
+    brandUsername: string,
+  ): StoreProductSummary | null {
+    const title = ProductMapper.mapTitle(json);
+    const productId = ProductMapper.mapProductId(json, "");
+    if (!title || !/^\d+$/.test(productId)) return null;
+
+    return {
+      productId,
+      title,
+      price: ProductMapper.mapPrice(json),
+      thumbnail: ProductMapper.mapImages(json, 1)[0],
+      url: `${NaverUrlResolver.storeUrl(storeType, brandUsername)}/products/${productId}`,
+      availability: ProductMapper.mapAvailability(json),
+      category: ProductMapper.mapCategory(json) || undefined,
+      reviews: ProductMapper.mapReviews(json),
+    };
+  }
+
+  private static findListing(state: Record<string, any>): Listing | null {
+    for (const path of StoreCatalog.LISTING_PATHS) {
+      let node: any = state;
+      for (const key of path) {
+        node = node?.[key];
+      }
+      const listing = StoreCatalog.asListing(node);
+      if (listing) return listing;
+    }
+
+    // Layouts change often, so fall back to a bounded search
+    return StoreCatalog.searchForListing(state, 0);
+  }
+
+  private static asListing(node: any): Listing | null {
+    if (!node || typeof node !== "object" || Array.isArray(node)) return null;
+
+    for (const key of StoreCatalog.PRODUCT_LIST_KEYS) {
+      const products = node[key];
+      if (!Array.isArray(products)) continue;
+
+      // An empty page past the end is still a listing
+      const looksLikeProducts = products.every(
+        (item) => item && typeof item === "object" && (item.id ?? item.productNo) !== undefined,
+      );
+      if (!looksLikeProducts) continue;
+
+      const totalCount = Number(node.totalCount ?? node.totalProductCount);
+      return {
+        products,
+        totalCount: Number.isFinite(totalCount) && totalCount >= 0 ? totalCount : undefined,
+      };
+    }
+
+    return null;
+  }
+
+  private static searchForListing(node: any, depth: number): Listing | null {
+    if (!node || typeof node !== "object" || depth > StoreCatalog.MAX_SEARCH_DEPTH) {
+      return null;
+    }
+
+    const listing = StoreCatalog.asListing(node);
+    if (listing && listing.products.length > 0) return listing;
+
+    for (const value of Object.values(node)) {
+      if (Array.isArray(value)) continue;
+      const found = StoreCatalog.searchForListing(value, depth + 1);
+      if (found) return found;
+    }
+
+    return null;
+  }
+}
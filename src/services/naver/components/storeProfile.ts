@@ -0,0 +1,253 @@
+import * as cheerio from "cheerio";
+import { AppError } from "../../../middleware/errorHandler";
+import { logInfo } from "../../../middleware/logger";
+import { EmbeddedDataExtractor } from "./embedded";
+import { NaverUrlResolver, StoreType } from "./urlResolver";
+
+/**
+ * Naver seller grade, from 씨앗 (newest) to 플래티넘 (largest sellers)
+ */
+export type StoreGradeCode = "SEED" | "SPROUT" | "POWER" | "BIG_POWER" | "PREMIUM" | "PLATINUM";
+
+const GRADE_LABELS: Record<StoreGradeCode, string> = {
+  SEED: "씨앗",
+  SPROUT: "새싹",
+  POWER: "파워",
+  BIG_POWER: "빅파워",
+  PREMIUM: "프리미엄",
+  PLATINUM: "플래티넘",
+};
+
+export interface StoreProfile {
+  storeType: StoreType;
+  brandUsername: string;
+  url: string;
+  channelNo?: string;
+  name: string;
+  description?: string;
+  logo?: string;
+  grade?: { code: StoreGradeCode; label: string };
+  // 굿서비스 badge for fast shipping and good reviews
+  goodService?: boolean;
+  business?: {
+    companyName?: string;
+    representative?: string;
+    registrationNumber?: string;
+    mailOrderNumber?: string;
+    address?: string;
+  };
+  contact?: {
+    phone?: string;
+    email?: string;
+    talkTalkUrl?: string;
+  };
+  customerService?: {
+    // Average satisfaction, out of 5
+    rating?: number;
+    reviewCount?: number;
+  };
+  shipping?: {
+    baseFee?: number;
+    freeShippingThreshold?: number;
+    carrier?: string;
+    returnFee?: number;
+    exchangeFee?: number;
+  };
+  followerCount?: number;
+}
+
+type Accept = (value: any) => boolean;
+
+const isText: Accept = (value) => typeof value === "string" && value.trim() !== "";
+const isCount: Accept = (value) => typeof value === "number" && Number.isFinite(value) && value >= 0;
+const isObject: Accept = (value) => !!value && typeof value === "object" && !Array.isArray(value);
+
+/**
+ * Reads a store's public profile from its home page. The home page
+ * hydrates from `__PRELOADED_STATE__`, whose layout differs between
+ * smartstores and brand stores and changes often, so every field is looked
+ * up by its known key names anywhere in the state rather than at a fixed
+ * path.
+ */
+export class StoreProfileParser {
+  private static readonly MAX_SEARCH_DEPTH = 6;
+
+  // Key names Naver has used for each field
+  private static readonly KEYS = {
+    grade: ["storeGrade", "sellerGrade", "actionGrade", "gradeCode"],
+    goodService: ["goodService", "goodServiceYn", "isGoodService"],
+    business: ["businessInfo", "sellerInfo", "businessPlaceInfo"],
+    companyName: ["representName", "companyName", "businessName"],
+    representative: ["representativeName", "ceoName"],
+    registrationNumber: ["businessRegistrationNumber", "bizRegNo"],
+    mailOrderNumber: ["mailOrderSalesNumber", "mailOrderNumber", "declaredToOnlineMarkettingNumber"],
+    address: ["businessAddress", "fullAddressInfo", "address"],
+    phone: ["customerCenterTelNo", "csTelNo", "telNo", "phoneNumber"],
+    email: ["csEmail", "email"],
+    talkAccount: ["talkAccountId", "talktalkAccountId"],
+    customerService: ["customerSatisfaction", "csInfo", "sellerSatisfaction"],
+    rating: ["averageScore", "satisfactionScore", "averageReviewScore"],
+    reviewCount: ["totalCount", "reviewCount", "totalReviewCount"],
+    shipping: ["defaultDeliveryInfo", "deliveryInfo", "storeDeliveryInfo"],
+    followers: ["followerCount", "interestCount", "subscriberCount"],
+  };
+
+  /**
+   * Parse the store home page
+   */
+  static parseStorePage(html: string, storeType: StoreType, brandUsername: string): StoreProfile {
+    const state = EmbeddedDataExtractor.extractPreloadedState(html) || {};
+    const $ = cheerio.load(html);
+    const find = (keys: string[], accept: Accept, node: unknown = state) =>
+      StoreProfileParser.findValue(node, keys, accept);
+
+    const channel = StoreProfileParser.findChannel(state);
+
+    const name =
+      (isText(channel?.channelName) ? String(channel?.channelName).trim() : undefined) ??
+      StoreProfileParser.nameFromTitle($("meta[property='og:title']").attr("content"));
+    if (!name) {
+      throw new AppError("Store name not found on the store page", 502, {
+        code: "PARSE_INCOMPLETE",
+      });
+    }
+
+    const business = find(StoreProfileParser.KEYS.business, isObject);
+    const customerService = find(StoreProfileParser.KEYS.customerService, isObject);
+    const shipping = find(StoreProfileParser.KEYS.shipping, isObject);
+    const talkAccount = find(StoreProfileParser.KEYS.talkAccount, isText);
+    const logo = channel?.representImageUrl ?? channel?.logoImageUrl;
+
+    const profile: StoreProfile = {
+      storeType,
+      brandUsername,
+      url: NaverUrlResolver.storeUrl(storeType, brandUsername),
+      channelNo: channel?.channelNo !== undefined ? String(channel.channelNo) : undefined,
+      name,
+      description:
+        (isText(channel?.description) ? String(channel?.description).trim() : undefined) ??
+        ($("meta[property='og:description']").attr("content")?.trim() || undefined),
+      logo: isText(logo) ? (logo.startsWith("//") ? `https:${logo}` : logo) : undefined,
+      grade: StoreProfileParser.parseGrade(
+        find(StoreProfileParser.KEYS.grade, (value) => isText(value) && !!StoreProfileParser.parseGrade(value)),
+      ),
+      goodService: StoreProfileParser.toBoolean(
+        find(StoreProfileParser.KEYS.goodService, (value) => StoreProfileParser.toBoolean(value) !== undefined),
+      ),
+      business: business
+        ? StoreProfileParser.compact({
+            companyName: find(StoreProfileParser.KEYS.companyName, isText, business),
+            representative: find(StoreProfileParser.KEYS.representative, isText, business),
+            registrationNumber: find(StoreProfileParser.KEYS.registrationNumber, isText, business),
+            mailOrderNumber: find(StoreProfileParser.KEYS.mailOrderNumber, isText, business),
+            address: find(StoreProfileParser.KEYS.address, isText, business),
+          })
+        : undefined,
+      contact: StoreProfileParser.compact({
+        phone: find(StoreProfileParser.KEYS.phone, isText),
+        email: find(StoreProfileParser.KEYS.email, isText),
+        talkTalkUrl: talkAccount ? `https://talk.naver.com/${encodeURIComponent(talkAccount)}` : undefined,
+      }),
+      customerService: customerService
+        ? StoreProfileParser.compact({
+            rating: find(StoreProfileParser.KEYS.rating, isCount, customerService),
+            reviewCount: find(StoreProfileParser.KEYS.reviewCount, isCount, customerService),
+          })
+        : undefined,
+      shipping: shipping
+        ? StoreProfileParser.compact({
+            baseFee: find(["baseFee", "deliveryFee"], isCount, shipping),
+            freeShippingThreshold: find(["freeConditionalAmount"], isCount, shipping),
+            carrier: shipping.deliveryCompany?.name ?? find(["deliveryCompanyName"], isText, shipping),
+            returnFee: find(["returnDeliveryFee", "returnFee"], isCount, shipping),
+            exchangeFee: find(["exchangeDeliveryFee", "exchangeFee"], isCount, shipping),
+          })
+        : undefined,
+      followerCount: find(StoreProfileParser.KEYS.followers, isCount),
+    };
+
+    logInfo(`Parsed store profile: ${name}`);
+    return profile;
+  }
+
+  /**
+   * Grade from a code (BIG_POWER) or its label (빅파워)
+   */
+  static parseGrade(value: string | undefined): StoreProfile["grade"] {
+    if (!value) return undefined;
+
+    const normalized = value.trim().toUpperCase().replace(/[\s-]/g, "_");
+    const entries = Object.entries(GRADE_LABELS) as [StoreGradeCode, string][];
+    const match = entries.find(
+      ([code, label]) => code === normalized || label === value.trim(),
+    );
+
+    return match ? { code: match[0], label: match[1] } : undefined;
+  }
+
+  /**
+   * The channel block carries the store's name, number and images
+   */
+  private static findChannel(state: Record<string, any>): Record<string, any> | undefined {
+    const known = state.smartStoreV2?.channel ?? state.channel?.A ?? state.channel;
+    if (isObject(known) && isText(known.channelName)) return known;
+
+    return StoreProfileParser.findValue(
+      state,
+      ["channel"],
+      (value) => isObject(value) && isText(value.channelName),
+    );
+  }
+
+  /**
+   * "컵공방 : 네이버 스마트스토어" → "컵공방"
+   */
+  private static nameFromTitle(title: string | undefined): string | undefined {
+    const name = title?.split(" : ")[0]?.trim();
+    return name || undefined;
+  }
+
+  private static toBoolean(value: unknown): boolean | undefined {
+    if (typeof value === "boolean") return value;
+    if (value === "Y" || value === "true") return true;
+    if (value === "N" || value === "false") return false;
+    return undefined;
+  }
+
+  /**
+   * Drop undefined fields, and the object itself when nothing is left
+   */
+  private static compact<T extends Record<string, unknown>>(fields: T): T | undefined {
+    const entries = Object.entries(fields).filter(([, value]) => value !== undefined);
+    if (entries.length === 0) return undefined;
+    return Object.fromEntries(
+      entries.map(([key, value]) => [key, typeof value === "string" ? value.trim() : value]),
+    ) as T;
+  }
+
+  /**
+   * First value under any of `keys` that `accept` takes, searching the
+   * node breadth-first so shallower matches win
+   */
+  private static findValue(node: unknown, keys: string[], accept: Accept): any {
+    let level: unknown[] = [node];
+
+    for (let depth = 0; depth <= StoreProfileParser.MAX_SEARCH_DEPTH && level.length > 0; depth++) {
+      const next: unknown[] = [];
+
+      for (const candidate of level) {
+        if (!candidate || typeof candidate !== "object") continue;
+        const record = candidate as Record<string, unknown>;
+
+        for (const key of keys) {
+          if (key in record && accept(record[key])) return record[key];
+        }
+        next.push(...Object.values(record));
+      }
+
+      level = next;
+    }
+
+    return undefined;
+  }
+}
@@ -0,0 +1,64 @@
+import { BenefitsMapper, BenefitsJson } from "../benefits";
+import benefitsByProduct from "./fixtures/benefitsByProduct.json";
+import { check } from "../../../../utils/tests/check";
+
+/**
+ * Test suite for the benefits API mapper
+ * Runs the mapper against a saved `/benefits/by-product` response
+ */
+
+// Test mapBenefitsJson
+console.log("=== Testing mapBenefitsJson ===");
+
+const benefits = BenefitsMapper.mapBenefitsJson(benefitsByProduct as BenefitsJson);
+
+check("Store coupons", benefits.storeCoupons.length === 1, benefits.storeCoupons);
+check("Product coupons", benefits.productCoupons.length === 3, benefits.productCoupons);
+check(
+  "Percent coupon type",
+  benefits.storeCoupons[0]?.discountType === "percent",
+  benefits.storeCoupons[0],
+);
+check(
+  "Minimum order kept",
+  benefits.productCoupons[0]?.minOrderAmount === 30000,
+  benefits.productCoupons[0],
+);
+check("Card discounts", benefits.cardDiscounts.length === 2, benefits.cardDiscounts);
+check("Point accruals", benefits.points.length === 3, benefits.points);
+check("Total point rate", benefits.totalPointRate === 3, benefits.totalPointRate);
+
+// Test calculateBestPrice
+console.log("\n=== Testing calculateBestPrice ===");
+
+// 31,200 - 3,000 (product) = 28,200 - 1,410 (5% store, under 2,000 cap)
+// = 26,790 - 1,500 (7% card, capped) = 25,290
+const best = BenefitsMapper.calculateBestPrice(31200, benefits);
+
+check("Best price", best.price === 25290, best);
+check("Total discount", best.totalDiscount === 5910, best);
+check(
+  "Expired and unreachable coupons skipped",
+  best.appliedCoupons.length === 2 && !best.appliedCoupons.includes("만료된 쿠폰"),
+  best.appliedCoupons,
+);
+check("Card applied", best.appliedCardDiscount === "현대카드", best.appliedCardDiscount);
+check("Expected points", best.expectedPoints === 252 + 505 + 500, best.expectedPoints);
+
+// Below every minimum order amount only the flat card discount applies
+const cheap = BenefitsMapper.calculateBestPrice(9000, benefits);
+check("Minimum order conditions", cheap.price === 8000, cheap);
+
+// Test malformed payloads
+console.log("\n=== Testing malformed payloads ===");
+
+const malformedPayloads: any[] = [null, undefined, "not-json", {}];
+
+malformedPayloads.forEach((payload, index) => {
+  const result = BenefitsMapper.mapBenefitsJson(payload);
+  const empty =
+    result.storeCoupons.length === 0 &&
+    result.productCoupons.length === 0 &&
+    result.cardDiscounts.length === 0;
+  console.log(`Malformed payload ${index + 1}: ${empty ? "✅" : "❌"}`);
+});
@@ -0,0 +1,143 @@
+import { BrowserPool } from "../browserPool";
+import { StealthBrowser } from "../stealth";
+import { check } from "../../../../utils/tests/check";
+
+/**
+ * Test suite for browser pool leasing, recycling and shutdown, using fake
+ * browsers so no Chromium is needed
+ */
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+let launched = 0;
+let closed = 0;
+
+function createFakeBrowser(): StealthBrowser {
+  launched++;
+  let connected = true;
+  const page = () => ({ close: async () => undefined });
+  const fake = {
+    ready: async () => undefined,
+    isConnected: async () => connected,
+    onDisconnected: () => undefined,
+    newContext: async () => ({ newPage: async () => page() }),
+    close: async () => {
+      connected = false;
+      closed++;
+    },
+  };
+  return fake as unknown as StealthBrowser;
+}
+
+async function testLeasing(): Promise<void> {
+  console.log("=== Testing page leasing ===");
+
+  const pool = new BrowserPool({
+    browsers: 1,
+    contextsPerBrowser: 2,
+    recycleAfter: 0,
+    acquireTimeoutMs: 50,
+    healthCheckIntervalMs: 0,
+    createBrowser: createFakeBrowser,
+  });
+
+  const first = await pool.acquire();
+  const second = await pool.acquire();
+  check("Slots leased", pool.getStats().busy === 2, pool.getStats());
+
+  const waiting = pool.acquire();
+  await sleep(0);
+  check("Extra caller waits", pool.getStats().waiting === 1, pool.getStats());
+
+  await first.release();
+  const third = await waiting;
+  check("Released slot handed to waiter", pool.getStats().busy === 2, pool.getStats());
+
+  const timedOut = await pool.acquire().catch((error) => error);
+  check("Acquire times out", timedOut?.statusCode === 503, timedOut?.message);
+
+  await second.release();
+  await third.release();
+  check("All slots free", pool.getStats().busy === 0, pool.getStats());
+
+  await pool.close();
+}
+
+async function testLeaseTimeout(): Promise<void> {
+  console.log("\n=== Testing lease timeout ===");
+
+  const pool = new BrowserPool({
+    contextsPerBrowser: 1,
+    leaseTimeoutMs: 20,
+    healthCheckIntervalMs: 0,
+    createBrowser: createFakeBrowser,
+  });
+
+  await pool.acquire(); // never released by the caller
+  await sleep(40);
+
+  const stats = pool.getStats();
+  check("Expired lease reclaimed", stats.busy === 0 && stats.leaseTimeouts === 1, stats);
+
+  await pool.close();
+}
+
+async function testRecycling(): Promise<void> {
+  console.log("\n=== Testing recycling ===");
+
+  launched = 0;
+  closed = 0;
+  const pool = new BrowserPool({
+    contextsPerBrowser: 1,
+    recycleAfter: 2,
+    healthCheckIntervalMs: 0,
+    createBrowser: createFakeBrowser,
+  });
+
+  await pool.withPage(async () => undefined);
+  await pool.withPage(async () => undefined);
+  await sleep(0);
+
+  const stats = pool.getStats();
+  check("Browser recycled after N pages", stats.recycled === 1 && closed === 1, { stats, closed });
+  check("Replacement launched", launched === 2 && stats.browsers === 1, { launched, stats });
+
+  await pool.withPage(async () => undefined);
+  check("Replacement serves pages", pool.getStats().pagesServed === 3, pool.getStats());
+
+  await pool.close();
+}
+
+async function testShutdown(): Promise<void> {
+  console.log("\n=== Testing shutdown ===");
+
+  closed = 0;
+  const pool = new BrowserPool({
+    browsers: 2,
+    contextsPerBrowser: 1,
+    healthCheckIntervalMs: 0,
+    createBrowser: createFakeBrowser,
+  });
+
+  await pool.start();
+  await pool.acquire();
+  await pool.acquire();
+  const waiting = pool.acquire().catch((error) => error);
+  await sleep(0);
+
+  await pool.close();
+  const error = await waiting;
+
+  check("Waiting callers rejected", error?.statusCode === 503, error?.message);
+  check("Every browser closed", closed === 2, closed);
+
+  const afterClose = await pool.acquire().catch((err) => err);
+  check("Closed pool refuses leases", afterClose?.statusCode === 503, afterClose?.message);
+}
+
+(async () => {
+  await testLeasing();
+  await testLeaseTimeout();
+  await testRecycling();
+  await testShutdown();
+})();
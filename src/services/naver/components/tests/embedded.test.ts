@@ -0,0 +1,72 @@
+import { readFileSync } from "fs";
+import { join } from "path";
+import * as cheerio from "cheerio";
+import { EmbeddedDataExtractor } from "../embedded";
+import { ProductParser } from "../parser";
+import { check } from "../../../../utils/tests/check";
+
+/**
+ * Test suite for embedded `__PRELOADED_STATE__` and JSON-LD extraction
+ */
+
+const html = readFileSync(join(__dirname, "fixtures/productPageEmbedded.html"), "utf8");
+const productUrl = "https://smartstore.naver.com/cupstudio/products/5123456789";
+
+// Test extractPreloadedState
+console.log("=== Testing extractPreloadedState ===");
+
+const state = EmbeddedDataExtractor.extractPreloadedState(html);
+check("State parsed", !!state?.product?.A, state && Object.keys(state));
+check("undefined converted to null", state?.product?.A?.discountEndDate === null);
+check("NaN converted to null", state?.product?.A?.score === null);
+check(
+  "Braces inside strings preserved",
+  state?.product?.A?.memo === 'braces {inside} "quoted" strings',
+  state?.product?.A?.memo,
+);
+
+const product = EmbeddedDataExtractor.findProductState(state);
+check("Product located", product?.name === "한정판 머그컵", product?.name);
+check(
+  "Product found by search when path unknown",
+  EmbeddedDataExtractor.findProductState({ page: { detail: { item: product } } })?.name === "한정판 머그컵",
+);
+
+const unsafeStates = [
+  "<script>window.__PRELOADED_STATE__ = {\"a\": alert(1)};</script>",
+  "<script>window.__PRELOADED_STATE__ = {\"a\": 1</script>",
+  "<script>var nothing = 1;</script>",
+];
+
+unsafeStates.forEach((source, index) => {
+  const result = EmbeddedDataExtractor.extractPreloadedState(source);
+  console.log(`Rejected state ${index + 1}: ${result === null ? "✅" : "❌"}`);
+});
+
+// Test extractJsonLdProduct
+console.log("\n=== Testing extractJsonLdProduct ===");
+
+const jsonLd = EmbeddedDataExtractor.extractJsonLdProduct(cheerio.load(html));
+check("Product found in @graph", jsonLd?.name === "한정판 머그컵 (JSON-LD)", jsonLd);
+check(
+  "Malformed JSON-LD skipped",
+  EmbeddedDataExtractor.extractJsonLdProduct(
+    cheerio.load('<script type="application/ld+json">{not json</script>'),
+  ) === null,
+);
+
+// Test parseProductData uses embedded data before selectors
+console.log("\n=== Testing parseProductData with embedded data ===");
+
+const parsed = ProductParser.parseProductData(html, productUrl);
+const provenance = parsed._provenance || {};
+
+check("Title from embedded state", provenance.title?.source === "embedded_state", provenance.title);
+check("Title value", parsed.title === "한정판 머그컵", parsed.title);
+check("Channel product id, not origin product number", parsed.productId === "5123456789", parsed.productId);
+check("Discounted price", parsed.price.discounted === 13500, parsed.price);
+check("Category path", parsed.category === "생활/건강 > 주방용품 > 컵", parsed.category);
+check("Stock quantity", parsed.stockQuantity === 12, parsed.stockQuantity);
+check("Rating from JSON-LD", provenance.rating?.source === "json_ld", provenance.rating);
+check("Rating value", parsed.rating?.score === 4.6 && parsed.rating?.count === 212, parsed.rating);
+check("Seller from embedded state", parsed.seller.url === "https://smartstore.naver.com/cupstudio", parsed.seller);
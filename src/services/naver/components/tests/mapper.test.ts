@@ -0,0 +1,171 @@
+import { ProductMapper, ChannelProductJson } from "../mapper";
+import { ProductParser } from "../parser";
+import { AppError } from "../../../../middleware/errorHandler";
+import channelProduct from "./fixtures/channelProduct.json";
+import channelProductSoldOut from "./fixtures/channelProductSoldOut.json";
+import { check } from "../../../../utils/tests/check";
+
+/**
+ * Test suite for the product API mapper
+ * Runs the mapper helpers, and the parser pipeline built on them, against
+ * saved `/i/v2/channels/` responses
+ */
+
+const productUrl = "https://smartstore.naver.com/minibeans/products/4256805008";
+const soldOutUrl = "https://smartstore.naver.com/cupstudio/products/5123456789";
+const json = channelProduct as ChannelProductJson;
+const soldOutJson = channelProductSoldOut as ChannelProductJson;
+
+// Page without any product markup, so every field has to come from the API
+const emptyPage = "<html><head></head><body></body></html>";
+
+// Test the field helpers with a discounted, in-stock product
+console.log("=== Testing mapper helpers (discounted product) ===");
+
+const price = ProductMapper.mapPrice(json);
+const images = ProductMapper.mapImages(json, 10);
+const seller = ProductMapper.mapSeller(json, productUrl);
+const reviews = ProductMapper.mapReviews(json);
+const shipping = ProductMapper.mapShipping(json);
+const specifications = ProductMapper.mapSpecifications(json);
+
+check("Title", ProductMapper.mapTitle(json) === "[미니빈즈] 오가닉 코튼 아기 내복 세트", ProductMapper.mapTitle(json));
+check("Product ID", ProductMapper.mapProductId(json, productUrl) === "4256805008");
+check("Original price", price.original === 39000, price);
+check("Discounted price", price.discounted === 31200, price);
+check("Formatted price", price.formatted === "31,200원", price);
+check(
+  "Representative image first",
+  images[0] === "https://shop-phinf.pstatic.net/20240101_1/main_rep.jpg",
+  images,
+);
+check("Images deduplicated", images.length === 3, images);
+check(
+  "Protocol-relative image fixed",
+  images[1] === "https://shop-phinf.pstatic.net/20240101_2/detail_01.jpg",
+  images,
+);
+check("maxImages honored", ProductMapper.mapImages(json, 1).length === 1);
+check("Category path", ProductMapper.mapCategory(json) === "출산/육아 > 유아동의류 > 내의", ProductMapper.mapCategory(json));
+check("Brand", ProductMapper.mapBrand(json) === "미니빈즈", ProductMapper.mapBrand(json));
+check("Seller name", seller.name === "미니빈즈", seller);
+check("Seller URL", seller.url === "https://smartstore.naver.com/minibeans", seller);
+check("Review summary", reviews?.count === 1284 && reviews?.averageRating === 4.8, reviews);
+check("Shipping carrier", shipping?.method === "CJ대한통운", shipping);
+check("Specifications merged", specifications["소재"] === "면, 스판", specifications);
+check(
+  "Description stripped of HTML",
+  ProductMapper.mapDescription(json, 500) === "부드러운 오가닉 코튼 소재로 만든 아기 내복 세트입니다.",
+  ProductMapper.mapDescription(json, 500),
+);
+check(
+  "Description truncated",
+  ProductMapper.mapDescription(json, 10) === "부드러운 오가닉 코...",
+  ProductMapper.mapDescription(json, 10),
+);
+
+// Test option combinations
+console.log("\n=== Testing mapper option combinations ===");
+
+const options = ProductMapper.mapOptions(json, price.discounted);
+const groups = options?.groups || [];
+const combinations = options?.combinations || [];
+
+check(
+  "Option groups",
+  groups.length === 2 && groups[0]?.name === "색상" && groups[1]?.values.join() === "80,90",
+  groups,
+);
+check("Combinations", combinations.length === 4, combinations);
+check(
+  "Combination price includes surcharge",
+  combinations[1]?.additionalPrice === 2000 && combinations[1]?.price === 33200,
+  combinations[1],
+);
+check("Zero stock is sold out", combinations[2]?.soldOut === true, combinations[2]);
+check("Unusable combination is sold out", combinations[3]?.soldOut === true, combinations[3]);
+check("Available with stock left", ProductMapper.mapAvailability(json, options) === true);
+
+const allSoldOutJson: ChannelProductJson = {
+  ...json,
+  optionCombinations: [
+    { id: 1, optionName1: "아이보리", price: 0, stockQuantity: 0 },
+    { id: 2, optionName1: "그레이", price: 0, usable: false },
+  ],
+};
+const allSoldOutOptions = ProductMapper.mapOptions(allSoldOutJson, price.discounted);
+check(
+  "Availability derived from combinations",
+  ProductMapper.mapAvailability(allSoldOutJson, allSoldOutOptions) === false,
+  allSoldOutOptions,
+);
+
+// Test the field helpers with a sold-out product without discount
+console.log("\n=== Testing mapper helpers (sold-out product) ===");
+
+const soldOutPrice = ProductMapper.mapPrice(soldOutJson);
+const soldOutSeller = ProductMapper.mapSeller(soldOutJson, soldOutUrl);
+
+check(
+  "Unavailable",
+  ProductMapper.mapAvailability(soldOutJson, ProductMapper.mapOptions(soldOutJson)) === false,
+);
+check("No fake discount", soldOutPrice.discounted === undefined, soldOutPrice);
+check("Free shipping", ProductMapper.mapShipping(soldOutJson)?.fee === "무료배송", ProductMapper.mapShipping(soldOutJson));
+check("No brand of its own", ProductMapper.mapBrand(soldOutJson) === "", ProductMapper.mapBrand(soldOutJson));
+check("Seller URL from product URL", soldOutSeller.url === "https://smartstore.naver.com/cupstudio", soldOutSeller);
+check("No reviews block", ProductMapper.mapReviews(soldOutJson) === undefined);
+
+// Test the parser pipeline fed only by the API payload
+console.log("\n=== Testing pipeline with API payload only ===");
+
+const product = ProductParser.parseProductData(emptyPage, productUrl, {}, json);
+
+check("Title", product.title === "[미니빈즈] 오가닉 코튼 아기 내복 세트", product.title);
+check("Price", product.price.discounted === 31200 && product.price.original === 39000, product.price);
+check("Images", product.images.length === 3, product.images);
+check("Stock quantity", product.stockQuantity === 87, product.stockQuantity);
+check("Availability", product.availability === true);
+check("Rating", product.rating?.score === 4.8, product.rating);
+check("Options", product.options?.combinations.length === 4, product.options);
+
+const limited = ProductParser.parseProductData(
+  emptyPage,
+  productUrl,
+  { maxImages: 1, extractSpecs: false, maxDescriptionLength: 10 },
+  json,
+);
+
+check("maxImages honored", limited.images.length === 1, limited.images);
+check("Specs skipped", limited.specifications === undefined);
+check("Description truncated", limited.description === "부드러운 오가닉 코...", limited.description);
+
+const soldOut = ProductParser.parseProductData(emptyPage, soldOutUrl, {}, soldOutJson);
+
+check("Sold-out product unavailable", soldOut.availability === false);
+check("Brand falls back to seller", soldOut.brand === "컵공방", soldOut.brand);
+
+const allSoldOut = ProductParser.parseProductData(emptyPage, productUrl, {}, allSoldOutJson);
+check("Availability derived from combinations", allSoldOut.availability === false, allSoldOut.options);
+
+// Test malformed payloads
+console.log("\n=== Testing malformed payloads ===");
+
+const malformedPayloads: [string, unknown][] = [
+  ["Missing payload", undefined],
+  ["Non-object payload", "not-json"],
+  ["Payload without a name", {}],
+];
+
+for (const [label, payload] of malformedPayloads) {
+  try {
+    ProductParser.parseProductData(emptyPage, productUrl, {}, payload as ChannelProductJson);
+    check(`${label} rejected`, false, "no error thrown");
+  } catch (error) {
+    check(
+      `${label} rejected`,
+      error instanceof AppError && error.code === "PARSE_INCOMPLETE",
+      error instanceof AppError ? error.code : String(error),
+    );
+  }
+}
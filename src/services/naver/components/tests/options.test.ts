@@ -0,0 +1,51 @@
+import { parseOptionLabel, deriveAvailabilityFromOptions } from "../options";
+
+/**
+ * Test suite for option label parsing and availability derivation
+ */
+
+// Test parseOptionLabel
+console.log("=== Testing parseOptionLabel ===");
+
+const labelTests = [
+  { label: "블랙", expected: { value: "블랙", additionalPrice: 0, soldOut: false } },
+  { label: "블랙 / M (+2,000원)", expected: { value: "블랙 / M", additionalPrice: 2000, soldOut: false } },
+  { label: "화이트 (-1,000원) (품절)", expected: { value: "화이트", additionalPrice: -1000, soldOut: true } },
+  { label: "L (재고 3개)", expected: { value: "L", additionalPrice: 0, soldOut: false } },
+  { label: "XL (재고 0개)", expected: { value: "XL", additionalPrice: 0, soldOut: true } },
+  { label: "  네이비   일시품절 ", expected: { value: "네이비", additionalPrice: 0, soldOut: true } },
+];
+
+labelTests.forEach((test, index) => {
+  const result = parseOptionLabel(test.label);
+  const passed =
+    result.value === test.expected.value &&
+    result.additionalPrice === test.expected.additionalPrice &&
+    result.soldOut === test.expected.soldOut;
+  console.log(`Label test ${index + 1}: ${passed ? "✅" : "❌"} - "${test.label}"`);
+  if (!passed) console.log(`  Got: ${JSON.stringify(result)}`);
+});
+
+// Test deriveAvailabilityFromOptions
+console.log("\n=== Testing deriveAvailabilityFromOptions ===");
+
+const combination = (soldOut: boolean, stockQuantity?: number) => ({
+  id: "0",
+  values: ["A"],
+  additionalPrice: 0,
+  stockQuantity,
+  soldOut,
+});
+
+const availabilityTests = [
+  { name: "No options", options: undefined, expected: undefined },
+  { name: "No combinations", options: { groups: [], combinations: [] }, expected: undefined },
+  { name: "One in stock", options: { groups: [], combinations: [combination(true), combination(false, 2)] }, expected: true },
+  { name: "Unknown stock", options: { groups: [], combinations: [combination(false)] }, expected: true },
+  { name: "All sold out", options: { groups: [], combinations: [combination(true), combination(false, 0)] }, expected: false },
+];
+
+availabilityTests.forEach((test) => {
+  const result = deriveAvailabilityFromOptions(test.options);
+  console.log(`${test.name}: ${result === test.expected ? "✅" : "❌"}`);
+});
@@ -0,0 +1,133 @@
+import { readFileSync } from "fs";
+import { join } from "path";
+import { PageClassifier, BlockedError } from "../pageClassifier";
+import { NaverScraper } from "../../naverScraper";
+import { check } from "../../../../utils/tests/check";
+
+/**
+ * Test suite for telling product pages apart from captcha, block, login,
+ * age-gate and removed-product pages, and store pages from closed stores
+ */
+
+const fixture = (name: string) => readFileSync(join(__dirname, "fixtures", name), "utf8");
+const padding = `<div>${"상품 상세 정보 ".repeat(80)}</div>`;
+const page = (head: string, body: string) =>
+  `<!DOCTYPE html><html><head>${head}</head><body>${body}${padding}</body></html>`;
+
+// Test genuine product pages
+console.log("=== Testing product pages ===");
+
+check("Meta fixture is a product", PageClassifier.classify(fixture("productPage.html")).kind === "product");
+check("Embedded fixture is a product", PageClassifier.classify(fixture("productPageEmbedded.html")).kind === "product");
+
+const chattyReviews = page(
+  '<meta property="og:title" content="로봇 청소기">',
+  '<div class="review">Blocked nothing, the robot works. 로봇 최고! 로그인이 필요 없어요</div>' +
+    '<a href="https://nid.naver.com/nidlogin.login">로그인</a>',
+);
+const chatty = PageClassifier.classify(chattyReviews);
+check("Loose words in product pages ignored", chatty.kind === "product", chatty);
+
+// Test blocked pages
+console.log("\n=== Testing blocked pages ===");
+
+const cases: [string, string, string][] = [
+  [
+    "Captcha",
+    page("<title>네이버</title>", '<form id="captcha_form" action="/ncaptcha">자동입력 방지 문자를 입력해 주세요</form>'),
+    "captcha",
+  ],
+  [
+    "Captcha even with product markers",
+    page('<meta property="og:title" content="x">', '<script src="https://captcha.naver.com/api.js"></script>'),
+    "captcha",
+  ],
+  ["Login wall", page("<title>네이버 : 로그인</title>", '<script>location.href="https://nid.naver.com/nidlogin.login?url=x"</script>'), "login_wall"],
+  ["Age gate", page("<title>성인인증</title>", "<p>19세 미만의 청소년은 이용할 수 없습니다. 성인인증 후 이용해 주세요.</p>"), "age_gate"],
+  ["Removed by notice", page("<title>스마트스토어</title>", "<p>삭제된 상품입니다.</p>"), "removed"],
+  [
+    "Removed by product status",
+    page('<meta property="og:title" content="x">', '<script>window.__PRELOADED_STATE__={"productStatusType":"DELETE"}</script>'),
+    "removed",
+  ],
+  ["Soft block notice", page("<title>스마트스토어</title>", "<p>비정상적인 접근이 감지되었습니다.</p>"), "soft_block"],
+  ["Access denied title", page("<title>Access Denied</title>", ""), "soft_block"],
+  ["Near-empty body", "<html><body></body></html>", "soft_block"],
+];
+
+for (const [label, html, expected] of cases) {
+  const result = PageClassifier.classify(html);
+  check(label, result.kind === expected, result);
+}
+
+const soldOut = page(
+  '<meta property="og:title" content="x">',
+  '<script>window.__PRELOADED_STATE__={"productStatusType":"OUTOFSTOCK"}</script>',
+);
+check("Sold out is still a product", PageClassifier.classify(soldOut).kind === "product");
+
+const unknown = PageClassifier.classify(page("<title>무언가</title>", "<p>안내</p>"));
+check("Unmarked page is unknown", unknown.kind === "unknown", unknown);
+
+// Test BlockedError
+console.log("\n=== Testing BlockedError ===");
+
+const url = "https://smartstore.naver.com/store/products/1";
+const thrown = (html: string): BlockedError | null => {
+  try {
+    PageClassifier.assertProductPage(html, url);
+    return null;
+  } catch (error) {
+    return error instanceof BlockedError ? error : null;
+  }
+};
+
+const captcha = thrown(cases[0]![1]);
+check("Captcha throws BlockedError", captcha !== null);
+check("Captcha is a transient 503", captcha?.statusCode === 503 && captcha.code === "BLOCKED_BY_CAPTCHA" && captcha.isTransient, captcha);
+
+const removed = thrown(cases[4]![1]);
+check("Removed product is 410", removed?.statusCode === 410 && removed.code === "PRODUCT_REMOVED" && !removed.isTransient, removed);
+
+const login = thrown(cases[2]![1]);
+check("Login wall is 403", login?.statusCode === 403 && login.code === "LOGIN_REQUIRED", login);
+
+check("Product pages pass", thrown(fixture("productPage.html")) === null);
+check("Unknown pages pass to the parser", thrown(page("<title>무언가</title>", "<p>안내</p>")) === null);
+
+check("Blocked scrapes counted as blocked", NaverScraper.classifyOutcome(captcha, "fetch") === "blocked");
+check("Removed scrapes counted as not found", NaverScraper.classifyOutcome(removed, "fetch") === "not_found");
+
+// Test store pages
+console.log("\n=== Testing store pages ===");
+
+const storeUrl = "https://smartstore.naver.com/store";
+const thrownForStore = (html: string): BlockedError | null => {
+  try {
+    PageClassifier.assertStorePage(html, storeUrl);
+    return null;
+  } catch (error) {
+    return error instanceof BlockedError ? error : null;
+  }
+};
+
+const listing = page(
+  '<meta property="og:title" content="컵공방 : 네이버 스마트스토어">',
+  '<script>window.__PRELOADED_STATE__={"categoryProducts":{"simpleProducts":[{"id":1,"productStatusType":"DELETE"}]}}</script>',
+);
+check("Listing with a deleted product is a store", PageClassifier.classify(listing, "store").kind === "store");
+check("Store pages pass", thrownForStore(listing) === null && thrownForStore(fixture("storeHomePage.html")) === null);
+
+const closed = thrownForStore(
+  page('<meta property="og:title" content="x">', '<script>window.__PRELOADED_STATE__={"channel":{"channelStatusType":"CLOSE"}}</script>'),
+);
+check("Closed store is 410 STORE_CLOSED", closed?.statusCode === 410 && closed.code === "STORE_CLOSED" && !closed.isTransient, closed);
+
+const suspended = PageClassifier.classify(page("<title>스마트스토어</title>", "<p>운영이 중지된 스토어입니다.</p>"), "store");
+check("Suspension notice is closed", suspended.kind === "store_closed", suspended);
+
+const missing = thrownForStore(page("<title>스마트스토어</title>", "<p>존재하지 않는 스토어입니다.</p>"));
+check("Missing store is STORE_NOT_FOUND", missing?.statusCode === 404 && missing.code === "STORE_NOT_FOUND", missing);
+check("Removed-product notice not applied to stores", thrownForStore(cases[4]![1]) === null);
+check("Captcha still detected on stores", thrownForStore(cases[0]![1])?.code === "BLOCKED_BY_CAPTCHA");
+check("Closed stores counted as not found", NaverScraper.classifyOutcome(closed, "fetch") === "not_found");
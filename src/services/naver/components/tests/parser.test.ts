@@ -0,0 +1,88 @@
+import { readFileSync } from "fs";
+import { join } from "path";
+import { ProductParser } from "../parser";
+import { ChannelProductJson } from "../mapper";
+import { ExtractionPipeline } from "../pipeline";
+import channelProduct from "./fixtures/channelProduct.json";
+import { check } from "../../../../utils/tests/check";
+
+/**
+ * Test suite for the extraction pipeline behind ProductParser
+ * Checks which source wins for each field and the `_provenance` map
+ */
+
+const html = readFileSync(join(__dirname, "fixtures/productPage.html"), "utf8");
+const productUrl = "https://smartstore.naver.com/minibeans/products/4256805008";
+
+// Test HTML-only parsing
+console.log("=== Testing parseProductData (HTML only) ===");
+
+const fromHtml = ProductParser.parseProductData(html, productUrl);
+const provenance = fromHtml._provenance || {};
+
+check("Title from meta", provenance.title?.source === "meta", provenance.title);
+check("Naver suffix removed", fromHtml.title === "오가닉 코튼 아기 내복 세트", fromHtml.title);
+check("Price from meta", fromHtml.price.original === 31200, fromHtml.price);
+check("Options from selectors", provenance.options?.source === "selector", provenance.options);
+check(
+  "Availability from option stock, not review text",
+  fromHtml.availability === true && provenance.availability?.extractor === "selector.optionStock",
+  provenance.availability,
+);
+check("Brand is a fallback guess", provenance.brand?.source === "fallback", provenance.brand);
+check("Shipping is a fallback guess", provenance.shipping?.source === "fallback", provenance.shipping);
+check(
+  "Fallback confidence is low",
+  (provenance.brand?.confidence ?? 1) < 0.3,
+  provenance.brand,
+);
+
+// Test parsing with captured API JSON
+console.log("\n=== Testing parseProductData (with API JSON) ===");
+
+const withApi = ProductParser.parseProductData(
+  html,
+  productUrl,
+  {},
+  channelProduct as ChannelProductJson,
+);
+const apiProvenance = withApi._provenance || {};
+
+check("Title from API", apiProvenance.title?.source === "api_json", apiProvenance.title);
+check("Discounted price from API", withApi.price.discounted === 31200, withApi.price);
+check("Brand from API", withApi.brand === "미니빈즈", withApi.brand);
+check("Shipping from API", withApi.shipping?.method === "CJ대한통운", withApi.shipping);
+check("Options from API", withApi.options?.combinations.length === 4, withApi.options);
+
+// Test provenance opt-out
+console.log("\n=== Testing includeProvenance ===");
+
+const withoutProvenance = ProductParser.parseProductData(html, productUrl, {
+  includeProvenance: false,
+});
+check("No _provenance", withoutProvenance._provenance === undefined);
+
+// Test custom extractor registration
+console.log("\n=== Testing custom extractors ===");
+
+const original = ProductParser.getPipeline();
+ProductParser.setPipeline(
+  new ExtractionPipeline()
+    .register(...original.getExtractors("title"))
+    .register({
+      field: "brand",
+      name: "test.fixedBrand",
+      source: "selector",
+      confidence: 0.99,
+      extract: () => "테스트브랜드",
+    }),
+);
+
+const custom = ProductParser.parseProductData(html, productUrl);
+check("Custom extractor wins", custom.brand === "테스트브랜드", custom.brand);
+check(
+  "Custom extractor recorded",
+  custom._provenance?.brand?.extractor === "test.fixedBrand",
+  custom._provenance?.brand,
+);
+ProductParser.setPipeline(original);
@@ -0,0 +1,126 @@
+import { RequestScheduler } from "../scheduler";
+import { check } from "../../../../utils/tests/check";
+
+/**
+ * Test suite for the request scheduler: global/per-store limits, fair
+ * ordering, store spacing and cancellation
+ */
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function testLimits(): Promise<void> {
+  console.log("=== Testing concurrency limits ===");
+
+  const scheduler = new RequestScheduler({ maxConcurrent: 3, maxPerStore: 2, minDelayMs: 0 });
+  let active = 0;
+  let peak = 0;
+  const perStore: Record<string, number> = {};
+  let peakPerStore = 0;
+
+  const task = (store: string) => async () => {
+    active++;
+    perStore[store] = (perStore[store] || 0) + 1;
+    peak = Math.max(peak, active);
+    peakPerStore = Math.max(peakPerStore, perStore[store]!);
+    await sleep(20);
+    active--;
+    perStore[store]!--;
+    return store;
+  };
+
+  const stores = ["a", "a", "a", "a", "b", "b", "c"];
+  const pending = stores.map((store) => scheduler.schedule(store, task(store)));
+
+  check("Queue depth reported", scheduler.getStats().queued === 4, scheduler.getStats());
+
+  const results = await Promise.all(pending);
+
+  check("Global limit respected", peak === 3, peak);
+  check("Per-store limit respected", peakPerStore === 2, peakPerStore);
+  check("Every task resolved", results.join("") === stores.join(""), results);
+
+  const stats = scheduler.getStats();
+  check("Completed count", stats.totalCompleted === 7 && stats.active === 0, stats);
+  check("Peak queue depth", stats.peakQueueDepth === 4, stats.peakQueueDepth);
+}
+
+async function testFairness(): Promise<void> {
+  console.log("\n=== Testing fair ordering ===");
+
+  const scheduler = new RequestScheduler({ maxConcurrent: 1, maxPerStore: 1, minDelayMs: 0 });
+  const order: string[] = [];
+  const task = (label: string) => async () => {
+    order.push(label);
+    await sleep(5);
+  };
+
+  await Promise.all([
+    scheduler.schedule("big", task("big1")),
+    scheduler.schedule("big", task("big2")),
+    scheduler.schedule("big", task("big3")),
+    scheduler.schedule("small", task("small1")),
+  ]);
+
+  check("Other store served before batch finishes", order.indexOf("small1") < order.indexOf("big3"), order);
+  check("Store order is FIFO", order.indexOf("big1") < order.indexOf("big2"), order);
+}
+
+async function testSpacing(): Promise<void> {
+  console.log("\n=== Testing per-store spacing ===");
+
+  const scheduler = new RequestScheduler({ maxConcurrent: 5, maxPerStore: 5, minDelayMs: 50 });
+  const starts: number[] = [];
+  const task = async () => {
+    starts.push(Date.now());
+  };
+
+  await Promise.all([scheduler.schedule("a", task), scheduler.schedule("a", task)]);
+
+  const gap = (starts[1] ?? 0) - (starts[0] ?? 0);
+  check("Same-store requests spaced", gap >= 45, gap);
+
+  const otherStarts: number[] = [];
+  await Promise.all(
+    ["x", "y"].map((store) =>
+      scheduler.schedule(store, async () => {
+        otherStarts.push(Date.now());
+      }),
+    ),
+  );
+  const otherGap = Math.abs((otherStarts[1] ?? 0) - (otherStarts[0] ?? 0));
+  check("Different stores not spaced", otherGap < 45, otherGap);
+}
+
+async function testCancellation(): Promise<void> {
+  console.log("\n=== Testing cancellation ===");
+
+  const scheduler = new RequestScheduler({ maxConcurrent: 1, maxPerStore: 1, minDelayMs: 0 });
+  const controller = new AbortController();
+  let ran = false;
+
+  const first = scheduler.schedule("a", () => sleep(30));
+  const second = scheduler
+    .schedule(
+      "a",
+      async () => {
+        ran = true;
+      },
+      { signal: controller.signal },
+    )
+    .catch((error) => error);
+
+  controller.abort();
+  const error = await second;
+  await first;
+
+  check("Queued task rejected", error?.statusCode === 499, error?.message);
+  check("Cancelled task never ran", !ran);
+  check("Cancelled count", scheduler.getStats().totalCancelled === 1, scheduler.getStats());
+}
+
+(async () => {
+  await testLimits();
+  await testFairness();
+  await testSpacing();
+  await testCancellation();
+})();
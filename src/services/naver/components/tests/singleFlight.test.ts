@@ -0,0 +1,97 @@
+import { SingleFlight } from "../singleFlight";
+import { check } from "../../../../utils/tests/check";
+
+/**
+ * Test suite for single-flight request coalescing
+ */
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function testSharedResult(): Promise<void> {
+  console.log("=== Testing shared results ===");
+
+  const flight = new SingleFlight<{ id: number }>();
+  let calls = 0;
+  const work = async () => {
+    calls++;
+    await sleep(20);
+    return { id: calls };
+  };
+
+  const results = await Promise.all([
+    flight.run("product:1", work),
+    flight.run("product:1", work),
+    flight.run("product:1", work),
+    flight.run("product:2", work),
+  ]);
+
+  check("One call per key", calls === 2, calls);
+  check("Callers share the same result", results[0] === results[1] && results[1] === results[2]);
+  check("Different keys run separately", results[3] !== results[0]);
+  check("Finished flights are cleared", flight.size() === 0, flight.size());
+
+  await flight.run("product:1", work);
+  check("Later call runs again", calls === 3, calls);
+}
+
+async function testSharedError(): Promise<void> {
+  console.log("\n=== Testing shared errors ===");
+
+  const flight = new SingleFlight<string>();
+  let calls = 0;
+  const work = async () => {
+    calls++;
+    await sleep(10);
+    throw new Error("upstream failed");
+  };
+
+  const outcomes = await Promise.all(
+    [1, 2].map(() => flight.run("product:1", work).catch((error) => error.message)),
+  );
+
+  check("Error delivered to every caller", outcomes.every((message) => message === "upstream failed"), outcomes);
+  check("Failing work ran once", calls === 1, calls);
+}
+
+async function testCancellation(): Promise<void> {
+  console.log("\n=== Testing cancellation ===");
+
+  const flight = new SingleFlight<string>();
+  const signals: AbortSignal[] = [];
+  const work = async (signal: AbortSignal) => {
+    signals.push(signal);
+    await sleep(30);
+    return "done";
+  };
+
+  const leaving = new AbortController();
+  const staying = new AbortController();
+  const first = flight.run("product:1", work, leaving.signal).catch((error) => error.statusCode);
+  const second = flight.run("product:1", work, staying.signal);
+
+  leaving.abort();
+  check("Aborting caller rejected", (await first) === 499);
+  check("Remaining caller still served", (await second) === "done");
+  check("Shared work not aborted while needed", signals[0]?.aborted === false);
+
+  const only = new AbortController();
+  const lone = flight.run("product:2", work, only.signal).catch(() => "cancelled");
+  only.abort();
+  await lone;
+  await sleep(0);
+  check("Work aborted once nobody waits", signals[1]?.aborted === true);
+
+  // A caller arriving after the last one left must not join the dead flight
+  const aborting = new AbortController();
+  const abandoned = flight.run("product:3", work, aborting.signal).catch((error) => error.statusCode);
+  aborting.abort();
+  const rejoined = await flight.run("product:3", work).catch((error) => error.statusCode);
+  check("Aborted caller rejected", (await abandoned) === 499);
+  check("Later caller gets a fresh flight", rejoined === "done" && signals.length === 4, { rejoined, runs: signals.length });
+}
+
+(async () => {
+  await testSharedResult();
+  await testSharedError();
+  await testCancellation();
+})();
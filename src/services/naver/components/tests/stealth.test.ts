@@ -0,0 +1,106 @@
+import { Page, errors } from "playwright";
+import { StealthBrowser } from "../stealth";
+import { AppError } from "../../../../middleware/errorHandler";
+import { check } from "../../../../utils/tests/check";
+
+/**
+ * Test suite for capturing product pages in a browser, using fake pages so
+ * no Chromium is needed
+ */
+
+const url = "https://smartstore.naver.com/store/products/1";
+const padding = `<div>${"상품 상세 정보 ".repeat(80)}</div>`;
+const productHtml = `<html><head><meta property="og:title" content="머그컵"></head><body>${padding}</body></html>`;
+const captchaHtml = `<html><body><form id="captcha_form" action="/ncaptcha">자동입력 방지</form>${padding}</body></html>`;
+const loadingHtml = `<html><body><div id="root"></div>${padding}</body></html>`;
+const removedHtml = `<html><body><p>삭제된 상품입니다.</p>${padding}</body></html>`;
+
+interface FakeResponse {
+  url: string;
+  body: unknown;
+}
+
+/**
+ * Page double serving `contents` in turn on each content() call and
+ * answering response waits from `responses`, timing out otherwise
+ */
+function fakePage(contents: string[], responses: FakeResponse[]) {
+  const state = { closed: false, reads: 0 };
+
+  const page = {
+    route: async () => undefined,
+    goto: async () => null,
+    content: async () => contents[Math.min(state.reads++, contents.length - 1)],
+    waitForResponse: (
+      predicate: (response: { url: () => string; status: () => number }) => boolean,
+      options: { timeout: number },
+    ) =>
+      new Promise((resolve, reject) => {
+        for (const response of responses) {
+          const candidate = { url: () => response.url, status: () => 200, json: async () => response.body };
+          if (predicate(candidate)) return resolve(candidate);
+        }
+        setTimeout(() => reject(new errors.TimeoutError("Timeout exceeded")), options.timeout);
+      }),
+    close: async () => {
+      state.closed = true;
+    },
+  };
+
+  return { page: page as unknown as Page, state };
+}
+
+const apiResponses: FakeResponse[] = [
+  { url: "https://smartstore.naver.com/i/v2/channels/abc/products/1", body: { name: "머그컵" } },
+  { url: "https://smartstore.naver.com/i/v2/benefits/by-product?productId=1", body: { coupons: [] } },
+];
+
+async function capture(page: Page, timeoutMs: number): Promise<{ error: AppError | null; elapsed: number }> {
+  const started = Date.now();
+  try {
+    await StealthBrowser.capture(page, url, timeoutMs);
+    return { error: null, elapsed: Date.now() - started };
+  } catch (error) {
+    return { error: error instanceof AppError ? error : null, elapsed: Date.now() - started };
+  }
+}
+
+async function runTests() {
+  console.log("=== Testing capture ===");
+
+  {
+    const { page, state } = fakePage([productHtml], apiResponses);
+    const result = await StealthBrowser.capture(page, url, 1000);
+    check(
+      "Product and benefits responses captured",
+      result.responseProductJson?.name === "머그컵" && Array.isArray(result.responseBenefitsJson?.coupons),
+      result,
+    );
+    check("Page closed", state.closed);
+  }
+
+  {
+    const { page, state } = fakePage([captchaHtml], []);
+    const { error, elapsed } = await capture(page, 5000);
+    check("Captcha page fails as BLOCKED_BY_CAPTCHA", error?.code === "BLOCKED_BY_CAPTCHA", error?.code);
+    check("Captcha detected without waiting for the APIs", elapsed < 1000, elapsed);
+    check("Page closed after a block", state.closed);
+  }
+
+  {
+    const { page } = fakePage([loadingHtml, removedHtml], []);
+    const { error } = await capture(page, 50);
+    check("Page turning into a removed notice is PRODUCT_REMOVED", error?.code === "PRODUCT_REMOVED", error?.code);
+  }
+
+  {
+    const { page } = fakePage([productHtml], apiResponses.slice(0, 1));
+    const { error } = await capture(page, 50);
+    check("Missing API response is UPSTREAM_TIMEOUT", error?.code === "UPSTREAM_TIMEOUT" && error.statusCode === 408, error?.code);
+  }
+}
+
+runTests().catch((error) => {
+  console.error("Test run failed:", error);
+  process.exit(1);
+});
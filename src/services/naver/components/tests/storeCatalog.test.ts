@@ -0,0 +1,143 @@
+import { readFileSync } from "fs";
+import { join } from "path";
+import { StoreCatalog } from "../storeCatalog";
+import { FetchOptions, FetchResult, ProductFetcher } from "../fetcher";
+import { RequestScheduler } from "../scheduler";
+import { BrowserPool } from "../browserPool";
+import { NaverScraper } from "../../naverScraper";
+import { AppError } from "../../../../middleware/errorHandler";
+import { check } from "../../../../utils/tests/check";
+
+/**
+ * Test suite for store listing pages: URLs, parsing and pagination
+ */
+
+const html = readFileSync(join(__dirname, "fixtures/storeCategoryPage.html"), "utf8");
+
+/**
+ * Serves listing pages from a table instead of Naver
+ */
+class ListingTable extends ProductFetcher {
+  calls: string[] = [];
+
+  constructor(private table: Record<string, string>) {
+    super();
+  }
+
+  override async fetchStorePage(url: string, _options?: FetchOptions): Promise<FetchResult> {
+    this.calls.push(url);
+    const data = this.table[url];
+    if (data === undefined) throw new AppError("Product not found", 404, { code: "PRODUCT_NOT_FOUND" });
+    return { data, status: 200, headers: {}, url };
+  }
+}
+
+async function runTests() {
+  // Test listing URLs
+  console.log("=== Testing listing URLs ===");
+
+  check(
+    "Whole catalog by default",
+    StoreCatalog.listingUrl("smartstore", "cupstudio", { page: 1, pageSize: 40 }) ===
+      "https://smartstore.naver.com/cupstudio/category/ALL?st=POPULAR&dt=LIST&page=1&size=40",
+    StoreCatalog.listingUrl("smartstore", "cupstudio", { page: 1, pageSize: 40 }),
+  );
+  check(
+    "Category, sort and brand store",
+    StoreCatalog.listingUrl("brand", "cupstudio", {
+      page: 3,
+      pageSize: 20,
+      categoryId: "50000123",
+      sort: "price_asc",
+    }) === "https://brand.naver.com/cupstudio/category/50000123?st=LOW_PRICE&dt=LIST&page=3&size=20",
+  );
+
+  // Test parsing
+  console.log("\n=== Testing parsing ===");
+
+  const page = StoreCatalog.parseListingPage(html, "smartstore", "cupstudio", { page: 2, pageSize: 40 });
+  const [mug, tumbler] = page.products;
+
+  check("Products without a title skipped", page.products.length === 2, page.products.length);
+  check("Store name", page.storeName === "컵공방", page.storeName);
+  check(
+    "Summary fields",
+    mug?.productId === "5123456789" &&
+      mug.title === "한정판 머그컵" &&
+      mug.url === "https://smartstore.naver.com/cupstudio/products/5123456789" &&
+      mug.category === "생활/건강 > 주방용품 > 컵" &&
+      mug.reviews?.count === 212,
+    mug,
+  );
+  check("Discounted price", mug?.price.original === 18000 && mug.price.discounted === 14400, mug?.price);
+  check("Repeated sale price is not a discount", tumbler?.price.discounted === undefined, tumbler?.price);
+  check("Protocol-relative thumbnail fixed", mug?.thumbnail === "https://shop-phinf.pstatic.net/mug.jpg", mug?.thumbnail);
+  check("Sold out product unavailable", tumbler?.availability === false && mug?.availability === true);
+  check(
+    "Pagination from total count",
+    page.totalCount === 83 && page.totalPages === 3 && page.hasMore,
+    { totalCount: page.totalCount, totalPages: page.totalPages, hasMore: page.hasMore },
+  );
+
+  const last = StoreCatalog.parseListingPage(html, "smartstore", "cupstudio", { page: 3, pageSize: 40 });
+  check("Last page has no more", !last.hasMore);
+
+  const empty = StoreCatalog.parseListingPage(
+    '<script>window.__PRELOADED_STATE__={"categoryProducts":{"simpleProducts":[],"totalCount":83}}</script>',
+    "smartstore",
+    "cupstudio",
+    { page: 9, pageSize: 40 },
+  );
+  check("Page past the end is empty", empty.products.length === 0 && !empty.hasMore, empty);
+
+  const nested = StoreCatalog.parseListingPage(
+    '<script>window.__PRELOADED_STATE__={"widgets":{"A":{"products":[{"productNo":1,"name":"a","salePrice":100}]}}}</script>',
+    "smartstore",
+    "cupstudio",
+    { page: 1, pageSize: 1 },
+  );
+  check(
+    "Listing found in an unknown layout",
+    nested.products[0]?.productId === "1" && nested.totalCount === undefined && nested.hasMore,
+    nested,
+  );
+
+  let missing: AppError | null = null;
+  try {
+    StoreCatalog.parseListingPage("<html><body>점검 중</body></html>", "smartstore", "cupstudio", { page: 1, pageSize: 40 });
+  } catch (error) {
+    missing = error instanceof AppError ? error : null;
+  }
+  check("No listing is PARSE_INCOMPLETE", missing?.code === "PARSE_INCOMPLETE", missing?.message);
+
+  // Test the scraper
+  console.log("\n=== Testing listStoreProducts ===");
+
+  const listingUrl = StoreCatalog.listingUrl("smartstore", "cupstudio", { page: 2, pageSize: 40 });
+  const fetcher = new ListingTable({ [listingUrl]: html });
+  const scraper = new NaverScraper(new RequestScheduler({ minDelayMs: 0 }), new BrowserPool(), fetcher, null);
+
+  const listed = await scraper.listStoreProducts("smartstore", "cupstudio", { page: 2, pageSize: 40 });
+  check("Listing fetched and parsed", listed.products.length === 2 && fetcher.calls[0] === listingUrl, fetcher.calls);
+
+  const failures: [string, string, string][] = [
+    ["Unknown store", "nostore", "STORE_NOT_FOUND"],
+    ["Invalid username", "../admin", "INVALID_REQUEST"],
+    ["Store-less username", "main", "INVALID_REQUEST"],
+  ];
+  for (const [label, username, code] of failures) {
+    let error: AppError | null = null;
+    try {
+      await scraper.listStoreProducts("smartstore", username, { page: 1, pageSize: 40 });
+    } catch (caught) {
+      error = caught instanceof AppError ? caught : null;
+    }
+    check(label, error?.code === code, error?.code);
+  }
+  check("Invalid usernames never fetched", fetcher.calls.length === 2, fetcher.calls);
+}
+
+runTests().catch((error) => {
+  console.error("Test run failed:", error);
+  process.exit(1);
+});
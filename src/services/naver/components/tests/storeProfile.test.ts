@@ -0,0 +1,131 @@
+import { readFileSync } from "fs";
+import { join } from "path";
+import { StoreProfileParser } from "../storeProfile";
+import { FetchOptions, FetchResult, ProductFetcher } from "../fetcher";
+import { RequestScheduler } from "../scheduler";
+import { BrowserPool } from "../browserPool";
+import { NaverScraper } from "../../naverScraper";
+import { AppError } from "../../../../middleware/errorHandler";
+import { check } from "../../../../utils/tests/check";
+
+/**
+ * Test suite for store profiles parsed from the store home page
+ */
+
+const html = readFileSync(join(__dirname, "fixtures/storeHomePage.html"), "utf8");
+
+/**
+ * Serves store pages from a table instead of Naver
+ */
+class StorePageTable extends ProductFetcher {
+  calls: string[] = [];
+
+  constructor(private table: Record<string, string>) {
+    super();
+  }
+
+  override async fetchStorePage(url: string, _options?: FetchOptions): Promise<FetchResult> {
+    this.calls.push(url);
+    const data = this.table[url];
+    if (data === undefined) throw new AppError("Product not found", 404, { code: "PRODUCT_NOT_FOUND" });
+    return { data, status: 200, headers: {}, url };
+  }
+}
+
+async function runTests() {
+  // Test grades
+  console.log("=== Testing grades ===");
+
+  check("Code", StoreProfileParser.parseGrade("BIG_POWER")?.label === "빅파워");
+  check("Korean label", StoreProfileParser.parseGrade("파워")?.code === "POWER");
+  check("Lower-case code", StoreProfileParser.parseGrade("big-power")?.code === "BIG_POWER");
+  check("Unknown grade ignored", StoreProfileParser.parseGrade("GOLD") === undefined);
+
+  // Test the store home page
+  console.log("\n=== Testing store home page ===");
+
+  const profile = StoreProfileParser.parseStorePage(html, "smartstore", "cupstudio");
+
+  check(
+    "Identity",
+    profile.name === "컵공방" &&
+      profile.channelNo === "100234567" &&
+      profile.url === "https://smartstore.naver.com/cupstudio",
+    profile,
+  );
+  check("Description falls back to og:description", profile.description === "손으로 빚은 머그컵과 텀블러", profile.description);
+  check("Logo made absolute", profile.logo === "https://shop-phinf.pstatic.net/logo.png", profile.logo);
+  check("Grade and good service badge", profile.grade?.label === "빅파워" && profile.goodService === true, profile.grade);
+  check(
+    "Business info",
+    profile.business?.companyName === "(주)컵공방" &&
+      profile.business.representative === "김도예" &&
+      profile.business.registrationNumber === "123-45-67890" &&
+      profile.business.mailOrderNumber === "2021-서울마포-0001" &&
+      profile.business.address === "서울특별시 마포구 도예로 12",
+    profile.business,
+  );
+  check(
+    "Contact channels",
+    profile.contact?.phone === "02-123-4567" &&
+      profile.contact.email === "help@cupstudio.kr" &&
+      profile.contact.talkTalkUrl === "https://talk.naver.com/w4abcd",
+    profile.contact,
+  );
+  check("Customer-service rating", profile.customerService?.rating === 4.8 && profile.customerService.reviewCount === 3120, profile.customerService);
+  check(
+    "Shipping defaults",
+    profile.shipping?.baseFee === 3000 &&
+      profile.shipping.freeShippingThreshold === 50000 &&
+      profile.shipping.carrier === "CJ대한통운" &&
+      profile.shipping.returnFee === 3000 &&
+      profile.shipping.exchangeFee === 6000,
+    profile.shipping,
+  );
+  check("Follower count", profile.followerCount === 15234, profile.followerCount);
+
+  // Test sparse pages
+  console.log("\n=== Testing sparse pages ===");
+
+  const sparse = StoreProfileParser.parseStorePage(
+    '<html><head><meta property="og:title" content="미니빈즈 : 네이버 스마트스토어"></head><body></body></html>',
+    "smartstore",
+    "minibeans",
+  );
+  check("Name from og:title", sparse.name === "미니빈즈", sparse.name);
+  check(
+    "Missing blocks omitted",
+    sparse.grade === undefined && sparse.business === undefined && sparse.contact === undefined && sparse.followerCount === undefined,
+    sparse,
+  );
+
+  let nameless: AppError | null = null;
+  try {
+    StoreProfileParser.parseStorePage("<html><body>점검 중</body></html>", "smartstore", "cupstudio");
+  } catch (error) {
+    nameless = error instanceof AppError ? error : null;
+  }
+  check("No name is PARSE_INCOMPLETE", nameless?.code === "PARSE_INCOMPLETE", nameless?.message);
+
+  // Test the scraper
+  console.log("\n=== Testing getStoreProfile ===");
+
+  const fetcher = new StorePageTable({ "https://brand.naver.com/cupstudio": html });
+  const scraper = new NaverScraper(new RequestScheduler({ minDelayMs: 0 }), new BrowserPool(), fetcher, null);
+
+  const brand = await scraper.getStoreProfile("brand", "cupstudio");
+  check("Brand store home page fetched", brand.url === "https://brand.naver.com/cupstudio" && fetcher.calls.length === 1, fetcher.calls);
+
+  let unknown: AppError | null = null;
+  try {
+    await scraper.getStoreProfile("smartstore", "nostore");
+  } catch (error) {
+    unknown = error instanceof AppError ? error : null;
+  }
+  check("Unknown store is STORE_NOT_FOUND", unknown?.code === "STORE_NOT_FOUND" && unknown.statusCode === 404, unknown?.code);
+}
+
+runTests().catch((error) => {
+  console.error("Test run failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,140 @@
+import { NaverUrlResolver } from "../urlResolver";
+import { ProductFetcher, RedirectResult } from "../fetcher";
+import { ProductParser } from "../parser";
+import { AppError } from "../../../../middleware/errorHandler";
+import { check } from "../../../../utils/tests/check";
+
+/**
+ * Test suite for canonicalizing every supported product URL form
+ */
+
+/**
+ * Fetcher that answers followRedirects from a fixed table and counts calls
+ */
+class RedirectTable extends ProductFetcher {
+  calls: string[] = [];
+
+  constructor(private table: Record<string, RedirectResult>) {
+    super();
+  }
+
+  override async followRedirects(url: string): Promise<RedirectResult> {
+    this.calls.push(url);
+    const result = this.table[url];
+    if (!result) throw new AppError("Product not found", 404, { code: "PRODUCT_NOT_FOUND" });
+    return result;
+  }
+}
+
+async function runTests() {
+  // Test direct store URLs
+  console.log("=== Testing store URLs ===");
+
+  const direct: [string, string, string][] = [
+    [
+      "Smartstore",
+      "https://smartstore.naver.com/minibeans/products/4256805008",
+      "https://smartstore.naver.com/minibeans/products/4256805008",
+    ],
+    [
+      "Mobile smartstore",
+      "https://m.smartstore.naver.com/minibeans/products/4256805008?NaPm=ct%3Dabc",
+      "https://smartstore.naver.com/minibeans/products/4256805008",
+    ],
+    [
+      "Brand store",
+      "https://brand.naver.com/samsung/products/5012345678#reviews",
+      "https://brand.naver.com/samsung/products/5012345678",
+    ],
+    [
+      "Mobile brand store with trailing path",
+      "http://m.brand.naver.com/samsung/products/5012345678/detail",
+      "https://brand.naver.com/samsung/products/5012345678",
+    ],
+  ];
+
+  for (const [label, url, canonical] of direct) {
+    const resolved = NaverUrlResolver.parse(url);
+    check(label, resolved?.canonicalUrl === canonical, resolved);
+  }
+
+  const brand = NaverUrlResolver.parse("https://brand.naver.com/samsung/products/5012345678");
+  check("Store type and ids", brand?.storeType === "brand" && brand.brandUsername === "samsung" && brand.productId === "5012345678", brand);
+
+  const rejected = [
+    "https://smartstore.naver.com/minibeans",
+    "https://smartstore.naver.com/minibeans/category/123",
+    "https://smartstore.naver.com/minibeans/products/abc",
+    "https://example.com/minibeans/products/123",
+    "ftp://smartstore.naver.com/minibeans/products/123",
+    "not a url",
+  ];
+  check("Non-product URLs rejected", rejected.every((url) => !NaverUrlResolver.isSupported(url)), rejected.filter(NaverUrlResolver.isSupported));
+
+  check("Short links supported", NaverUrlResolver.isSupported("https://naver.me/5Ab1Cd2E"));
+  check("Window products supported", NaverUrlResolver.isSupported("https://shopping.naver.com/window-products/beauty/7788990011"));
+  check("Store-less links need resolving", NaverUrlResolver.parse("https://smartstore.naver.com/main/products/123") === null &&
+    NaverUrlResolver.isSupported("https://smartstore.naver.com/main/products/123"));
+
+  const parsed = ProductParser.parseNaverUrl("https://m.brand.naver.com/samsung/products/5012345678");
+  check("Parser accepts brand stores", parsed.storeType === "brand" && parsed.brandUsername === "samsung", parsed);
+
+  // Test resolution through the fetcher
+  console.log("\n=== Testing redirects ===");
+
+  const fetcher = new RedirectTable({
+    "https://naver.me/5Ab1Cd2E": {
+      url: "https://m.smartstore.naver.com/minibeans/products/4256805008?NaPm=x",
+      status: 200,
+      data: "",
+    },
+    "https://shopping.naver.com/window-products/beauty/7788990011": {
+      url: "https://shopping.naver.com/window-products/beauty/7788990011",
+      status: 200,
+      data:
+        '<a href="https://smartstore.naver.com/other/products/1111">추천</a>' +
+        '<script>{"productUrl":"https:\\/\\/brand.naver.com\\/lg\\/products\\/7788990011"}</script>',
+    },
+    "https://naver.me/Gone": {
+      url: "https://www.naver.com/",
+      status: 200,
+      data: "<html>네이버</html>",
+    },
+  });
+  const resolver = new NaverUrlResolver(fetcher);
+
+  const short = await resolver.resolve("https://naver.me/5Ab1Cd2E");
+  check("Short link followed", short.canonicalUrl === "https://smartstore.naver.com/minibeans/products/4256805008", short);
+
+  await resolver.resolve("https://naver.me/5Ab1Cd2E");
+  check("Short links resolved once", fetcher.calls.length === 1, fetcher.calls);
+
+  const window = await resolver.resolve("https://shopping.naver.com/window-products/beauty/7788990011");
+  check("Window product found by id in page", window.canonicalUrl === "https://brand.naver.com/lg/products/7788990011", window);
+
+  await resolver.resolve("https://smartstore.naver.com/minibeans/products/4256805008");
+  check("Store URLs need no request", fetcher.calls.length === 2, fetcher.calls);
+
+  const failure = async (url: string) => {
+    try {
+      await resolver.resolve(url);
+      return null;
+    } catch (error) {
+      return error instanceof AppError ? error : null;
+    }
+  };
+
+  const dead = await failure("https://naver.me/Gone");
+  check("Link to a non-product page is INVALID_URL", dead?.code === "INVALID_URL", dead?.message);
+
+  const unsupported = await failure("https://example.com/products/1");
+  check("Unsupported URL is INVALID_URL", unsupported?.code === "INVALID_URL" && unsupported.statusCode === 400, unsupported?.message);
+
+  const missing = await failure("https://naver.me/Missing");
+  check("Upstream errors pass through", missing?.code === "PRODUCT_NOT_FOUND", missing?.message);
+}
+
+runTests().catch((error) => {
+  console.error("Test run failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,217 @@
+import { AppError } from "../../../middleware/errorHandler";
+import { logInfo } from "../../../middleware/logger";
+import type { ProductFetcher } from "./fetcher";
+
+export type StoreType = "smartstore" | "brand";
+
+/**
+ * A product URL reduced to the store page we actually scrape
+ */
+export interface ResolvedProductUrl {
+  storeType: StoreType;
+  brandUsername: string;
+  productId: string;
+  canonicalUrl: string;
+}
+
+export const SUPPORTED_URL_FORMATS = [
+  "https://smartstore.naver.com/<brandUsername>/products/<productId>",
+  "https://m.smartstore.naver.com/<brandUsername>/products/<productId>",
+  "https://brand.naver.com/<brandUsername>/products/<productId>",
+  "https://shopping.naver.com/window-products/<category>/<productId>",
+  "https://naver.me/<code>",
+];
+
+const STORE_HOSTS: Record<string, StoreType> = {
+  "smartstore.naver.com": "smartstore",
+  "m.smartstore.naver.com": "smartstore",
+  "brand.naver.com": "brand",
+  "m.brand.naver.com": "brand",
+};
+
+const STORE_ORIGINS: Record<StoreType, string> = {
+  smartstore: "https://smartstore.naver.com",
+  brand: "https://brand.naver.com",
+};
+
+const SHORT_LINK_HOSTS = new Set(["naver.me"]);
+const SHOPPING_HOSTS = new Set(["shopping.naver.com", "m.shopping.naver.com"]);
+
+// `/main/products/<id>` is Naver's store-less product link; it redirects to
+// the owning store
+const STORELESS_USERNAME = "main";
+
+const USERNAME_PATTERN = /^[A-Za-z0-9._-]+$/;
+const PRODUCT_ID_PATTERN = /^\d+$/;
+
+// Store product links inside a page body, including JSON-escaped ones
+const STORE_LINK_PATTERN =
+  /https?:\/\/(?:m\.)?(?:smartstore|brand)\.naver\.com\/[A-Za-z0-9._-]+\/products\/\d+/g;
+
+// Short links never change target, so resolutions are kept for the process
+const MAX_REMEMBERED = 1000;
+
+const parseUrl = (url: string): URL | null => {
+  try {
+    const parsed = new URL(url.trim());
+    return parsed.protocol === "http:" || parsed.protocol === "https:" ? parsed : null;
+  } catch {
+    return null;
+  }
+};
+
+const pathSegments = (urlObj: URL): string[] => urlObj.pathname.split("/").filter(Boolean);
+
+export class NaverUrlResolver {
+  private fetcher: ProductFetcher;
+  private remembered: Map<string, ResolvedProductUrl> = new Map();
+
+  constructor(fetcher: ProductFetcher) {
+    this.fetcher = fetcher;
+  }
+
+  /**
+   * Canonicalize a store product URL without any network access. Returns
+   * null for anything else, including short links and shopping pages.
+   */
+  static parse(url: string): ResolvedProductUrl | null {
+    const urlObj = parseUrl(url);
+    if (!urlObj) return null;
+
+    const storeType = STORE_HOSTS[urlObj.hostname.toLowerCase()];
+    if (!storeType) return null;
+
+    const [brandUsername, section, productId] = pathSegments(urlObj);
+    if (
+      !brandUsername ||
+      brandUsername === STORELESS_USERNAME ||
+      !USERNAME_PATTERN.test(brandUsername) ||
+      section !== "products" ||
+      !productId ||
+      !PRODUCT_ID_PATTERN.test(productId)
+    ) {
+      return null;
+    }
+
+    return {
+      storeType,
+      brandUsername,
+      productId,
+      canonicalUrl: `${STORE_ORIGINS[storeType]}/${brandUsername}/products/${productId}`,
+    };
+  }
+
+  /**
+   * Whether the URL is a product link that only Naver can resolve: short
+   * links, shopping window pages and store-less product links. The product
+   * id, when the URL carries one, is returned to pick the right store link.
+   */
+  static redirectTarget(url: string): { productId?: string } | null {
+    const urlObj = parseUrl(url);
+    if (!urlObj) return null;
+
+    const host = urlObj.hostname.toLowerCase();
+    const segments = pathSegments(urlObj);
+
+    if (SHORT_LINK_HOSTS.has(host)) {
+      return segments.length === 1 ? {} : null;
+    }
+
+    if (SHOPPING_HOSTS.has(host) && segments[0] === "window-products") {
+      const productId = segments[segments.length - 1];
+      return productId && PRODUCT_ID_PATTERN.test(productId) ? { productId } : null;
+    }
+
+    if (STORE_HOSTS[host] && segments[0] === STORELESS_USERNAME && segments[1] === "products") {
+      const productId = segments[2];
+      return productId && PRODUCT_ID_PATTERN.test(productId) ? { productId } : null;
+    }
+
+    return null;
+  }
+
+  /**
+   * Whether the URL is in any supported form, without resolving it
+   */
+  static isSupported(url: string): boolean {
+    return NaverUrlResolver.parse(url) !== null || NaverUrlResolver.redirectTarget(url) !== null;
+  }
+
+  /**
+   * Whether `brandUsername` can name a store (the path segment after the host)
+   */
+  static isValidBrandUsername(brandUsername: string): boolean {
+    return (
+      brandUsername.length <= 100 &&
+      brandUsername !== STORELESS_USERNAME &&
+      USERNAME_PATTERN.test(brandUsername)
+    );
+  }
+
+  /**
+   * Home page of a store
+   */
+  static storeUrl(storeType: StoreType, brandUsername: string): string {
+    return `${STORE_ORIGINS[storeType]}/${brandUsername}`;
+  }
+
+  /**
+   * First store product link in a page, preferring one for `productId`
+   */
+  static findProductLink(html: string, productId?: string): ResolvedProductUrl | null {
+    const links = html.replace(/\\\//g, "/").match(STORE_LINK_PATTERN) || [];
+
+    for (const link of links) {
+      const resolved = NaverUrlResolver.parse(link);
+      if (resolved && (productId === undefined || resolved.productId === productId)) {
+        return resolved;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Canonicalize any supported product URL, following short links and
+   * shopping pages through the fetcher when needed
+   */
+  async resolve(url: string, signal?: AbortSignal): Promise<ResolvedProductUrl> {
+    const direct = NaverUrlResolver.parse(url);
+    if (direct) return direct;
+
+    const target = NaverUrlResolver.redirectTarget(url);
+    if (!target) {
+      throw new AppError(
+        `Unsupported Naver product URL. Supported formats: ${SUPPORTED_URL_FORMATS.join(", ")}`,
+        400,
+        { code: "INVALID_URL" },
+      );
+    }
+
+    const key = url.trim();
+    const remembered = this.remembered.get(key);
+    if (remembered) return remembered;
+
+    const { url: finalUrl, data } = await this.fetcher.followRedirects(key, { signal });
+
+    const resolved =
+      NaverUrlResolver.parse(finalUrl) ?? NaverUrlResolver.findProductLink(data, target.productId);
+    if (!resolved) {
+      throw new AppError(`${url} does not lead to a Naver product page`, 400, {
+        code: "INVALID_URL",
+      });
+    }
+
+    logInfo(`Resolved ${url} to ${resolved.canonicalUrl}`);
+    this.remember(key, resolved);
+    return resolved;
+  }
+
+  private remember(key: string, resolved: ResolvedProductUrl): void {
+    if (this.remembered.size >= MAX_REMEMBERED) {
+      const oldest = this.remembered.keys().next().value;
+      if (oldest !== undefined) this.remembered.delete(oldest);
+    }
+    this.remembered.set(key, resolved);
+  }
+}
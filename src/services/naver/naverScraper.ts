@@ -4,40 +4,120 @@ import {
   FetchResult,
 } from "./components/fetcher";
 import { StealthBrowser } from "./components/stealth";
+import { PageClassifier, BlockedError } from "./components/pageClassifier";
 import {
   ProductParser,
   NaverProductData,
   ParseOptions,
 } from "./components/parser";
-import { AppError } from "../../middleware/errorHandler";
+import { BenefitsMapper, BenefitsJson } from "./components/benefits";
+import { SingleFlight } from "./components/singleFlight";
+import {
+  NaverUrlResolver,
+  ResolvedProductUrl,
+  StoreType,
+} from "./components/urlResolver";
+import {
+  StoreCatalog,
+  StoreCatalogPage,
+  StoreCatalogQuery,
+} from "./components/storeCatalog";
+import { StoreProfile, StoreProfileParser } from "./components/storeProfile";
+import {
+  BrowserPool,
+  BrowserPoolStats,
+  getBrowserPool,
+} from "./components/browserPool";
+import {
+  RequestScheduler,
+  SchedulerStats,
+  getSharedScheduler,
+} from "./components/scheduler";
+import { AppError, ErrorCode } from "../../middleware/errorHandler";
 import { logInfo, logError, logWarning } from "../../middleware/logger";
+import { scraperMetrics } from "../metrics/metrics";
+import { PriceHistory, getPriceHistory } from "../history/priceHistory";
 
 export { NaverProductData } from "./components/parser";
 
+type ScrapeStage = "fetch" | "parse";
+
+export type ScrapeOutcome =
+  | "success"
+  | "forbidden"
+  | "not_found"
+  | "rate_limited"
+  | "blocked"
+  | "timeout"
+  | "parse_failure"
+  | "cancelled"
+  | "error";
+
 export interface NaverOptions {
   fetchOptions?: FetchOptions;
   parseOptions?: ParseOptions;
   establishSession?: boolean;
+  // Minimum spacing between requests to the same store
+  delayBetweenRequests?: number;
+  signal?: AbortSignal;
+}
+
+export interface BatchItemResult {
+  url: string;
+  data?: NaverProductData;
+  error?: string;
+  code?: ErrorCode;
+}
+
+export interface BatchFailure {
+  url: string;
+  error: string;
+  code: ErrorCode;
+}
+
+export interface BatchOptions extends NaverOptions {
+  onResult?: (result: BatchItemResult) => void | Promise<void>;
 }
 
 export class NaverScraper {
-  private fetcher: ProductFetcher;
+  private static readonly RATE_LIMIT_BACKOFF = 10000; // 10 seconds
 
-  constructor() {
-    this.fetcher = new ProductFetcher();
+  private fetcher: ProductFetcher;
+  private scheduler: RequestScheduler;
+  private browserPool: BrowserPool;
+  private resolver: NaverUrlResolver;
+  // Receives a snapshot of every successful scrape; null when disabled
+  private history: PriceHistory | null;
+  // Scrapes in progress, keyed by method and product id
+  private inFlight: SingleFlight<NaverProductData> = new SingleFlight();
+
+  constructor(
+    scheduler: RequestScheduler = getSharedScheduler(),
+    browserPool: BrowserPool = getBrowserPool(),
+    fetcher: ProductFetcher = new ProductFetcher(),
+    history: PriceHistory | null = getPriceHistory(),
+  ) {
+    this.fetcher = fetcher;
+    this.scheduler = scheduler;
+    this.browserPool = browserPool;
+    this.resolver = new NaverUrlResolver(fetcher);
+    this.history = history;
   }
 
   /**
-   * Validates if the provided URL is a valid Naver Smartstore product URL
+   * Validates if the provided URL is a Naver product URL in any supported
+   * form (store page, mobile, shopping window or short link)
    */
   static isValidNaverProductUrl(url: string): boolean {
-    return ProductFetcher.isValidNaverProductUrl(url);
+    return NaverUrlResolver.isSupported(url);
   }
 
   /**
-   * Extracts brand username and product ID from Naver Smartstore URL
+   * Extracts store type, brand username and product ID from a store
+   * product URL
    */
   static parseNaverUrl(url: string): {
+    storeType: StoreType;
     brandUsername: string;
     productId: string;
   } {
@@ -45,11 +125,36 @@ export class NaverScraper {
   }
 
   /**
-   * Main method to scrape product data from Naver Smartstore
+   * Canonicalize a product URL, following short links when needed
+   */
+  async resolveUrl(url: string, signal?: AbortSignal): Promise<ResolvedProductUrl> {
+    return this.resolver.resolve(url, signal);
+  }
+
+  /**
+   * Main method to scrape product data from Naver Smartstore. Concurrent
+   * calls for the same product share one fetch and receive the same result.
    */
   async scrapeProduct(
     url: string,
     options: NaverOptions = {},
+  ): Promise<NaverProductData> {
+    // Every URL form is scraped through its canonical store page
+    const { productId, canonicalUrl } = await this.resolver.resolve(url, options.signal);
+
+    return this.inFlight.run(
+      `page:${productId}`,
+      (signal) => this.fetchProduct(canonicalUrl, { ...options, signal }),
+      options.signal,
+    );
+  }
+
+  /**
+   * Fetch and parse the product page over HTTP
+   */
+  private async fetchProduct(
+    url: string,
+    options: NaverOptions,
   ): Promise<NaverProductData> {
     const {
       fetchOptions = {},
@@ -57,38 +162,35 @@ export class NaverScraper {
       establishSession = false,
     } = options;
 
-    try {
-      // Validate URL format
-      if (!NaverScraper.isValidNaverProductUrl(url)) {
-        throw new AppError("Invalid Naver Smartstore product URL", 400);
-      }
+    let stage: ScrapeStage = "fetch";
 
+    try {
       logInfo(`Starting to scrape Naver product: ${url}`);
 
-      // Optionally establish session first
-      if (establishSession) {
-        try {
-          const { brandUsername } = NaverScraper.parseNaverUrl(url);
-          const storeUrl = `https://smartstore.naver.com/${brandUsername}`;
-          await this.fetcher.establishSession(storeUrl);
-        } catch (error) {
-          logWarning("Failed to establish session, continuing anyway:", error);
-        }
-      }
-
-      // Fetch the product page
-      const fetchResult: FetchResult = await this.fetcher.fetchProductPage(
-        url,
-        fetchOptions,
+      const { storeType, brandUsername } = NaverScraper.parseNaverUrl(url);
+
+      // Outbound requests wait for a global and a per-store slot
+      const fetchResult: FetchResult = await this.scheduler.schedule(
+        brandUsername,
+        async () => {
+          // Optionally establish session first
+          if (establishSession) {
+            try {
+              const storeUrl = NaverUrlResolver.storeUrl(storeType, brandUsername);
+              await this.fetcher.establishSession(storeUrl);
+            } catch (error) {
+              logWarning("Failed to establish session, continuing anyway:", error);
+            }
+          }
+
+          // Fetch the product page
+          return this.fetcher.fetchProductPage(url, fetchOptions);
+        },
+        { signal: options.signal, minDelayMs: options.delayBetweenRequests },
       );
 
-      // Check for potential blocking or captcha
-      if (this.isContentBlocked(fetchResult.data)) {
-        logWarning("Potential bot detection or content blocking detected");
-        // Continue anyway, parser might still extract some data
-      }
-
       // Parse product data from HTML
+      stage = "parse";
       const productData = ProductParser.parseProductData(
         fetchResult.data,
         url,
@@ -99,15 +201,26 @@ export class NaverScraper {
       ProductParser.validateProductData(productData);
 
       logInfo(`Successfully scraped product: ${productData.title}`);
+      scraperMetrics.scrapes.inc({ method: "page", outcome: "success" });
+      await this.history?.record(productData);
 
       return productData;
     } catch (error) {
+      scraperMetrics.scrapes.inc({
+        method: "page",
+        outcome: NaverScraper.classifyOutcome(error, stage),
+      });
+
+      if (error instanceof BlockedError) {
+        if (error.isTransient) this.backoffStore(url);
+        throw error;
+      }
+
       if (error instanceof AppError) {
         // Log specific error types for monitoring
         if (error.statusCode === 429) {
-          logWarning(
-            "Rate limited by Naver - consider implementing delays between requests",
-          );
+          logWarning("Rate limited by Naver - backing off requests to this store");
+          this.backoffStore(url, error.retryAfter);
         } else if (error.statusCode === 404) {
           logWarning(
             "Product not found - URL may be invalid or product may be removed",
@@ -121,53 +234,73 @@ export class NaverScraper {
       }
 
       logError("Unexpected error during scraping:", error);
-      throw new AppError("Failed to scrape product data", 500);
+      throw new AppError("Failed to scrape product data", 500, { code: "INTERNAL_ERROR" });
     }
   }
 
   /**
-   * Batch scrape multiple products with built-in rate limiting
+   * Batch scrape multiple products. Products run in parallel within the
+   * scheduler's global and per-store limits; results keep input order.
    */
   async scrapeMultipleProducts(
     urls: string[],
-    options: NaverOptions & { delayBetweenRequests?: number } = {},
+    options: BatchOptions = {},
   ): Promise<{
     success: NaverProductData[];
-    failed: { url: string; error: string }[];
+    failed: BatchFailure[];
   }> {
-    const { delayBetweenRequests = 3000 } = options;
-    const success: NaverProductData[] = [];
-    const failed: { url: string; error: string }[] = [];
+    const { onResult, ...naverOptions } = options;
+    const { signal } = naverOptions;
+    const results: BatchItemResult[] = [];
 
     logInfo(`Starting batch scraping of ${urls.length} products`);
 
-    for (let i = 0; i < urls.length; i++) {
-      const url = urls[i];
-      if (!url) continue; // Skip undefined URLs
-
-      try {
-        logInfo(`Processing product ${i + 1}/${urls.length}: ${url}`);
+    await Promise.all(
+      urls.map(async (url, index) => {
+        if (!url) return; // Skip undefined URLs
 
-        const productData = await this.scrapeProduct(url, options);
-        success.push(productData);
+        let result: BatchItemResult;
 
-        // Add delay between requests to avoid rate limiting
-        if (i < urls.length - 1 && delayBetweenRequests > 0) {
-          logInfo(`Waiting ${delayBetweenRequests}ms before next request...`);
-          await this.delay(delayBetweenRequests);
-        }
-      } catch (error: any) {
-        const errorMessage =
-          error instanceof AppError ? error.message : "Unknown error";
-        logError(`Failed to scrape ${url}:`, errorMessage);
-        failed.push({ url, error: errorMessage });
-
-        // If we hit rate limiting, increase delay for subsequent requests
-        if (error instanceof AppError && error.statusCode === 429) {
-          const extendedDelay = delayBetweenRequests * 2;
-          logWarning(`Rate limited, extending delay to ${extendedDelay}ms`);
-          await this.delay(extendedDelay);
+        try {
+          const productData = await this.scrapeProduct(url, naverOptions);
+          result = { url, data: productData };
+        } catch (error) {
+          if (signal?.aborted) return;
+
+          const errorMessage =
+            error instanceof AppError ? error.message : "Unknown error";
+          logError(`Failed to scrape ${url}:`, errorMessage);
+          result = {
+            url,
+            error: errorMessage,
+            code: error instanceof AppError ? error.code : "INTERNAL_ERROR",
+          };
         }
+
+        results[index] = result;
+        logInfo(`Processed product ${index + 1}/${urls.length}: ${url}`);
+        await onResult?.(result);
+      }),
+    );
+
+    if (signal?.aborted) {
+      logWarning(
+        `Batch scraping cancelled after ${results.filter(Boolean).length}/${urls.length} products`,
+      );
+    }
+
+    const success: NaverProductData[] = [];
+    const failed: BatchFailure[] = [];
+    for (const result of results) {
+      if (!result) continue;
+      if (result.data) {
+        success.push(result.data);
+      } else {
+        failed.push({
+          url: result.url,
+          error: result.error || "Unknown error",
+          code: result.code ?? "INTERNAL_ERROR",
+        });
       }
     }
 
@@ -178,41 +311,226 @@ export class NaverScraper {
     return { success, failed };
   }
 
-  async scrapeUsingBrowser(url: string) {
-    const client = new StealthBrowser();
-    const res = await client.listenTo(url);
-    console.log(res);
-    // await client.close();
+  /**
+   * Scrape product data by capturing the product API response in a browser
+   */
+  async scrapeUsingBrowser(
+    url: string,
+    options: NaverOptions = {},
+  ): Promise<NaverProductData> {
+    const { productId, canonicalUrl } = await this.resolver.resolve(url, options.signal);
+
+    return this.inFlight.run(
+      `browser:${productId}`,
+      (signal) => this.captureProduct(canonicalUrl, { ...options, signal }),
+      options.signal,
+    );
   }
 
   /**
-   * Check if content appears to be blocked or contains captcha
+   * Load the product page in a browser and parse the captured responses
    */
-  private isContentBlocked(html: string): boolean {
-    const blockingIndicators = [
-      "captcha",
-      "blocked",
-      "access denied",
-      "robot",
-      "bot detection",
-      "too many requests",
-      "차단",
-      "접근 제한",
-      "로봇",
-    ];
-
-    const lowerHtml = html.toLowerCase();
-    return (
-      blockingIndicators.some((indicator) => lowerHtml.includes(indicator)) ||
-      html.length < 1000
-    ); // Suspiciously short response
+  private async captureProduct(
+    url: string,
+    options: NaverOptions,
+  ): Promise<NaverProductData> {
+    const { parseOptions = {} } = options;
+
+    logInfo(`Starting to scrape Naver product using browser: ${url}`);
+
+    const { brandUsername } = NaverScraper.parseNaverUrl(url);
+    let stage: ScrapeStage = "fetch";
+
+    try {
+      // Pages come from the shared pool instead of launching a browser per call
+      const { html, responseProductJson, responseBenefitsJson } =
+        await this.scheduler.schedule(
+          brandUsername,
+          () =>
+            this.browserPool.withPage((page) => StealthBrowser.capture(page, url)),
+          {
+            signal: options.signal,
+            minDelayMs: options.delayBetweenRequests,
+          },
+        );
+
+      PageClassifier.assertProductPage(html, url);
+
+      // The captured API JSON outranks selectors; HTML fills whatever it lacks
+      stage = "parse";
+      const productData = ProductParser.parseProductData(
+        html,
+        url,
+        parseOptions,
+        responseProductJson,
+      );
+
+      this.applyBenefits(productData, responseBenefitsJson);
+
+      ProductParser.validateProductData(productData);
+
+      logInfo(`Successfully scraped product using browser: ${productData.title}`);
+      scraperMetrics.scrapes.inc({ method: "browser", outcome: "success" });
+      await this.history?.record(productData);
+
+      return productData;
+    } catch (error) {
+      scraperMetrics.scrapes.inc({
+        method: "browser",
+        outcome: NaverScraper.classifyOutcome(error, stage),
+      });
+      if (error instanceof BlockedError && error.isTransient) {
+        this.backoffStore(url);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Metric label for a failed scrape. Anything thrown while parsing counts
+   * as a parse failure, whatever its status code.
+   */
+  static classifyOutcome(error: unknown, stage: ScrapeStage): ScrapeOutcome {
+    const statusCode = error instanceof AppError ? error.statusCode : undefined;
+
+    if (statusCode === 499) return "cancelled";
+    if (error instanceof BlockedError) {
+      return error.kind === "removed" || error.kind === "store_closed" || error.kind === "store_missing"
+        ? "not_found"
+        : "blocked";
+    }
+    if (stage === "parse") return "parse_failure";
+    if (statusCode === 403) return "forbidden";
+    if (statusCode === 404) return "not_found";
+    if (statusCode === 429) return "rate_limited";
+    if (statusCode === 408 || (error instanceof Error && error.name === "TimeoutError")) {
+      return "timeout";
+    }
+    return "error";
   }
 
   /**
-   * Utility method for delays
+   * One page of a store's product listing, optionally within a category
    */
-  private delay(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
+  async listStoreProducts(
+    storeType: StoreType,
+    brandUsername: string,
+    query: StoreCatalogQuery,
+    options: NaverOptions = {},
+  ): Promise<StoreCatalogPage> {
+    return this.scrapeStorePage(
+      brandUsername,
+      () => StoreCatalog.listingUrl(storeType, brandUsername, query),
+      (html) => StoreCatalog.parseListingPage(html, storeType, brandUsername, query),
+      options,
+    );
+  }
+
+  /**
+   * Store name, grade, business and contact details, shipping defaults and
+   * follower count from the store home page
+   */
+  async getStoreProfile(
+    storeType: StoreType,
+    brandUsername: string,
+    options: NaverOptions = {},
+  ): Promise<StoreProfile> {
+    return this.scrapeStorePage(
+      brandUsername,
+      () => NaverUrlResolver.storeUrl(storeType, brandUsername),
+      (html) => StoreProfileParser.parseStorePage(html, storeType, brandUsername),
+      options,
+    );
+  }
+
+  /**
+   * Fetch and parse a store-level page. Store pages share the store's
+   * scheduler slot and backoff with its product pages.
+   */
+  private async scrapeStorePage<T>(
+    brandUsername: string,
+    buildUrl: () => string,
+    parse: (html: string) => T,
+    options: NaverOptions,
+  ): Promise<T> {
+    if (!NaverUrlResolver.isValidBrandUsername(brandUsername)) {
+      throw new AppError("Invalid store username", 400, { code: "INVALID_REQUEST" });
+    }
+
+    const url = buildUrl();
+    let stage: ScrapeStage = "fetch";
+
+    try {
+      logInfo(`Scraping store page: ${url}`);
+
+      const fetchResult = await this.scheduler.schedule(
+        brandUsername,
+        () => this.fetcher.fetchStorePage(url, options.fetchOptions),
+        { signal: options.signal, minDelayMs: options.delayBetweenRequests },
+      );
+
+      stage = "parse";
+      const result = parse(fetchResult.data);
+      scraperMetrics.scrapes.inc({ method: "store", outcome: "success" });
+
+      return result;
+    } catch (error) {
+      scraperMetrics.scrapes.inc({
+        method: "store",
+        outcome: NaverScraper.classifyOutcome(error, stage),
+      });
+
+      if (error instanceof BlockedError) {
+        if (error.isTransient) this.scheduler.backoff(brandUsername, NaverScraper.RATE_LIMIT_BACKOFF);
+        throw error;
+      }
+
+      if (error instanceof AppError) {
+        if (error.code === "PRODUCT_NOT_FOUND") {
+          throw new AppError(`Store not found: ${brandUsername}`, 404, { code: "STORE_NOT_FOUND" });
+        }
+        if (error.statusCode === 429) {
+          logWarning("Rate limited by Naver - backing off requests to this store");
+          this.scheduler.backoff(
+            brandUsername,
+            error.retryAfter !== undefined ? error.retryAfter * 1000 : NaverScraper.RATE_LIMIT_BACKOFF,
+          );
+        }
+        throw error;
+      }
+
+      logError("Unexpected error while scraping store page:", error);
+      throw new AppError("Failed to scrape store page", 500, { code: "INTERNAL_ERROR" });
+    }
+  }
+
+  /**
+   * Attach coupon/benefit data and the best achievable checkout price
+   */
+  private applyBenefits(productData: NaverProductData, benefitsJson: BenefitsJson | null | undefined): void {
+    const benefits = BenefitsMapper.mapBenefitsJson(benefitsJson);
+    const basePrice = productData.price.discounted ?? productData.price.original;
+
+    if (basePrice) {
+      benefits.bestPrice = BenefitsMapper.calculateBestPrice(basePrice, benefits);
+      productData.price.bestAchievable = benefits.bestPrice.price;
+    }
+
+    productData.benefits = benefits;
+  }
+
+  /**
+   * Pause further requests to the store behind a rate-limited URL, for as
+   * long as Naver asked if it said
+   */
+  private backoffStore(url: string, retryAfter?: number): void {
+    try {
+      const { brandUsername } = NaverScraper.parseNaverUrl(url);
+      const duration = retryAfter !== undefined ? retryAfter * 1000 : NaverScraper.RATE_LIMIT_BACKOFF;
+      this.scheduler.backoff(brandUsername, duration);
+    } catch {
+      // URL was already validated; nothing to back off otherwise
+    }
   }
 
   /**
@@ -222,11 +540,17 @@ export class NaverScraper {
     userAgent: string;
     nextRotation: number;
     isReady: boolean;
+    inFlight: number;
+    scheduler: SchedulerStats;
+    browserPool: BrowserPoolStats;
   } {
     const stats = this.fetcher.getStats();
     return {
       ...stats,
       isReady: true,
+      inFlight: this.inFlight.size(),
+      scheduler: this.scheduler.getStats(),
+      browserPool: this.browserPool.getStats(),
     };
   }
 
@@ -248,7 +572,7 @@ export class NaverScraper {
         status: 200,
         message: "Connection to Naver SmartStore successful",
       };
-    } catch (error: any) {
+    } catch (error) {
       logError("Connection test failed:", error);
 
       let status = 500;
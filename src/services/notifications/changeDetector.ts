@@ -0,0 +1,127 @@
+import type { PriceSnapshot } from "../history/historyStore";
+import type { ProductBenefits } from "../naver/components/benefits";
+
+export type PriceField = "original" | "discounted" | "bestAchievable";
+
+export type BenefitKind = "store_coupon" | "product_coupon" | "card_discount" | "points";
+
+/**
+ * One benefit as reported in change events. `id` is stable across scrapes
+ * (coupon id, card name or point program name).
+ */
+export interface BenefitRef {
+  kind: BenefitKind;
+  id: string;
+  name: string;
+  discountType?: "fixed" | "percent";
+  discountValue?: number;
+}
+
+export type ProductChange =
+  | { type: "price_changed"; field: PriceField; previous?: number; current?: number }
+  | { type: "availability_changed"; previous: boolean; current: boolean }
+  | { type: "title_changed"; previous: string; current: string }
+  | { type: "benefit_added"; benefit: BenefitRef }
+  | { type: "benefit_removed"; benefit: BenefitRef };
+
+export type ChangeType = ProductChange["type"];
+
+export const CHANGE_TYPES: readonly ChangeType[] = [
+  "price_changed",
+  "availability_changed",
+  "title_changed",
+  "benefit_added",
+  "benefit_removed",
+];
+
+/**
+ * The product fields that are compared. Both NaverProductData and
+ * PriceSnapshot satisfy it, so a fresh scrape can be diffed against a
+ * stored snapshot.
+ */
+export type ComparableProduct = Pick<PriceSnapshot, "title" | "price" | "availability" | "benefits">;
+
+const PRICE_FIELDS: readonly PriceField[] = ["original", "discounted", "bestAchievable"];
+
+/**
+ * Flatten benefits into refs keyed by kind and id
+ */
+function benefitRefs(benefits: ProductBenefits | undefined): Map<string, BenefitRef> {
+  const refs = new Map<string, BenefitRef>();
+  if (!benefits) return refs;
+
+  const add = (ref: BenefitRef) => refs.set(`${ref.kind}:${ref.id}`, ref);
+
+  for (const coupon of benefits.storeCoupons) {
+    const { id, name, discountType, discountValue } = coupon;
+    add({ kind: "store_coupon", id, name, discountType, discountValue });
+  }
+  for (const coupon of benefits.productCoupons) {
+    const { id, name, discountType, discountValue } = coupon;
+    add({ kind: "product_coupon", id, name, discountType, discountValue });
+  }
+  for (const card of benefits.cardDiscounts) {
+    add({
+      kind: "card_discount",
+      id: card.cardName,
+      name: card.cardName,
+      discountType: card.discountType,
+      discountValue: card.discountValue,
+    });
+  }
+  for (const point of benefits.points) {
+    add({ kind: "points", id: point.name, name: point.name });
+  }
+
+  return refs;
+}
+
+/**
+ * Changes between two consecutive scrapes of the same product, in a fixed
+ * order: title, availability, prices, then benefits. Benefits are only
+ * compared when both scrapes carry them, so a scrape that skipped benefits
+ * doesn't read as every coupon being removed.
+ */
+export function detectChanges(
+  previous: ComparableProduct,
+  current: ComparableProduct,
+): ProductChange[] {
+  const changes: ProductChange[] = [];
+
+  if (previous.title !== current.title) {
+    changes.push({ type: "title_changed", previous: previous.title, current: current.title });
+  }
+
+  if (previous.availability !== current.availability) {
+    changes.push({
+      type: "availability_changed",
+      previous: previous.availability,
+      current: current.availability,
+    });
+  }
+
+  for (const field of PRICE_FIELDS) {
+    if (previous.price[field] !== current.price[field]) {
+      changes.push({
+        type: "price_changed",
+        field,
+        previous: previous.price[field],
+        current: current.price[field],
+      });
+    }
+  }
+
+  if (previous.benefits && current.benefits) {
+    const before = benefitRefs(previous.benefits);
+    const after = benefitRefs(current.benefits);
+
+    for (const [key, benefit] of after) {
+      if (!before.has(key)) changes.push({ type: "benefit_added", benefit });
+    }
+    for (const [key, benefit] of before) {
+      if (!after.has(key)) changes.push({ type: "benefit_removed", benefit });
+    }
+  }
+
+  return changes;
+}
@@ -0,0 +1,266 @@
+import http from "http";
+import { AddressInfo } from "net";
+import { detectChanges, ComparableProduct } from "../changeDetector";
+import { WebhookDispatcher, WebhookSettings } from "../webhookDispatcher";
+import type { ProductBenefits, ProductCoupon } from "../../naver/components/benefits";
+import { check } from "../../../utils/tests/check";
+
+/**
+ * Test suite for change detection and webhook delivery, against a local
+ * HTTP receiver
+ */
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const coupon = (id: string, discountValue: number): ProductCoupon => ({
+  id,
+  name: `${discountValue}% 할인`,
+  scope: "product",
+  discountType: "percent",
+  discountValue,
+  downloadable: true,
+});
+
+const benefits = (coupons: ProductCoupon[]): ProductBenefits => ({
+  storeCoupons: [],
+  productCoupons: coupons,
+  cardDiscounts: [],
+  points: [{ name: "네이버페이 적립", rate: 1 }],
+  totalPointRate: 1,
+});
+
+const product = (overrides: Partial<ComparableProduct> = {}): ComparableProduct => ({
+  title: "미니빈즈 유아 레깅스",
+  price: { original: 20000, discounted: 15000, currency: "KRW" },
+  availability: true,
+  benefits: benefits([coupon("101", 10)]),
+  ...overrides,
+});
+
+interface Received {
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+/**
+ * Local endpoint answering with the queued statuses, then 200
+ */
+async function startReceiver(statuses: number[] = []) {
+  const received: Received[] = [];
+  const server = http.createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      received.push({ headers: req.headers, body });
+      res.statusCode = statuses.shift() ?? 200;
+      res.end();
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}/hooks`,
+    received,
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+}
+
+const settings = (url: string, overrides: Partial<WebhookSettings> = {}): WebhookSettings => ({
+  url,
+  secret: "s3cret",
+  maxAttempts: 3,
+  retryDelayMs: 20,
+  timeoutMs: 1000,
+  logSize: 10,
+  ...overrides,
+});
+
+async function waitFor(condition: () => boolean, timeoutMs = 2000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition() && Date.now() < deadline) {
+    await sleep(10);
+  }
+}
+
+async function runTests() {
+  // Test change detection
+  console.log("=== Testing change detection ===");
+
+  check("Identical products have no changes", detectChanges(product(), product()).length === 0);
+
+  const dropped = detectChanges(product(), product({ price: { original: 20000, discounted: 12000, currency: "KRW" } }));
+  check(
+    "Price drop reported",
+    dropped.length === 1 &&
+      dropped[0]?.type === "price_changed" &&
+      dropped[0].field === "discounted" &&
+      dropped[0].previous === 15000 &&
+      dropped[0].current === 12000,
+    dropped,
+  );
+
+  const soldOut = detectChanges(product(), product({ availability: false, title: "미니빈즈 유아 레깅스 (품절)" }));
+  check(
+    "Title and availability reported in order",
+    soldOut.map((change) => change.type).join() === "title_changed,availability_changed",
+    soldOut,
+  );
+
+  const discountEnded = detectChanges(product(), product({ price: { original: 20000, currency: "KRW" } }));
+  check(
+    "Disappearing price reported",
+    discountEnded[0]?.type === "price_changed" && discountEnded[0].current === undefined,
+    discountEnded,
+  );
+
+  const coupons = detectChanges(product(), product({ benefits: benefits([coupon("202", 15)]) }));
+  check(
+    "Coupon swap is added plus removed",
+    coupons.length === 2 &&
+      coupons[0]?.type === "benefit_added" &&
+      coupons[0].benefit.id === "202" &&
+      coupons[0].benefit.kind === "product_coupon" &&
+      coupons[1]?.type === "benefit_removed" &&
+      coupons[1].benefit.id === "101",
+    coupons,
+  );
+
+  const skipped = detectChanges(product(), product({ benefits: undefined }));
+  check("Missing benefits are not a removal", skipped.length === 0, skipped);
+
+  // Test signatures
+  console.log("\n=== Testing signatures ===");
+
+  const now = Date.parse("2026-05-01T00:00:00Z");
+  const timestamp = now / 1000;
+  const signature = `sha256=${WebhookDispatcher.sign("s3cret", timestamp, '{"a":1}')}`;
+
+  check("Valid signature verifies", WebhookDispatcher.verify("s3cret", signature, String(timestamp), '{"a":1}', now));
+  check("Tampered body rejected", !WebhookDispatcher.verify("s3cret", signature, String(timestamp), '{"a":2}', now));
+  check("Wrong secret rejected", !WebhookDispatcher.verify("other", signature, String(timestamp), '{"a":1}', now));
+  check("Stale timestamp rejected", !WebhookDispatcher.verify("s3cret", signature, String(timestamp), '{"a":1}', now + 600_000));
+  check("Missing header rejected", !WebhookDispatcher.verify("s3cret", undefined, String(timestamp), '{"a":1}', now));
+
+  check("Retry delay doubles", WebhookDispatcher.retryDelay(1000, 3) === 4000);
+  check("Retry-After wins when longer", WebhookDispatcher.retryDelay(1000, 1, 30) === 30000);
+
+  // Test delivery
+  console.log("\n=== Testing delivery ===");
+
+  {
+    const receiver = await startReceiver();
+    const dispatcher = new WebhookDispatcher(settings(receiver.url));
+
+    const delivery = dispatcher.dispatch("product.changed", { productId: "4256805008", changes: dropped });
+    check("Delivery pending straight away", delivery.status === "pending");
+
+    await waitFor(() => delivery.status !== "pending");
+    check("Delivered", delivery.status === "delivered" && delivery.attempts === 1 && delivery.responseStatus === 200, delivery);
+
+    const request = receiver.received[0];
+    check(
+      "Receiver can verify the signature",
+      request !== undefined &&
+        WebhookDispatcher.verify(
+          "s3cret",
+          request.headers["x-webhook-signature"] as string,
+          request.headers["x-webhook-timestamp"] as string,
+          request.body,
+        ),
+      request?.headers,
+    );
+
+    const payload = request ? JSON.parse(request.body) : null;
+    check(
+      "Payload carries event and changes",
+      payload?.type === "product.changed" &&
+        payload.id === delivery.eventId &&
+        request?.headers["x-webhook-id"] === delivery.eventId &&
+        payload.data.changes[0].type === "price_changed",
+      payload,
+    );
+
+    await dispatcher.stop(Date.now() + 500);
+    await receiver.close();
+  }
+
+  {
+    const receiver = await startReceiver([503, 500]);
+    const dispatcher = new WebhookDispatcher(settings(receiver.url));
+
+    const delivery = dispatcher.dispatch("product.changed", {});
+    await waitFor(() => delivery.status !== "pending");
+    check("Retried through server errors", delivery.status === "delivered" && delivery.attempts === 3, delivery);
+    check("Every attempt reached the receiver", receiver.received.length === 3, receiver.received.length);
+    check(
+      "Retries resend the same event",
+      new Set(receiver.received.map((request) => request.headers["x-webhook-id"])).size === 1,
+    );
+
+    await dispatcher.stop(Date.now() + 500);
+    await receiver.close();
+  }
+
+  {
+    const receiver = await startReceiver([500, 500, 500, 500]);
+    const dispatcher = new WebhookDispatcher(settings(receiver.url, { maxAttempts: 2 }));
+
+    const exhausted = dispatcher.dispatch("product.changed", {});
+    await waitFor(() => exhausted.status !== "pending");
+    check("Gives up after max attempts", exhausted.status === "failed" && exhausted.attempts === 2, exhausted);
+
+    const receiver400 = await startReceiver([400]);
+    const rejecting = new WebhookDispatcher(settings(receiver400.url));
+    const rejected = rejecting.dispatch("product.changed", {});
+    await waitFor(() => rejected.status !== "pending");
+    check("Client errors are final", rejected.status === "failed" && rejected.attempts === 1 && rejected.responseStatus === 400, rejected);
+
+    await dispatcher.stop(Date.now() + 500);
+    await rejecting.stop(Date.now() + 500);
+    await receiver.close();
+    await receiver400.close();
+  }
+
+  {
+    // Nothing listens on this port once the receiver is closed
+    const receiver = await startReceiver();
+    await receiver.close();
+    const dispatcher = new WebhookDispatcher(settings(receiver.url, { retryDelayMs: 60_000 }));
+
+    const unreachable = dispatcher.dispatch("product.changed", {});
+    await waitFor(() => unreachable.nextAttemptAt !== undefined);
+    check("Network errors are retried", unreachable.status === "pending" && unreachable.attempts === 1 && !!unreachable.error, unreachable);
+
+    await dispatcher.stop(Date.now() + 100);
+    check("Pending retries abandoned on stop", unreachable.status === "failed", unreachable);
+
+    const late = dispatcher.dispatch("product.changed", {});
+    check("Nothing sent after stop", late.status === "failed" && late.attempts === 0, late);
+  }
+
+  // Test delivery log
+  console.log("\n=== Testing delivery log ===");
+
+  {
+    const receiver = await startReceiver();
+    const dispatcher = new WebhookDispatcher(settings(receiver.url, { logSize: 3 }));
+
+    const deliveries = [1, 2, 3, 4].map((n) => dispatcher.dispatch("product.changed", { n }));
+    await waitFor(() => deliveries.every((delivery) => delivery.status !== "pending"));
+
+    const log = dispatcher.listDeliveries();
+    check("Log keeps the newest entries", log.length === 3 && log[0]?.id === deliveries[3]?.id, log.map((entry) => entry.id));
+    check("Limit applied", dispatcher.listDeliveries(1).length === 1);
+    check("Stats by status", dispatcher.getStats().delivered === 3, dispatcher.getStats());
+
+    await dispatcher.stop(Date.now() + 500);
+    await receiver.close();
+  }
+}
+
+runTests().catch((error) => {
+  console.error("Test run failed:", error);
+  process.exit(1);
+});
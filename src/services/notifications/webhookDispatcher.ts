@@ -0,0 +1,265 @@
+import { createHmac, randomUUID, timingSafeEqual } from "crypto";
+import axios from "axios";
+import { ProductFetcher } from "../naver/components/fetcher";
+import { logError, logInfo, logWarning } from "../../middleware/logger";
+import { config, WebhookConfig } from "../../config";
+
+export type WebhookEventType = "product.changed";
+
+export interface WebhookEvent<T = unknown> {
+  id: string;
+  type: WebhookEventType;
+  createdAt: string;
+  data: T;
+}
+
+export type DeliveryStatus = "pending" | "delivered" | "failed";
+
+/**
+ * One event sent to the endpoint, with the outcome of its latest attempt
+ */
+export interface WebhookDelivery {
+  id: string;
+  eventId: string;
+  eventType: WebhookEventType;
+  url: string;
+  status: DeliveryStatus;
+  attempts: number;
+  createdAt: string;
+  lastAttemptAt?: string;
+  nextAttemptAt?: string;
+  deliveredAt?: string;
+  responseStatus?: number;
+  error?: string;
+}
+
+export type WebhookSettings = Omit<WebhookConfig, "url" | "secret"> & {
+  url: string;
+  secret: string;
+};
+
+/**
+ * Posts signed events to the configured endpoint. Each request carries
+ * X-Webhook-Signature: sha256=<hex HMAC of "<timestamp>.<body>"> so the
+ * receiver can check both origin and freshness. Network errors, timeouts,
+ * 408, 429 and 5xx responses are retried with exponential backoff; other
+ * responses are final. Recent deliveries are kept for inspection.
+ */
+export class WebhookDispatcher {
+  private static readonly USER_AGENT = "naver-product-api-webhooks/1.0";
+  // Receivers should reject signatures older than this
+  static readonly SIGNATURE_TOLERANCE = 300; // seconds
+
+  private settings: WebhookSettings;
+  private deliveries: WebhookDelivery[] = [];
+  private retries: Map<string, NodeJS.Timeout> = new Map();
+  private inFlight: Set<Promise<void>> = new Set();
+  private stopped = false;
+
+  constructor(settings: WebhookSettings) {
+    this.settings = settings;
+  }
+
+  /**
+   * Hex HMAC-SHA256 of "<timestamp>.<body>"
+   */
+  static sign(secret: string, timestamp: number, body: string): string {
+    return createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+  }
+
+  /**
+   * Check a signature header as a receiver would, rejecting stale timestamps
+   */
+  static verify(
+    secret: string,
+    signatureHeader: string | undefined,
+    timestampHeader: string | undefined,
+    body: string,
+    now: number = Date.now(),
+  ): boolean {
+    const timestamp = Number(timestampHeader);
+    if (!signatureHeader?.startsWith("sha256=") || !Number.isInteger(timestamp)) return false;
+    if (Math.abs(now / 1000 - timestamp) > WebhookDispatcher.SIGNATURE_TOLERANCE) return false;
+
+    const expected = Buffer.from(WebhookDispatcher.sign(secret, timestamp, body), "hex");
+    const received = Buffer.from(signatureHeader.slice("sha256=".length), "hex");
+    return expected.length === received.length && timingSafeEqual(expected, received);
+  }
+
+  /**
+   * Milliseconds before retrying after `attempts` failed attempts
+   */
+  static retryDelay(baseMs: number, attempts: number, retryAfter?: number): number {
+    return Math.max(baseMs * 2 ** (attempts - 1), (retryAfter ?? 0) * 1000);
+  }
+
+  /**
+   * Queue an event for delivery; returns its delivery record straight away
+   */
+  dispatch<T>(type: WebhookEventType, data: T): WebhookDelivery {
+    const event: WebhookEvent<T> = {
+      id: randomUUID(),
+      type,
+      createdAt: new Date().toISOString(),
+      data,
+    };
+
+    const delivery: WebhookDelivery = {
+      id: randomUUID(),
+      eventId: event.id,
+      eventType: type,
+      url: this.settings.url,
+      status: "pending",
+      attempts: 0,
+      createdAt: event.createdAt,
+    };
+
+    this.deliveries.push(delivery);
+    if (this.deliveries.length > this.settings.logSize) {
+      this.deliveries.shift();
+    }
+
+    if (this.stopped) {
+      delivery.status = "failed";
+      delivery.error = "Webhooks are shutting down";
+      return delivery;
+    }
+
+    this.attempt(delivery, JSON.stringify(event));
+    return delivery;
+  }
+
+  /**
+   * Recent deliveries, newest first
+   */
+  listDeliveries(limit?: number): WebhookDelivery[] {
+    const newest = [...this.deliveries].reverse();
+    return limit === undefined ? newest : newest.slice(0, limit);
+  }
+
+  getStats(): Record<DeliveryStatus, number> & { url: string } {
+    const stats = { pending: 0, delivered: 0, failed: 0 };
+    for (const delivery of this.deliveries) {
+      stats[delivery.status]++;
+    }
+    return { ...stats, url: this.settings.url };
+  }
+
+  /**
+   * Cancel scheduled retries and give attempts in flight until `deadline`.
+   * Deliveries still pending afterwards are marked failed.
+   */
+  async stop(deadline: number): Promise<void> {
+    this.stopped = true;
+    this.retries.forEach((timer) => clearTimeout(timer));
+    this.retries.clear();
+
+    while (this.inFlight.size > 0 && Date.now() < deadline) {
+      await new Promise((resolve) => setTimeout(resolve, 100));
+    }
+
+    const abandoned = this.deliveries.filter((delivery) => delivery.status === "pending");
+    if (abandoned.length > 0) {
+      logWarning(`Abandoning ${abandoned.length} webhook deliveries during shutdown`);
+      for (const delivery of abandoned) {
+        delivery.status = "failed";
+        delivery.nextAttemptAt = undefined;
+        delivery.error = delivery.error ?? "Abandoned during shutdown";
+      }
+    }
+  }
+
+  private attempt(delivery: WebhookDelivery, body: string): void {
+    const run = this.send(delivery, body)
+      .catch((error) => logError(`Webhook delivery ${delivery.id} crashed:`, error))
+      .finally(() => this.inFlight.delete(run));
+    this.inFlight.add(run);
+  }
+
+  private async send(delivery: WebhookDelivery, body: string): Promise<void> {
+    delivery.attempts++;
+    delivery.lastAttemptAt = new Date().toISOString();
+    delivery.nextAttemptAt = undefined;
+
+    const timestamp = Math.floor(Date.now() / 1000);
+    let retryable: boolean;
+    let retryAfter: number | undefined;
+
+    try {
+      const response = await axios.post(this.settings.url, body, {
+        timeout: this.settings.timeoutMs,
+        maxRedirects: 0,
+        validateStatus: () => true,
+        headers: {
+          "Content-Type": "application/json",
+          "User-Agent": WebhookDispatcher.USER_AGENT,
+          "X-Webhook-Id": delivery.eventId,
+          "X-Webhook-Event": delivery.eventType,
+          "X-Webhook-Timestamp": String(timestamp),
+          "X-Webhook-Signature": `sha256=${WebhookDispatcher.sign(this.settings.secret, timestamp, body)}`,
+        },
+      });
+
+      delivery.responseStatus = response.status;
+
+      if (response.status >= 200 && response.status < 300) {
+        delivery.status = "delivered";
+        delivery.deliveredAt = new Date().toISOString();
+        delivery.error = undefined;
+        logInfo(`Webhook ${delivery.eventType} delivered (attempt ${delivery.attempts})`, {
+          deliveryId: delivery.id,
+        });
+        return;
+      }
+
+      delivery.error = `Endpoint responded with HTTP ${response.status}`;
+      retryable = response.status === 408 || response.status === 429 || response.status >= 500;
+      retryAfter = ProductFetcher.parseRetryAfter(response.headers["retry-after"]);
+    } catch (error) {
+      delivery.error = error instanceof Error ? error.message : "Unknown error";
+      delivery.responseStatus = undefined;
+      retryable = true;
+    }
+
+    if (!retryable || delivery.attempts >= this.settings.maxAttempts || this.stopped) {
+      delivery.status = "failed";
+      logWarning(`Webhook ${delivery.eventType} failed after ${delivery.attempts} attempts`, {
+        deliveryId: delivery.id,
+        error: delivery.error,
+      });
+      return;
+    }
+
+    const delay = WebhookDispatcher.retryDelay(
+      this.settings.retryDelayMs,
+      delivery.attempts,
+      retryAfter,
+    );
+    delivery.nextAttemptAt = new Date(Date.now() + delay).toISOString();
+
+    const timer = setTimeout(() => {
+      this.retries.delete(delivery.id);
+      this.attempt(delivery, body);
+    }, delay);
+    timer.unref();
+    this.retries.set(delivery.id, timer);
+  }
+}
+
+let sharedDispatcher: WebhookDispatcher | null | undefined;
+
+/**
+ * Shared dispatcher, or null when WEBHOOK_URL is not set
+ */
+export function getWebhookDispatcher(
+  settings: WebhookConfig = config.webhooks,
+): WebhookDispatcher | null {
+  if (sharedDispatcher === undefined) {
+    const { url, secret } = settings;
+    sharedDispatcher = url && secret ? new WebhookDispatcher({ ...settings, url, secret }) : null;
+    if (sharedDispatcher) {
+      logInfo(`Webhooks enabled (${new URL(url!).host})`);
+    }
+  }
+  return sharedDispatcher;
+}
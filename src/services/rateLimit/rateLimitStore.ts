@@ -0,0 +1,86 @@
+import { config, RateLimitConfig } from "../../config";
+import { logInfo } from "../../middleware/logger";
+import { RedisCacheStore } from "../cache/redisCacheStore";
+import type { RateLimitStore } from "../../utils";
+
+/**
+ * Increments the counter and opens the window in one round trip, so
+ * concurrent instances can't both see a fresh key and skip the expiry.
+ * A charge that would pass the limit is refused without being counted.
+ */
+const INCREMENT_SCRIPT = `
+local current = tonumber(redis.call("GET", KEYS[1]) or "0")
+if current + tonumber(ARGV[1]) > tonumber(ARGV[3]) then
+  local ttl = redis.call("PTTL", KEYS[1])
+  if ttl < 0 then
+    ttl = tonumber(ARGV[2])
+  end
+  return {current, ttl, 0}
+end
+local count = redis.call("INCRBY", KEYS[1], ARGV[1])
+local ttl = redis.call("PTTL", KEYS[1])
+if ttl < 0 then
+  redis.call("PEXPIRE", KEYS[1], ARGV[2])
+  ttl = tonumber(ARGV[2])
+end
+return {count, ttl, 1}
+`;
+
+/**
+ * Rate limit counters kept in Redis so every instance behind a load
+ * balancer draws from the same budget
+ */
+export class RedisRateLimitStore implements RateLimitStore {
+  private static readonly KEY_PREFIX = "naver:ratelimit:";
+
+  readonly name = "redis";
+
+  constructor(private client: RedisCacheStore) {}
+
+  async increment(
+    key: string,
+    cost: number,
+    windowMs: number,
+    limit: number,
+  ): Promise<{ count: number; resetTime: number; allowed: boolean }> {
+    const reply = await this.client.command(
+      "EVAL",
+      INCREMENT_SCRIPT,
+      "1",
+      RedisRateLimitStore.KEY_PREFIX + key,
+      String(cost),
+      String(windowMs),
+      String(limit),
+    );
+
+    if (
+      !Array.isArray(reply) ||
+      typeof reply[0] !== "number" ||
+      typeof reply[1] !== "number" ||
+      typeof reply[2] !== "number"
+    ) {
+      throw new Error("Unexpected reply from Redis rate limit script");
+    }
+
+    return { count: reply[0], resetTime: Date.now() + reply[1], allowed: reply[2] === 1 };
+  }
+
+  async close(): Promise<void> {
+    await this.client.close();
+  }
+}
+
+/**
+ * Build the configured counter store. Returns undefined for the memory
+ * backend, where the validator keeps counters itself.
+ */
+export function createRateLimitStore(
+  settings: RateLimitConfig = config.rateLimit,
+): RateLimitStore | undefined {
+  if (settings.store === "redis") {
+    logInfo(`Using Redis rate limit store at ${RedisCacheStore.describeUrl(settings.redisUrl)}`);
+    return new RedisRateLimitStore(new RedisCacheStore(settings.redisUrl));
+  }
+
+  return undefined;
+}
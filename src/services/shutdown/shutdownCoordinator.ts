@@ -0,0 +1,143 @@
+import { Server } from "http";
+import { Request, Response, NextFunction } from "express";
+import { logInfo, logError, logWarning } from "../../middleware/logger";
+import { AppError } from "../../middleware/errorHandler";
+import { config } from "../../config";
+
+export type LifecycleState = "running" | "draining" | "stopped";
+
+/**
+ * Cleanup step run after in-flight requests drain. `deadline` is the epoch
+ * time by which the whole shutdown should be done.
+ */
+export type ShutdownHook = (deadline: number) => Promise<void>;
+
+export interface ShutdownOptions {
+  timeoutMs?: number;
+}
+
+/**
+ * Coordinates a graceful stop: refuse new work, wait for in-flight requests
+ * up to a deadline, then run cleanup hooks in registration order.
+ */
+export class ShutdownCoordinator {
+  private static readonly DEFAULT_TIMEOUT = 30000; // 30 seconds
+  private static readonly POLL_INTERVAL = 100;
+
+  private state: LifecycleState = "running";
+  private inFlight = 0;
+  private hooks: { name: string; hook: ShutdownHook }[] = [];
+  private timeoutMs: number;
+  private shuttingDown: Promise<void> | null = null;
+
+  constructor(options: ShutdownOptions = {}) {
+    this.timeoutMs = options.timeoutMs ?? ShutdownCoordinator.DEFAULT_TIMEOUT;
+  }
+
+  getState(): LifecycleState {
+    return this.state;
+  }
+
+  isDraining(): boolean {
+    return this.state !== "running";
+  }
+
+  getInFlight(): number {
+    return this.inFlight;
+  }
+
+  /**
+   * Register a cleanup step, e.g. closing the browser pool
+   */
+  register(name: string, hook: ShutdownHook): void {
+    this.hooks.push({ name, hook });
+  }
+
+  /**
+   * Middleware counting in-flight requests and turning new ones away while
+   * draining. Health checks are let through so they can report `draining`.
+   */
+  trackRequests() {
+    return (req: Request, res: Response, next: NextFunction): void => {
+      if (this.isDraining() && req.path !== "/health") {
+        res.set("Connection", "close");
+        // Retry once this instance has had time to stop and be replaced
+        return next(
+          new AppError("Server is shutting down", 503, {
+            code: "SERVICE_UNAVAILABLE",
+            retryAfter: this.timeoutMs / 1000,
+          }),
+        );
+      }
+
+      this.inFlight++;
+      let finished = false;
+      const done = () => {
+        if (finished) return;
+        finished = true;
+        this.inFlight--;
+      };
+      res.on("finish", done);
+      res.on("close", done);
+
+      next();
+    };
+  }
+
+  /**
+   * Drain and clean up. Repeated calls share the same shutdown.
+   */
+  shutdown(server: Server | null, reason: string): Promise<void> {
+    if (this.shuttingDown) return this.shuttingDown;
+
+    this.shuttingDown = this.run(server, reason);
+    return this.shuttingDown;
+  }
+
+  private async run(server: Server | null, reason: string): Promise<void> {
+    const deadline = Date.now() + this.timeoutMs;
+    this.state = "draining";
+    logInfo(`${reason} received, draining ${this.inFlight} in-flight requests`);
+
+    // Stop accepting new connections; existing ones finish their requests
+    const serverClosed = server
+      ? new Promise<void>((resolve) => server.close(() => resolve()))
+      : Promise.resolve();
+    server?.closeIdleConnections();
+
+    while (this.inFlight > 0 && Date.now() < deadline) {
+      await new Promise((resolve) =>
+        setTimeout(resolve, ShutdownCoordinator.POLL_INTERVAL),
+      );
+      server?.closeIdleConnections();
+    }
+
+    if (this.inFlight > 0) {
+      logWarning(`Shutdown deadline reached with ${this.inFlight} requests still running`);
+      server?.closeAllConnections();
+    } else {
+      logInfo("All in-flight requests finished");
+    }
+
+    for (const { name, hook } of this.hooks) {
+      try {
+        await hook(deadline);
+        logInfo(`Shutdown step "${name}" done`);
+      } catch (error) {
+        logError(`Shutdown step "${name}" failed:`, error);
+      }
+    }
+
+    await Promise.race([
+      serverClosed,
+      new Promise((resolve) => setTimeout(resolve, Math.max(0, deadline - Date.now()))),
+    ]);
+
+    this.state = "stopped";
+    logInfo("Shutdown complete");
+  }
+}
+
+export const shutdownCoordinator = new ShutdownCoordinator({
+  timeoutMs: config.server.shutdownTimeoutMs,
+});
@@ -0,0 +1,123 @@
+import express from "express";
+import http from "http";
+import { AddressInfo } from "net";
+import { ShutdownCoordinator } from "../shutdownCoordinator";
+import { errorHandler } from "../../../middleware/errorHandler";
+import { check } from "../../../utils/tests/check";
+
+/**
+ * Test suite for graceful shutdown: draining, refusing new work and
+ * running cleanup hooks
+ */
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function request(
+  port: number,
+  path: string,
+): Promise<{ status: number; headers: http.IncomingHttpHeaders; body: any }> {
+  return new Promise((resolve, reject) => {
+    http
+      .get({ port, path, agent: false }, (res) => {
+        let data = "";
+        res.on("data", (chunk) => (data += chunk));
+        res.on("end", () =>
+          resolve({ status: res.statusCode || 0, headers: res.headers, body: JSON.parse(data) }),
+        );
+      })
+      .on("error", reject);
+  });
+}
+
+async function testDrain(): Promise<void> {
+  console.log("=== Testing drain and cleanup ===");
+
+  const coordinator = new ShutdownCoordinator({ timeoutMs: 2000 });
+  const app = express();
+  app.use(coordinator.trackRequests());
+  app.get("/health", (req, res) => {
+    res.status(coordinator.isDraining() ? 503 : 200).json({ status: coordinator.getState() });
+  });
+  app.get("/slow", async (req, res) => {
+    await sleep(200);
+    res.json({ done: true });
+  });
+
+  const server = app.listen(0);
+  const port = (server.address() as AddressInfo).port;
+
+  const steps: string[] = [];
+  coordinator.register("first", async () => {
+    steps.push(`first:${coordinator.getInFlight()}`);
+  });
+  coordinator.register("broken", async () => {
+    throw new Error("cleanup failed");
+  });
+  coordinator.register("last", async () => {
+    steps.push("last");
+  });
+
+  const slow = request(port, "/slow");
+  await sleep(50);
+  check("Request counted as in flight", coordinator.getInFlight() === 1, coordinator.getInFlight());
+
+  const shutdown = coordinator.shutdown(server, "TEST");
+  check("State is draining", coordinator.getState() === "draining");
+
+  const slowResult = await slow;
+  check("In-flight request completes", slowResult.status === 200 && slowResult.body.done === true, slowResult);
+
+  await shutdown;
+  check("Hooks run after drain, in order", steps.join(",") === "first:0,last", steps);
+  check("Failing hook does not stop the rest", steps.includes("last"));
+  check("State is stopped", coordinator.getState() === "stopped");
+}
+
+async function testRefuseWhileDraining(): Promise<void> {
+  console.log("\n=== Testing new requests while draining ===");
+
+  const coordinator = new ShutdownCoordinator({ timeoutMs: 500 });
+  const app = express();
+  app.use(coordinator.trackRequests());
+  app.get("/health", (req, res) => {
+    res.status(coordinator.isDraining() ? 503 : 200).json({ status: coordinator.getState() });
+  });
+  app.get("/naver", (req, res) => {
+    res.json({ ok: true });
+  });
+  app.use(errorHandler);
+
+  // Hold the server open with a hook so requests can arrive mid-shutdown
+  let releaseHook: () => void = () => undefined;
+  coordinator.register("hold", () => new Promise<void>((resolve) => (releaseHook = resolve)));
+
+  const server = app.listen(0);
+
+  // The drained server stops accepting, so send probes through a second listener
+  const probe = http.createServer(app).listen(0);
+  const probePort = (probe.address() as AddressInfo).port;
+
+  const shutdown = coordinator.shutdown(server, "TEST");
+  await sleep(20);
+
+  const refused = await request(probePort, "/naver");
+  check("New work refused with 503", refused.status === 503, refused);
+  check(
+    "Refusal uses the standard error shape",
+    refused.body.error?.code === "SERVICE_UNAVAILABLE" && refused.body.error.retryable === true,
+    refused.body,
+  );
+  check("Retry-After set", refused.headers["retry-after"] === "1", refused.headers);
+
+  const health = await request(probePort, "/health");
+  check("Health reports draining", health.status === 503 && health.body.status === "draining", health);
+
+  releaseHook();
+  await shutdown;
+  probe.close();
+}
+
+(async () => {
+  await testDrain();
+  await testRefuseWhileDraining();
+})();
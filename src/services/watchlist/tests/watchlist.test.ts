@@ -0,0 +1,273 @@
+import os from "os";
+import path from "path";
+import { promises as fs } from "fs";
+import { Watchlist } from "../watchlist";
+import { FileWatchlistStore, MemoryWatchlistStore, WatchItem } from "../watchlistStore";
+import { NaverScraper, NaverOptions, NaverProductData } from "../../naver/naverScraper";
+import type { WebhookDispatcher } from "../../notifications/webhookDispatcher";
+import type { ProductCoupon } from "../../naver/components/benefits";
+import { NaverUrlResolver } from "../../naver/components/urlResolver";
+import { AppError } from "../../../middleware/errorHandler";
+import { check } from "../../../utils/tests/check";
+
+/**
+ * Test suite for the watchlist: registration, scheduling, concurrency and
+ * backoff of failing products
+ */
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const url = (id: number) => `https://smartstore.naver.com/store/products/${id}`;
+
+/**
+ * Scraper double: resolves store URLs offline, records browser scrapes and
+ * fails for products listed in `failing`. Prices come from `prices`
+ * (default 10000) and product coupons from `coupons`.
+ */
+function fakeScraper(failing: Set<string> = new Set(), scrapeMs = 20) {
+  const scraped: string[] = [];
+  const prices = new Map<string, number>();
+  const coupons = new Map<string, ProductCoupon[]>();
+  let active = 0;
+  let peak = 0;
+
+  const scraper = {
+    resolveUrl: async (productUrl: string) => {
+      const resolved = NaverUrlResolver.parse(productUrl);
+      if (!resolved) throw new AppError("Unsupported Naver product URL", 400, { code: "INVALID_URL" });
+      return resolved;
+    },
+    scrapeUsingBrowser: async (productUrl: string, options: NaverOptions) => {
+      active++;
+      peak = Math.max(peak, active);
+      try {
+        await sleep(scrapeMs);
+        if (options.signal?.aborted) throw new AppError("Request cancelled", 499, { code: "REQUEST_CANCELLED" });
+        const { productId } = NaverUrlResolver.parse(productUrl)!;
+        scraped.push(productId);
+        if (failing.has(productId)) {
+          throw new AppError("Too many requests - rate limited by server", 429, {
+            code: "UPSTREAM_RATE_LIMITED",
+            retryAfter: 5000,
+          });
+        }
+        const price = prices.get(productId) ?? 10000;
+        const productCoupons = coupons.get(productId) ?? [];
+        const bestAchievable = productCoupons.reduce((best, coupon) => best - coupon.discountValue, price);
+        return {
+          title: `Product ${productId}`,
+          price: { original: price, bestAchievable, currency: "KRW", formatted: `${price}원` },
+          benefits: { storeCoupons: [], productCoupons, cardDiscounts: [], points: [], totalPointRate: 0 },
+          images: [],
+          brand: "store",
+          seller: { name: "store", url: "https://smartstore.naver.com/store" },
+          productId,
+          url: productUrl,
+          availability: true,
+        } satisfies NaverProductData;
+      } finally {
+        active--;
+      }
+    },
+  } as unknown as NaverScraper;
+
+  return { scraper, scraped, prices, coupons, peak: () => peak };
+}
+
+const item = (overrides: Partial<WatchItem>): WatchItem => ({
+  id: "1",
+  url: url(1),
+  requestedUrl: url(1),
+  intervalSeconds: 600,
+  createdAt: new Date().toISOString(),
+  lastStatus: "pending",
+  consecutiveFailures: 0,
+  runs: 0,
+  nextRunAt: new Date().toISOString(),
+  ...overrides,
+});
+
+async function runTests() {
+  // Test backoff
+  console.log("=== Testing backoff ===");
+
+  check("Success waits the interval", Watchlist.nextDelaySeconds(item({})) === 600);
+  check("First failure doubles", Watchlist.nextDelaySeconds(item({ consecutiveFailures: 1 })) === 1200);
+  check("Third failure is 8x", Watchlist.nextDelaySeconds(item({ consecutiveFailures: 3 })) === 4800);
+  check("Backoff capped at a day", Watchlist.nextDelaySeconds(item({ consecutiveFailures: 20 })) === 86400);
+  check("Long intervals never shrink", Watchlist.nextDelaySeconds(item({ intervalSeconds: 172800, consecutiveFailures: 1 })) === 172800);
+  check("Retry-After honoured", Watchlist.nextDelaySeconds(item({ consecutiveFailures: 1 }), 7200) === 7200);
+
+  // Test registration
+  console.log("\n=== Testing registration ===");
+
+  {
+    const { scraper } = fakeScraper();
+    const watchlist = new Watchlist(scraper, new MemoryWatchlistStore(), { minIntervalSeconds: 60, maxItems: 3 });
+
+    let rejected: AppError | null = null;
+    try {
+      await watchlist.add([url(1)], 10);
+    } catch (error) {
+      rejected = error instanceof AppError ? error : null;
+    }
+    check("Interval below minimum rejected", rejected?.statusCode === 400, rejected?.message);
+
+    const first = await watchlist.add(
+      [url(1), "https://m.smartstore.naver.com/store/products/2", "https://example.com/x"],
+      600,
+    );
+    check("Valid URLs added", first.added.length === 2 && first.added[1]?.url === url(2), first.added);
+    check("Bad URLs reported per URL", first.failed.length === 1 && first.failed[0]?.code === "INVALID_URL", first.failed);
+    check("New items run straight away", first.added.every((added) => added.lastStatus === "pending" && Date.parse(added.nextRunAt) <= Date.now()));
+
+    const again = await watchlist.add([url(1)], 120);
+    check("Same product updated, not duplicated", watchlist.list().length === 2 && again.added[0]?.intervalSeconds === 120, watchlist.list());
+
+    const full = await watchlist.add([url(3), url(4)], 600);
+    check("Capacity enforced", full.added.length === 1 && full.failed[0]?.code === "CONFLICT", full);
+
+    await watchlist.remove("2");
+    check("Removed", watchlist.get("2") === null && watchlist.list().length === 2);
+
+    let missing: AppError | null = null;
+    try {
+      await watchlist.remove("2");
+    } catch (error) {
+      missing = error instanceof AppError ? error : null;
+    }
+    check("Removing twice is NOT_FOUND", missing?.code === "NOT_FOUND", missing?.message);
+  }
+
+  // Test scheduling
+  console.log("\n=== Testing scheduling ===");
+
+  {
+    const { scraper, scraped, peak } = fakeScraper(new Set(["13"]));
+    const watchlist = new Watchlist(scraper, new MemoryWatchlistStore(), {
+      concurrency: 2,
+      minIntervalSeconds: 1,
+      tickMs: 10,
+    });
+    await watchlist.start();
+    await watchlist.add([url(11), url(12), url(13), url(14)], 3600);
+
+    await sleep(200);
+
+    check("Every due product scraped once", scraped.slice().sort().join() === "11,12,13,14", scraped);
+    check("Concurrency respected", peak() === 2, peak());
+
+    const ok = watchlist.get("11");
+    check("Success recorded", ok?.lastStatus === "ok" && ok.runs === 1 && ok.consecutiveFailures === 0, ok);
+    check(
+      "Next run one interval later",
+      ok !== null && Math.abs(Date.parse(ok.nextRunAt) - Date.parse(ok.lastRunAt!) - 3600_000) < 5,
+      ok,
+    );
+
+    const failed = watchlist.get("13");
+    check("Failure recorded with code", failed?.lastStatus === "failed" && failed.lastError?.code === "UPSTREAM_RATE_LIMITED", failed);
+    check(
+      "Failing product backs off",
+      failed !== null && Date.parse(failed.nextRunAt) - Date.parse(failed.lastRunAt!) >= 7200_000,
+      failed,
+    );
+    check("Stats count failing products", watchlist.getStats().failing === 1, watchlist.getStats());
+
+    await watchlist.stop(Date.now() + 100);
+    const afterStop = await watchlist.add([url(15)], 3600).catch((error) => error);
+    check("Adding after stop refused", afterStop instanceof AppError && afterStop.code === "SERVICE_UNAVAILABLE", afterStop?.message);
+  }
+
+  // Test change notifications
+  console.log("\n=== Testing change notifications ===");
+
+  {
+    const { scraper, prices, coupons } = fakeScraper();
+    const dispatched: { type: string; data: any }[] = [];
+    const webhooks = {
+      dispatch: (type: string, data: unknown) => dispatched.push({ type, data }),
+    } as unknown as WebhookDispatcher;
+
+    const watchlist = new Watchlist(scraper, new MemoryWatchlistStore(), { minIntervalSeconds: 1, tickMs: 10 }, webhooks);
+    await watchlist.start();
+    await watchlist.add([url(31)], 1);
+    await sleep(100);
+
+    check("First run only records a baseline", dispatched.length === 0 && watchlist.get("31")?.lastSnapshot?.price.original === 10000, dispatched);
+
+    await sleep(1000);
+    check("Unchanged product not notified", dispatched.length === 0, dispatched);
+
+    prices.set("31", 8000);
+    await sleep(1100);
+
+    const event = dispatched[0];
+    check(
+      "Price drop dispatched",
+      dispatched.length === 1 &&
+        event?.type === "product.changed" &&
+        event.data.productId === "31" &&
+        event.data.changes[0]?.type === "price_changed" &&
+        event.data.changes[0]?.current === 8000,
+      dispatched,
+    );
+    check("Last change recorded", watchlist.get("31")?.lastChangedAt === event?.data.product.capturedAt, watchlist.get("31"));
+
+    coupons.set("31", [
+      { id: "C1", name: "첫구매 1000원", scope: "product", discountType: "fixed", discountValue: 1000, downloadable: true },
+    ]);
+    await sleep(1100);
+
+    const changes: any[] = dispatched[1]?.data.changes ?? [];
+    check(
+      "New coupon dispatched",
+      changes.some((change) => change.type === "benefit_added" && change.benefit.id === "C1"),
+      changes,
+    );
+    check(
+      "Best achievable price change dispatched",
+      changes.some((change) => change.type === "price_changed" && change.field === "bestAchievable" && change.current === 7000),
+      changes,
+    );
+
+    coupons.delete("31");
+    await sleep(1100);
+    check(
+      "Expired coupon dispatched",
+      dispatched[2]?.data.changes.some((change: any) => change.type === "benefit_removed" && change.benefit.id === "C1"),
+      dispatched[2],
+    );
+
+    await watchlist.stop(Date.now() + 100);
+  }
+
+  // Test persistence
+  console.log("\n=== Testing persistence ===");
+
+  const directory = await fs.mkdtemp(path.join(os.tmpdir(), "watchlist-"));
+  try {
+    const { scraper } = fakeScraper();
+    const store = new FileWatchlistStore(directory);
+    const later = new Date(Date.now() + 3600_000).toISOString();
+    await store.save(item({ id: "21", url: url(21), nextRunAt: later, runs: 4, lastStatus: "ok" }));
+
+    const restarted = new Watchlist(scraper, new FileWatchlistStore(directory), { tickMs: 10 });
+    await restarted.start();
+    await sleep(50);
+
+    const loaded = restarted.get("21");
+    check("Items and schedule survive restart", loaded?.runs === 4 && loaded.nextRunAt === later, loaded);
+
+    await restarted.remove("21");
+    check("Removal deletes the file", (await fs.readdir(directory)).length === 0);
+    await restarted.stop(Date.now());
+  } finally {
+    await fs.rm(directory, { recursive: true, force: true });
+  }
+}
+
+runTests().catch((error) => {
+  console.error("Test run failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,348 @@
+import {
+  NaverScraper,
+  NaverOptions,
+  BatchFailure,
+} from "../naver/naverScraper";
+import { AppError } from "../../middleware/errorHandler";
+import { logInfo, logError, logWarning, withLogContext } from "../../middleware/logger";
+import { WatchItem, WatchlistStore, MemoryWatchlistStore } from "./watchlistStore";
+import { PriceSnapshot, toSnapshot } from "../history/historyStore";
+import { detectChanges, ProductChange } from "../notifications/changeDetector";
+import type { WebhookDispatcher } from "../notifications/webhookDispatcher";
+
+export interface WatchlistOptions {
+  concurrency?: number;
+  minIntervalSeconds?: number;
+  maxItems?: number;
+  // How often due items are looked for
+  tickMs?: number;
+}
+
+export interface WatchItemView extends WatchItem {
+  running: boolean;
+}
+
+/**
+ * Payload of product.changed webhook events
+ */
+export interface ProductChangedEvent {
+  productId: string;
+  url: string;
+  changes: ProductChange[];
+  product: PriceSnapshot;
+}
+
+export interface WatchlistAddResult {
+  added: WatchItemView[];
+  failed: BatchFailure[];
+}
+
+/**
+ * Re-scrapes registered products on their own interval. Items live in
+ * memory and are written through to the store; runs go through
+ * NaverScraper.scrapeUsingBrowser, so the shared scheduler's global and
+ * per-store limits apply on top of this watchlist's own concurrency.
+ * The browser path is the only one that captures coupons and the best
+ * achievable price, which change notifications depend on. Each successful
+ * run is diffed against the previous one and any changes are sent to the
+ * webhook dispatcher.
+ */
+export class Watchlist {
+  private static readonly DEFAULT_CONCURRENCY = 2;
+  private static readonly DEFAULT_MIN_INTERVAL = 300; // seconds
+  private static readonly DEFAULT_MAX_ITEMS = 500;
+  private static readonly DEFAULT_TICK_MS = 1000;
+  // Failing items wait interval x 2^failures, but never longer than this
+  private static readonly MAX_BACKOFF = 86400; // seconds
+
+  private scraper: NaverScraper;
+  private store: WatchlistStore;
+  private webhooks: WebhookDispatcher | null;
+  private concurrency: number;
+  private minIntervalSeconds: number;
+  private maxItems: number;
+  private tickMs: number;
+  private items: Map<string, WatchItem> = new Map();
+  private running: Map<string, AbortController> = new Map();
+  private timer: NodeJS.Timeout | null = null;
+  private stopped = false;
+
+  constructor(
+    scraper: NaverScraper,
+    store: WatchlistStore = new MemoryWatchlistStore(),
+    options: WatchlistOptions = {},
+    webhooks: WebhookDispatcher | null = null,
+  ) {
+    this.scraper = scraper;
+    this.store = store;
+    this.webhooks = webhooks;
+    this.concurrency = options.concurrency ?? Watchlist.DEFAULT_CONCURRENCY;
+    this.minIntervalSeconds = options.minIntervalSeconds ?? Watchlist.DEFAULT_MIN_INTERVAL;
+    this.maxItems = options.maxItems ?? Watchlist.DEFAULT_MAX_ITEMS;
+    this.tickMs = options.tickMs ?? Watchlist.DEFAULT_TICK_MS;
+  }
+
+  /**
+   * Seconds until the next run. Successes wait the item's interval;
+   * failures double it per consecutive failure (capped at a day) and honour
+   * any Retry-After from Naver.
+   */
+  static nextDelaySeconds(item: WatchItem, retryAfter?: number): number {
+    if (item.consecutiveFailures === 0) return item.intervalSeconds;
+
+    const backoff = Math.min(
+      item.intervalSeconds * 2 ** item.consecutiveFailures,
+      Watchlist.MAX_BACKOFF,
+    );
+    return Math.max(item.intervalSeconds, backoff, retryAfter ?? 0);
+  }
+
+  /**
+   * Load saved items and start checking for due ones
+   */
+  async start(): Promise<void> {
+    const saved = await this.store.list();
+    for (const item of saved) {
+      this.items.set(item.id, item);
+    }
+
+    this.timer = setInterval(() => this.tick(), this.tickMs);
+    this.timer.unref();
+
+    logInfo(`Watchlist started with ${this.items.size} products`);
+    this.tick();
+  }
+
+  /**
+   * Watch products, resolving each URL to its product first. Registering a
+   * watched product again updates its interval and options.
+   */
+  async add(
+    urls: string[],
+    intervalSeconds: number,
+    options?: NaverOptions,
+  ): Promise<WatchlistAddResult> {
+    if (this.stopped) {
+      throw new AppError("Watchlist is shutting down", 503, { code: "SERVICE_UNAVAILABLE" });
+    }
+
+    if (intervalSeconds < this.minIntervalSeconds) {
+      throw new AppError(
+        `intervalSeconds must be at least ${this.minIntervalSeconds}`,
+        400,
+      );
+    }
+
+    const result: WatchlistAddResult = { added: [], failed: [] };
+
+    for (const url of urls) {
+      try {
+        const { productId, canonicalUrl } = await this.scraper.resolveUrl(url);
+        const now = new Date();
+
+        let item = this.items.get(productId);
+        if (item) {
+          // Bring the next run forward if the new interval is shorter
+          const sooner = now.getTime() + intervalSeconds * 1000;
+          if (item.consecutiveFailures === 0 && sooner < Date.parse(item.nextRunAt)) {
+            item.nextRunAt = new Date(sooner).toISOString();
+          }
+          item.intervalSeconds = intervalSeconds;
+          item.options = options;
+        } else {
+          if (this.items.size >= this.maxItems) {
+            throw new AppError(`Watchlist is full (${this.maxItems} products)`, 409, {
+              code: "CONFLICT",
+            });
+          }
+
+          item = {
+            id: productId,
+            url: canonicalUrl,
+            requestedUrl: url,
+            intervalSeconds,
+            options,
+            createdAt: now.toISOString(),
+            lastStatus: "pending",
+            consecutiveFailures: 0,
+            runs: 0,
+            nextRunAt: now.toISOString(),
+          };
+          this.items.set(productId, item);
+        }
+
+        await this.store.save(item);
+        result.added.push(this.view(item));
+      } catch (error) {
+        result.failed.push({
+          url,
+          error: error instanceof AppError ? error.message : "Unknown error",
+          code: error instanceof AppError ? error.code : "INTERNAL_ERROR",
+        });
+      }
+    }
+
+    logInfo(`Watching ${result.added.length} products (${result.failed.length} rejected)`);
+
+    this.tick();
+    return result;
+  }
+
+  /**
+   * Watched products, soonest run first
+   */
+  list(): WatchItemView[] {
+    return [...this.items.values()]
+      .sort((a, b) => a.nextRunAt.localeCompare(b.nextRunAt))
+      .map((item) => this.view(item));
+  }
+
+  get(id: string): WatchItemView | null {
+    const item = this.items.get(id);
+    return item ? this.view(item) : null;
+  }
+
+  /**
+   * Stop watching a product, abandoning a run in progress
+   */
+  async remove(id: string): Promise<void> {
+    if (!this.items.has(id)) {
+      throw new AppError("Watched product not found", 404, { code: "NOT_FOUND" });
+    }
+
+    this.items.delete(id);
+    this.running.get(id)?.abort();
+    await this.store.delete(id);
+
+    logInfo(`Stopped watching product ${id}`);
+  }
+
+  getStats(): { items: number; running: number; failing: number; concurrency: number } {
+    return {
+      items: this.items.size,
+      running: this.running.size,
+      failing: [...this.items.values()].filter((item) => item.consecutiveFailures > 0).length,
+      concurrency: this.concurrency,
+    };
+  }
+
+  /**
+   * Stop scheduling runs, give running ones until `deadline` to finish, then
+   * abort them. Aborted items keep their schedule and run after restart.
+   */
+  async stop(deadline: number): Promise<void> {
+    this.stopped = true;
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+
+    while (this.running.size > 0 && Date.now() < deadline) {
+      await new Promise((resolve) => setTimeout(resolve, 100));
+    }
+
+    if (this.running.size > 0) {
+      logWarning(`Aborting ${this.running.size} watchlist runs during shutdown`);
+      this.running.forEach((controller) => controller.abort());
+    }
+  }
+
+  private view(item: WatchItem): WatchItemView {
+    return { ...item, running: this.running.has(item.id) };
+  }
+
+  private tick(): void {
+    if (this.stopped) return;
+
+    const now = Date.now();
+    const due = [...this.items.values()]
+      .filter((item) => !this.running.has(item.id) && Date.parse(item.nextRunAt) <= now)
+      .sort((a, b) => a.nextRunAt.localeCompare(b.nextRunAt));
+
+    for (const item of due) {
+      if (this.running.size >= this.concurrency) break;
+
+      const controller = new AbortController();
+      this.running.set(item.id, controller);
+
+      // Runs aren't tied to any request, so they log under the product id
+      withLogContext({ requestId: undefined, watchId: item.id }, () =>
+        this.execute(item.id, controller.signal),
+      )
+        .catch((error) => logError(`Watchlist run for ${item.id} crashed:`, error))
+        .finally(() => {
+          this.running.delete(item.id);
+          this.tick();
+        });
+    }
+  }
+
+  /**
+   * Diff a fresh snapshot against the item's last one and notify on changes.
+   * The first successful run only records the baseline.
+   */
+  private compare(item: WatchItem, snapshot: PriceSnapshot): void {
+    const previous = item.lastSnapshot;
+    item.lastSnapshot = snapshot;
+    if (!previous) return;
+
+    const changes = detectChanges(previous, snapshot);
+    if (changes.length === 0) return;
+
+    item.lastChangedAt = snapshot.capturedAt;
+    logInfo(`Watched product ${item.id} changed`, {
+      changes: changes.map((change) => change.type),
+    });
+
+    const event: ProductChangedEvent = {
+      productId: item.id,
+      url: item.url,
+      changes,
+      product: snapshot,
+    };
+    this.webhooks?.dispatch("product.changed", event);
+  }
+
+  private async execute(id: string, signal: AbortSignal): Promise<void> {
+    const item = this.items.get(id);
+    if (!item) return;
+
+    let retryAfter: number | undefined;
+    try {
+      const product = await this.scraper.scrapeUsingBrowser(item.url, { ...item.options, signal });
+      this.compare(item, toSnapshot(product));
+      item.lastStatus = "ok";
+      item.lastError = undefined;
+      item.consecutiveFailures = 0;
+    } catch (error) {
+      // Removed or shutting down; the item keeps its schedule
+      if (signal.aborted) return;
+
+      item.lastStatus = "failed";
+      item.lastError = {
+        code: error instanceof AppError ? error.code : "INTERNAL_ERROR",
+        message: error instanceof AppError ? error.message : "Unknown error",
+      };
+      item.consecutiveFailures++;
+      retryAfter = error instanceof AppError ? error.retryAfter : undefined;
+    }
+
+    const finishedAt = Date.now();
+    item.runs++;
+    item.lastRunAt = new Date(finishedAt).toISOString();
+    item.nextRunAt = new Date(
+      finishedAt + Watchlist.nextDelaySeconds(item, retryAfter) * 1000,
+    ).toISOString();
+
+    if (item.consecutiveFailures > 0) {
+      logWarning(
+        `Watched product ${id} failed ${item.consecutiveFailures} times in a row; next run at ${item.nextRunAt}`,
+        item.lastError,
+      );
+    }
+
+    // Removed while running
+    if (this.items.get(id) !== item) return;
+    await this.store.save(item);
+  }
+}
@@ -0,0 +1,144 @@
+import { promises as fs } from "fs";
+import path from "path";
+import type { NaverOptions } from "../naver/naverScraper";
+import type { ErrorCode } from "../../middleware/errorHandler";
+import type { PriceSnapshot } from "../history/historyStore";
+import { logError } from "../../middleware/logger";
+import { config, WatchlistConfig } from "../../config";
+
+export type WatchStatus = "pending" | "ok" | "failed";
+
+/**
+ * A product re-scraped on a fixed interval. Keyed by product id, so the
+ * same product registered twice is one item.
+ */
+export interface WatchItem {
+  id: string;
+  // Canonical store URL that is scraped
+  url: string;
+  // URL as it was registered (may be a short link)
+  requestedUrl: string;
+  intervalSeconds: number;
+  options?: NaverOptions;
+  createdAt: string;
+  lastRunAt?: string;
+  lastStatus: WatchStatus;
+  lastError?: { code: ErrorCode; message: string };
+  consecutiveFailures: number;
+  runs: number;
+  nextRunAt: string;
+  // Product as of the last successful run; the next run is diffed against it
+  lastSnapshot?: PriceSnapshot;
+  lastChangedAt?: string;
+}
+
+/**
+ * Storage backend for watch items. The watchlist keeps items in memory and
+ * writes every change through, so stores only persist and load.
+ */
+export interface WatchlistStore {
+  save(item: WatchItem): Promise<void>;
+  list(): Promise<WatchItem[]>;
+  delete(id: string): Promise<void>;
+}
+
+/**
+ * Keeps items in process memory. The watchlist is lost on restart.
+ */
+export class MemoryWatchlistStore implements WatchlistStore {
+  private items: Map<string, WatchItem> = new Map();
+
+  async save(item: WatchItem): Promise<void> {
+    this.items.set(item.id, JSON.parse(JSON.stringify(item)));
+  }
+
+  async list(): Promise<WatchItem[]> {
+    return [...this.items.values()].map((item) => JSON.parse(JSON.stringify(item)));
+  }
+
+  async delete(id: string): Promise<void> {
+    this.items.delete(id);
+  }
+}
+
+/**
+ * Stores one JSON file per item in a directory, so the watchlist and each
+ * item's schedule survive restarts
+ */
+export class FileWatchlistStore implements WatchlistStore {
+  private directory: string;
+  private ready: Promise<void>;
+  // Pending write per item, so concurrent saves land in call order
+  private writes: Map<string, Promise<void>> = new Map();
+
+  constructor(directory: string) {
+    this.directory = directory;
+    this.ready = fs.mkdir(directory, { recursive: true }).then(() => undefined);
+  }
+
+  async save(item: WatchItem): Promise<void> {
+    await this.ready;
+    const target = this.filePath(item.id);
+    const temp = `${target}.tmp`;
+    const content = JSON.stringify(item);
+
+    // Write then rename so a crash never leaves a half-written item
+    const previous = this.writes.get(item.id) || Promise.resolve();
+    const write = previous
+      .catch(() => undefined)
+      .then(async () => {
+        await fs.writeFile(temp, content, "utf8");
+        await fs.rename(temp, target);
+      });
+
+    this.writes.set(item.id, write);
+    try {
+      await write;
+    } finally {
+      if (this.writes.get(item.id) === write) {
+        this.writes.delete(item.id);
+      }
+    }
+  }
+
+  async list(): Promise<WatchItem[]> {
+    await this.ready;
+    const files = await fs.readdir(this.directory);
+    const items: WatchItem[] = [];
+
+    for (const file of files) {
+      if (!file.endsWith(".json")) continue;
+      try {
+        const content = await fs.readFile(path.join(this.directory, file), "utf8");
+        items.push(JSON.parse(content) as WatchItem);
+      } catch (error) {
+        logError(`Failed to read watchlist file ${file}:`, error);
+      }
+    }
+
+    return items;
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.ready;
+    // Let a pending save finish first so it can't recreate the file
+    await this.writes.get(id)?.catch(() => undefined);
+    await fs.rm(this.filePath(id), { force: true });
+  }
+
+  private filePath(id: string): string {
+    // Item ids are product ids; strip anything else to keep paths inside the directory
+    return path.join(this.directory, `${id.replace(/[^0-9]/g, "")}.json`);
+  }
+}
+
+/**
+ * Create the store selected by WATCHLIST_STORE (file or memory)
+ */
+export function createWatchlistStore(
+  settings: WatchlistConfig = config.watchlist,
+): WatchlistStore {
+  return settings.store === "file"
+    ? new FileWatchlistStore(settings.storePath)
+    : new MemoryWatchlistStore();
+}
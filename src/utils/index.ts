@@ -42,6 +42,8 @@ import {
   validationMonitor,
   type EnhancedValidationResult,
   type ValidationRule,
+  type RateLimitStore,
+  type RateLimitResult,
 } from "./validationHelpers";
 
 // Export all core functions
@@ -88,6 +90,8 @@ export {
   validationMonitor,
   type EnhancedValidationResult,
   type ValidationRule,
+  type RateLimitStore,
+  type RateLimitResult,
 };
 
 // Common validation patterns for convenience
@@ -0,0 +1,9 @@
+/**
+ * Print one test result line, with the actual value when a check fails
+ */
+export const check = (label: string, passed: boolean, detail?: unknown): void => {
+  console.log(`${label}: ${passed ? "✅" : "❌"}`);
+  if (!passed && detail !== undefined) {
+    console.log(`  Got: ${JSON.stringify(detail)}`);
+  }
+};
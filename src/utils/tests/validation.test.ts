@@ -33,6 +33,10 @@ const validUrls = [
   "https://smartstore.naver.com/minibeans/products/4256805008",
   "https://smartstore.naver.com/store/123456",
   "https://smartstore.naver.com/store?product_no=123456",
+  "https://brand.naver.com/store/products/123456",
+  "https://m.smartstore.naver.com/store/products/123456",
+  "https://shopping.naver.com/window-products/beauty/123456",
+  "https://naver.me/5Ab1Cd2E",
 ];
 
 validUrls.forEach((url, index) => {
@@ -48,7 +52,8 @@ const invalidUrls = [
   "",
   "not-a-url",
   "https://example.com/products/123",
-  "https://brand.naver.com/store/products/123", // brand.naver.com not smartstore
+  "https://shopping.naver.com/home", // shopping page without a product
+  "https://naver.me/", // short link without a code
   "https://smartstore.naver.com/store", // no product ID
   "https://smartstore.naver.com/store/categories/123", // categories not products
 ];
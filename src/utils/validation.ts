@@ -4,7 +4,9 @@ export interface ValidationResult {
 }
 
 /**
- * Validate if the provided URL is a valid Naver Smartstore product URL
+ * Validate if the provided URL is a Naver product URL: a smartstore or brand
+ * store page (desktop or mobile), a shopping window product or a naver.me
+ * short link
  */
 export function validateProductUrl(url: string): ValidationResult {
   // Check if URL is provided
@@ -34,12 +36,22 @@ export function validateProductUrl(url: string): ValidationResult {
     };
   }
 
-  // Check if URL is from Naver Smartstore
-  const naverSmartstorePattern = /^https?:\/\/smartstore\.naver\.com/i;
-  if (!naverSmartstorePattern.test(trimmedUrl)) {
+  // Short links carry no product information until they are followed
+  const shortLinkPattern = /^https?:\/\/naver\.me\/[A-Za-z0-9]+\/?$/i;
+  if (shortLinkPattern.test(trimmedUrl)) {
+    return {
+      isValid: true,
+    };
+  }
+
+  // Check if URL is from a Naver store or the shopping window
+  const naverProductPattern =
+    /^https?:\/\/(?:(?:m\.)?(?:smartstore|brand)\.naver\.com|(?:m\.)?shopping\.naver\.com\/window-products\/)/i;
+  if (!naverProductPattern.test(trimmedUrl)) {
     return {
       isValid: false,
-      error: "URL must be from Naver Smartstore (smartstore.naver.com)",
+      error:
+        "URL must be a Naver product URL (smartstore.naver.com, brand.naver.com, shopping.naver.com/window-products or naver.me)",
     };
   }
 
@@ -486,6 +486,30 @@ export function validateApiInput<T extends Record<string, any>>(
   };
 }
 
+/**
+ * Counter backend for rate limiting. Shared stores (e.g. Redis) let several
+ * server instances enforce one budget.
+ */
+export interface RateLimitStore {
+  readonly name: string;
+  /**
+   * Add `cost` to the key's counter, starting a new window when none is
+   * open. Nothing is added when that would take the counter past `limit`.
+   */
+  increment(
+    key: string,
+    cost: number,
+    windowMs: number,
+    limit: number,
+  ): Promise<{ count: number; resetTime: number; allowed: boolean }>;
+  close(): Promise<void>;
+}
+
+export type RateLimitResult = EnhancedValidationResult & {
+  remaining?: number;
+  resetTime?: number;
+};
+
 /**
  * Rate limiting validation helper
  */
@@ -493,6 +517,8 @@ interface RateLimitConfig {
   windowMs: number;
   maxRequests: number;
   keyGenerator?: (req: any) => string;
+  // Counters live in this process unless a store is given
+  store?: RateLimitStore;
 }
 
 export class RateLimitValidator {
@@ -504,17 +530,48 @@ export class RateLimitValidator {
     this.config = config;
   }
 
+  get limit(): number {
+    return this.config.maxRequests;
+  }
+
+  get windowMs(): number {
+    return this.config.windowMs;
+  }
+
   /**
    * Check if request is within rate limit
    */
-  isAllowed(
-    req: any,
-  ): EnhancedValidationResult & { remaining?: number; resetTime?: number } {
-    const key = this.config.keyGenerator
-      ? this.config.keyGenerator(req)
-      : this.getDefaultKey(req);
-    const now = Date.now();
+  isAllowed(req: any): RateLimitResult {
+    const entry = this.hit(this.getKey(req), 1, Date.now());
+    return this.toResult(entry);
+  }
+
+  /**
+   * Charge `cost` units against the request's budget, using the configured
+   * store when there is one. Refused requests are not charged.
+   */
+  async consume(req: any, cost: number = 1): Promise<RateLimitResult> {
+    const key = this.getKey(req);
+
+    if (!this.config.store) {
+      return this.toResult(this.hit(key, cost, Date.now()));
+    }
+
+    return this.toResult(
+      await this.config.store.increment(
+        key,
+        cost,
+        this.config.windowMs,
+        this.config.maxRequests,
+      ),
+    );
+  }
 
+  private hit(
+    key: string,
+    cost: number,
+    now: number,
+  ): { count: number; resetTime: number; allowed: boolean } {
     // Clean up expired entries
     this.cleanup(now);
 
@@ -530,9 +587,19 @@ export class RateLimitValidator {
       entry.resetTime = now + this.config.windowMs;
     }
 
-    entry.count++;
+    const allowed = entry.count + cost <= this.config.maxRequests;
+    if (allowed) {
+      entry.count += cost;
+    }
+    return { count: entry.count, resetTime: entry.resetTime, allowed };
+  }
 
-    const isAllowed = entry.count <= this.config.maxRequests;
+  private toResult(entry: {
+    count: number;
+    resetTime: number;
+    allowed: boolean;
+  }): RateLimitResult {
+    const isAllowed = entry.allowed;
     const remaining = Math.max(0, this.config.maxRequests - entry.count);
 
     return {
@@ -546,6 +613,12 @@ export class RateLimitValidator {
     };
   }
 
+  private getKey(req: any): string {
+    return this.config.keyGenerator
+      ? this.config.keyGenerator(req)
+      : this.getDefaultKey(req);
+  }
+
   private getDefaultKey(req: any): string {
     return req.ip || req.connection?.remoteAddress || "unknown";
   }